@@ -1,46 +1,76 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { Line } from 'react-chartjs-2';
-import { ChartOptions, Scale, Tick, ScriptableScaleContext } from 'chart.js';
-import { MathNode } from 'mathjs';
 import { MathJaxContext, MathJax } from 'better-react-mathjax';
 import './App.css';
 import { Settings } from './components/Settings';
 import { Stats, RoundData } from './components/Stats';
 import { Info } from './components/Info';
+import { FunctionPlot } from './components/FunctionPlot';
+import { Sandbox } from './components/Sandbox';
+import { VectorArrows } from './components/VectorArrows';
+import { GeneratorDebug } from './components/GeneratorDebug';
+import { GameSummary } from './components/GameSummary';
+import { Leaderboard } from './components/Leaderboard';
+import { HotSeatResults } from './components/HotSeatResults';
+import { OnlineMatch } from './components/OnlineMatch';
+import { AngleExplanation } from './components/AngleExplanation';
+import { PlotSonifier } from './components/PlotSonifier';
+import { AngleDial } from './components/AngleDial';
 import { useCountUp } from './hooks/useCountUp';
-import { getNewFunctions, calculateAngle, math } from './gameLogic';
+import { useRoundGenerator, RoundRequest } from './hooks/useRoundGenerator';
+import { useSessions } from './hooks/useSessions';
+import { useCountdown } from './hooks/useCountdown';
+import { createSessionId } from './sessionStore';
+import { PlayerGuess, PlayerRecord, createPlayerRecords, isHotSeat, isHotSeatGameOver, recordRound, toPlayerSessions } from './hotSeat';
+import { createLocalLeaderboardStore, DEFAULT_PLAYER_NAME, loadPlayerName, savePlayerName } from './leaderboard';
+import { getModeKey, describeMode } from './modes';
+import { IRoundData, PlotData, RoundRules, scoreGuess, timeBonusFor, acceptGuessInput, maxGuess } from './roundEngine';
+import { ScoringStrategyId } from './scoring';
+import { INTERVAL_COVERAGE, isInside, parseGuessRange, parsePartialRange, scoreInterval } from './intervalGuess';
+import { randomSeed } from './random';
+import { InnerProductId, getInnerProduct } from './innerProducts';
+import { OverlayId } from './plotOverlays';
+import { parseVector, clampDimension } from './vectors';
+import { DifficultyLevelId, DifficultySetting, getDifficultyLevel, resolveDifficulty } from './difficulty';
+import { availableFamilies, buildTrainingModel, chooseFocus, classifyExpressions, trainingRounds } from './training';
+import { GAME_MODES, GameModeId, getGameMode, clampStreakTolerance, isGameOver, isMiss, summarizeGame } from './gameModes';
+import { DAILY_ROUNDS, DAILY_RULES, getDailyKey, getDailyRoundSeed, formatDailyShareText, hasPlayedDaily, withSessionLevel } from './daily';
 
 // --- Type Definitions ---
-type GameState = 'loading' | 'playing' | 'results';
+type GameState = 'loading' | 'playing' | 'results' | 'gameOver';
 
 export interface AppSettings {
   isDarkMode: boolean;
   isUnitaryMode: boolean;
   acuteAnglesOnly: boolean;
   isEasyInterval: boolean;
+  innerProduct: InnerProductId;
+  isVectorMode: boolean;
+  vectorDimension: number;
+  difficulty: DifficultySetting;
+  gameMode: GameModeId;
+  streakTolerance: number;
+  // How point guesses are scored.
+  scoring: ScoringStrategyId;
+  // Guess a range the true angle is 80% likely to fall in, scored with the interval score.
+  isIntervalGuess: boolean;
+  // Names of the hot-seat players; fewer than two means solo play.
+  players: string[];
+  // Crosshair readouts and zoom/pan on the plot.
+  isPlotInteractive: boolean;
+  // Accessibility: g drawn dashed (v with square markers), and audio playback of the curves.
+  isLineStyled: boolean;
+  isSonified: boolean;
   lineThickness: number;
   func1Color: string;
   func2Color: string;
 }
 
-type PlotData = {
-  x_values: number[];
-  y1_values: (number | null)[];
-  y2_values: (number | null)[];
-};
-
-interface IRoundData {
-    angle: number;
-    f1_str: string;
-    f2_str: string;
-    isEasy: boolean;
-}
-
 type ResultData = {
   actual_angle: number;
-  score: number;
   f1_str: string;
   f2_str: string;
+  // One guess per player, in seat order (a single guess in solo play).
+  guesses: PlayerGuess[];
 };
 
 const defaultSettings: AppSettings = {
@@ -48,12 +78,29 @@ const defaultSettings: AppSettings = {
   isUnitaryMode: false,
   acuteAnglesOnly: false,
   isEasyInterval: true,
+  innerProduct: 'l2',
+  isVectorMode: false,
+  vectorDimension: 3,
+  difficulty: 'standard',
+  gameMode: 'endless',
+  streakTolerance: 20,
+  scoring: 'cubic',
+  isIntervalGuess: false,
+  players: [],
+  isPlotInteractive: false,
+  isLineStyled: false,
+  isSonified: false,
   lineThickness: 3,
   func1Color: '#dc3232',
   func2Color: '#3264dc',
 };
 
-const PLOT_SAMPLES = 200;
+// Settings that change how rounds are generated, played or scored. Changing one starts a new game;
+// the display settings apply to the game in progress.
+const RULE_SETTINGS: (keyof AppSettings)[] = [
+  'isUnitaryMode', 'acuteAnglesOnly', 'isEasyInterval', 'innerProduct', 'isVectorMode', 'vectorDimension', 'difficulty',
+  'gameMode', 'streakTolerance', 'scoring', 'isIntervalGuess', 'players',
+];
 
 const mathJaxConfig = {
   tex: {
@@ -62,6 +109,14 @@ const mathJaxConfig = {
   }
 };
 
+// --- Plot Overlays ---
+// The integrands behind ⟨f, g⟩ and the norms, shaded in the results.
+const OVERLAY_OPTIONS: { id: OverlayId; label: string }[] = [
+  { id: 'none', label: 'None' },
+  { id: 'product', label: 'f·g' },
+  { id: 'squares', label: 'f², g²' },
+];
+
 // --- React Component ---
 function App() {
   // --- State Management ---
@@ -80,170 +135,267 @@ function App() {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isStatsOpen, setIsStatsOpen] = useState(false);
   const [isInfoOpen, setIsInfoOpen] = useState(false);
+  const [isSandboxOpen, setIsSandboxOpen] = useState(false);
+  const [isDebugOpen, setIsDebugOpen] = useState(false);
+  // The generator debug view is only offered with ?debug in the URL.
+  const isDebugMode = useMemo(() => new URLSearchParams(window.location.search).has('debug'), []);
 
   const [gameState, setGameState] = useState<GameState>('loading');
   const [plotData, setPlotData] = useState<PlotData | null>(null);
   const [roundData, setRoundData] = useState<IRoundData | null>(null);
   const [guess, setGuess] = useState<string>('');
+  // The two bounds typed in interval guessing, in either order.
+  const [guessRange, setGuessRange] = useState<[string, string]>(['', '']);
+  // Set when a typed guess was out of range and ignored, so the player knows why.
+  const [isGuessRejected, setIsGuessRejected] = useState(false);
   const [result, setResult] = useState<ResultData | null>(null);
   const [totalScore, setTotalScore] = useState<number>(0);
   const [roundNumber, setRoundNumber] = useState<number>(0);
   const animatedScore = useCountUp(totalScore, 500);
   const [history, setHistory] = useState<RoundData[]>([]);
+  // Hot-seat players keep their own records instead of `history` and `totalScore`.
+  const [playerRecords, setPlayerRecords] = useState<PlayerRecord[]>([]);
+  // Guesses already made this round, hidden from the players still to guess.
+  const [pendingGuesses, setPendingGuesses] = useState<PlayerGuess[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [dailyKey, setDailyKey] = useState<string | null>(null);
+  const [shareMessage, setShareMessage] = useState<string | null>(null);
   const isInitialRender = useRef(true);
   const guessInputRef = useRef<HTMLInputElement>(null);
+  const roundGenerator = useRoundGenerator();
+  const nextRoundRequestRef = useRef<RoundRequest | null>(null);
+  const latestRoundRequestRef = useRef(0);
+  const { sessions, isLoaded: areSessionsLoaded, recordSession, importSessions } = useSessions();
+  const sessionRef = useRef({ id: createSessionId(), startedAt: Date.now() });
+  const leaderboardStore = useMemo(() => createLocalLeaderboardStore(), []);
+  const [playerName, setPlayerName] = useState(loadPlayerName);
+  const [isLeaderboardOpen, setIsLeaderboardOpen] = useState(false);
+  const [isOnlineOpen, setIsOnlineOpen] = useState(false);
+  const [overlay, setOverlay] = useState<OverlayId>('none');
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const timeLeftMs = useCountdown(deadline);
+  const roundStartedAtRef = useRef(Date.now());
+
+  // In auto mode the difficulty follows the levels unlocked so far. A session keeps the level of its
+  // first round, so its mode (and leaderboard) and its recorded settings never change midway.
+  const autoLevel = useMemo(() => resolveDifficulty('auto', sessions), [sessions]);
+  const [sessionLevel, setSessionLevel] = useState<DifficultyLevelId | null>(null);
+  // Fixed when the session starts, like the level: a daily already played is only a replay.
+  const [isDailyReplay, setIsDailyReplay] = useState(false);
+
+  // The daily challenge overrides the game rules so that every player gets the same rounds.
+  const ruleSettings = useMemo(() => {
+    const rules = {
+      ...settings,
+      vectorDimension: clampDimension(settings.vectorDimension),
+      streakTolerance: clampStreakTolerance(settings.streakTolerance),
+      difficulty: settings.difficulty === 'auto' ? sessionLevel ?? autoLevel : resolveDifficulty(settings.difficulty, []),
+    };
+    return dailyKey ? { ...rules, ...DAILY_RULES } : rules;
+  }, [settings, dailyKey, autoLevel, sessionLevel]);
+  // The daily challenge has its own rules, so changing a setting only restarts a free-play game.
+  const restartKey = useMemo(
+    () => (dailyKey ? `daily:${dailyKey}` : JSON.stringify(RULE_SETTINGS.map(key => settings[key]))),
+    [settings, dailyKey]
+  );
+  const isDailyComplete = dailyKey !== null && gameState === 'results' && roundNumber >= DAILY_ROUNDS;
+  const gameMode = getGameMode(ruleSettings.gameMode);
+  // The last round of a match, or a streak-ending miss, leads to the summary instead of a new round.
+  // The daily challenge is always played solo.
+  const isHotSeatGame = !dailyKey && isHotSeat(settings.players);
+  // The rounds played so far (the first player's, in hot-seat), which shape the next round.
+  const roundLog = isHotSeatGame ? playerRecords[0]?.history ?? [] : history;
+  const isGameOverPending = gameState === 'results' && (isHotSeatGame
+    ? isHotSeatGameOver(gameMode, playerRecords, ruleSettings.streakTolerance)
+    : isGameOver(gameMode, history, ruleSettings.streakTolerance));
+  const gameSummary = useMemo(
+    () => (gameState === 'gameOver' && !isHotSeatGame ? summarizeGame(gameMode, history, ruleSettings.streakTolerance) : null),
+    [gameState, gameMode, history, ruleSettings.streakTolerance, isHotSeatGame]
+  );
+  const streak = gameMode.endsOnMiss && !isHotSeatGame ? history.filter(round => !isMiss(round.diff, ruleSettings.streakTolerance)).length : null;
+  const roundVectors = useMemo(() => {
+    const u = roundData && parseVector(roundData.f1_expr);
+    const v = roundData && parseVector(roundData.f2_expr);
+    return u && v ? { u, v } : null;
+  }, [roundData]);
+
+  const roundRules = useMemo((): RoundRules => ({
+    isUnitaryMode: ruleSettings.isUnitaryMode,
+    acuteAnglesOnly: ruleSettings.acuteAnglesOnly,
+    isEasyInterval: ruleSettings.isEasyInterval,
+    innerProduct: ruleSettings.innerProduct,
+    isVectorMode: ruleSettings.isVectorMode,
+    vectorDimension: ruleSettings.vectorDimension,
+    difficulty: ruleSettings.difficulty,
+  }), [ruleSettings]);
+
+  // Training aims each round at a weak spot in every function round played so far (the current
+  // session is recorded after each round, so it is part of `sessions`).
+  const trainingModel = useMemo(
+    () => (gameMode.id === 'training' && !roundRules.isVectorMode ? buildTrainingModel(trainingRounds(sessions), maxGuess(roundRules)) : null),
+    [gameMode.id, roundRules, sessions]
+  );
 
   // --- Local Game Logic ---
-  const startNewRound = useCallback(async (isFirstRound = false) => {
+  // `inFlight` is the round still being played when the next one is pre-generated; `level` is the
+  // auto level of a session that is just starting, before it shows up in `roundRules`.
+  const buildRoundRequest = useCallback((roundIndex: number, roundHistory: Pick<RoundData, 'isEasy'>[], inFlight?: IRoundData, level?: DifficultyLevelId | null): RoundRequest => {
+    const rules = withSessionLevel(roundRules, dailyKey, level);
+    const focus = trainingModel && chooseFocus(
+      trainingModel,
+      availableFamilies(getDifficultyLevel(rules.difficulty)),
+      Math.random,
+      inFlight && { angle: inFlight.angle, family: classifyExpressions(inFlight.f1_expr, inFlight.f2_expr) }
+    );
+    return {
+      rules,
+      history: roundHistory.map(({ isEasy }) => ({ isEasy })),
+      seed: dailyKey ? getDailyRoundSeed(dailyKey, roundIndex) : randomSeed(),
+      ...(focus && { focus }),
+    };
+  }, [roundRules, dailyKey, trainingModel]);
+
+  const startNewRound = useCallback(async (isFirstRound = false, firstLevel: DifficultyLevelId | null = null) => {
     setError(null);
     setGameState('loading');
     setResult(null);
     setGuess('');
+    setGuessRange(['', '']);
+    setIsGuessRejected(false);
+    setPendingGuesses([]);
+    setShareMessage(null);
+
+    // Use the pre-generated next round unless the game was restarted.
+    const request = (!isFirstRound && nextRoundRequestRef.current) || buildRoundRequest(0, [], undefined, firstLevel);
+    nextRoundRequestRef.current = null;
+    const requestNumber = ++latestRoundRequestRef.current;
+
+    try {
+      const { round, plot } = await roundGenerator.requestRound(request);
+      if (requestNumber !== latestRoundRequestRef.current) return; // Superseded by a newer round.
+      setRoundData(round);
+      setPlotData(plot);
+      if (isFirstRound) {
+        setRoundNumber(1);
+        // The clock starts once the first round is on screen.
+        setDeadline(gameMode.timeLimitMs !== undefined ? Date.now() + gameMode.timeLimitMs : null);
+      } else {
+        setRoundNumber(prev => prev + 1);
+      }
+    } catch (err) {
+      if (requestNumber !== latestRoundRequestRef.current) return;
+      console.error("Failed to generate round", err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    setGameState('playing');
+  }, [buildRoundRequest, roundGenerator, gameMode]);
+
+  const restartGame = useCallback(() => {
+    setTotalScore(0);
+    setHistory([]);
+    setPlayerRecords(createPlayerRecords(isHotSeatGame ? settings.players : []));
+    setDeadline(null);
+    sessionRef.current = { id: createSessionId(), startedAt: Date.now() };
+    const level = settings.difficulty === 'auto' ? autoLevel : null;
+    setSessionLevel(level);
+    setIsDailyReplay(dailyKey !== null && hasPlayedDaily(sessions, dailyKey));
+    startNewRound(true, level);
+  }, [startNewRound, isHotSeatGame, settings.players, settings.difficulty, autoLevel, dailyKey, sessions]);
+
+  const endGame = useCallback(() => {
+    latestRoundRequestRef.current++; // Drop any round still being generated.
+    nextRoundRequestRef.current = null;
+    setGameState('gameOver');
+  }, []);
 
-    setTimeout(() => {
-        let angleResult: { angle: number | null, f1_final: MathNode, f2_final: MathNode } | null = null;
-        let f1_round: MathNode, f2_round: MathNode;
-        let angleIsValid = false;
-        let newAngleIsEasy = false;
-        let currentInterval: [number, number];
-
-        while (!angleIsValid) {
-            // Determine interval for the round
-            if (settings.isEasyInterval) {
-                currentInterval = [-1, 1];
-            } else {
-                let a, b;
-                do {
-                    a = Math.floor(Math.random() * 11) - 5; // -5 to 5
-                    b = Math.floor(Math.random() * 11) - 5;
-                } while (a === b);
-                currentInterval = [Math.min(a, b), Math.max(a, b)];
-            }
-
-            const funcs = getNewFunctions(currentInterval);
-            let f1_orig = funcs.f1;
-            let f2_orig = funcs.f2;
-
-            // Scaling logic to make functions comparable
-            const x_vals_for_scaling = Array.from({ length: 100 }, (_, i) => {
-                const t = i / 99;
-                return currentInterval[0] + t * (currentInterval[1] - currentInterval[0]);
-            });
-            const y1_vals = x_vals_for_scaling.map(x => f1_orig.evaluate({ x }));
-            const y2_vals = x_vals_for_scaling.map(x => f2_orig.evaluate({ x }));
-            const max_abs_y1 = Math.max(...y1_vals.filter(y => isFinite(y as number)).map(y => Math.abs(y as number)));
-            const max_abs_y2 = Math.max(...y2_vals.filter(y => isFinite(y as number)).map(y => Math.abs(y as number)));
-            f1_round = f1_orig;
-            f2_round = f2_orig;
-            if (max_abs_y1 > 0 && max_abs_y2 > 0) {
-                const ratio = max_abs_y1 > max_abs_y2 ? max_abs_y1 / max_abs_y2 : max_abs_y2 / max_abs_y1;
-                if (ratio > 5) {
-                    const k = Math.ceil(ratio / 5);
-                    if (max_abs_y1 > max_abs_y2) {
-                        f2_round = math.parse(`(${f2_orig.toString()}) * ${k}`);
-                    } else {
-                        f1_round = math.parse(`(${f1_orig.toString()}) * ${k}`);
-                    }
-                }
-            }
-
-            angleResult = calculateAngle(f1_round, f2_round, settings.isUnitaryMode, currentInterval, settings.acuteAnglesOnly);
-
-            // --- VALIDATION ---
-            if (angleResult === null || angleResult.angle === null || isNaN(angleResult.angle)) {
-                console.warn("Angle calculation failed (e.g. undefined function). Retrying...");
-                continue;
-            }
-
-            const newAngle = angleResult.angle;
-            const easyAngles = [0, 90, 180];
-            const tolerance = 1.0;
-            newAngleIsEasy = easyAngles.some(easy => Math.abs(newAngle - easy) < tolerance);
-
-            if (newAngleIsEasy && history.length > 0) {
-                const recentHistory = history.slice(-5);
-                const wasRecentAngleEasy = recentHistory.some(round => round.isEasy);
-                if (wasRecentAngleEasy) {
-                    console.warn(`Rejecting easy angle (${newAngle}°) due to recent easy angle. Retrying...`);
-                    continue;
-                }
-            }
-            
-            angleIsValid = true;
-        }
-
-        const { angle, f1_final, f2_final } = angleResult!;
-
-        const newRoundData: IRoundData = {
-            angle: angle!,
-            f1_str: f1_final.toTex({parenthesis: 'auto'}),
-            f2_str: f2_final.toTex({parenthesis: 'auto'}),
-            isEasy: newAngleIsEasy,
-        };
-        setRoundData(newRoundData);
-
-        const x_values = Array.from({ length: PLOT_SAMPLES }, (_, i) => {
-            const t = i / (PLOT_SAMPLES - 1);
-            return currentInterval[0] + t * (currentInterval[1] - currentInterval[0]);
-        });
-        const y1_raw = x_values.map(x => f1_final.evaluate({ x }));
-        const y2_raw = x_values.map(x => f2_final.evaluate({ x }));
-        const y1_safe = y1_raw.map(y => isFinite(y as number) ? y : null);
-        const y2_safe = y2_raw.map(y => isFinite(y as number) ? y : null);
-
-        const newPlotData: PlotData = { x_values, y1_values: y1_safe, y2_values: y2_safe };
-        setPlotData(newPlotData);
-
-        if (isFirstRound) {
-            setRoundNumber(1);
-        } else {
-            setRoundNumber(prev => prev + 1);
-        }
-        setGameState('playing');
-    }, 50);
-
-  }, [settings, history]);
+  const advance = useCallback(() => {
+    if (isGameOverPending) {
+      endGame();
+    } else {
+      startNewRound(false);
+    }
+  }, [isGameOverPending, endGame, startNewRound]);
 
   const submitGuess = () => {
-    if (!roundData || guess === '') return;
+    const range = parseGuessRange(...guessRange);
+    if (!roundData || (ruleSettings.isIntervalGuess ? !range : guess === '')) return;
     
     const actual_angle = roundData.angle;
-    const diff = Math.abs(actual_angle - parseFloat(guess));
-    const score = 100 * Math.pow(Math.max(0, 1 - diff / 180), 3);
+    const { guess: value, diff, score: baseScore } = ruleSettings.isIntervalGuess && range
+      ? scoreInterval(range[0], range[1], actual_angle)
+      : { guess: parseFloat(guess), ...scoreGuess(parseFloat(guess), actual_angle, ruleSettings.scoring) };
+    const timeBonus = gameMode.hasTimeBonus ? timeBonusFor(baseScore, Date.now() - roundStartedAtRef.current) : undefined;
+    const score = baseScore + (timeBonus ?? 0);
+    const guessEntry = ruleSettings.isIntervalGuess && range ? { guessRange: range } : { scoring: ruleSettings.scoring };
+    const guesses = [...pendingGuesses, { player: pendingGuesses.length, guess: value, diff, score, timeBonus, ...guessEntry }];
+
+    // Pass the seat on until every player has guessed.
+    if (isHotSeatGame && guesses.length < playerRecords.length) {
+      setPendingGuesses(guesses);
+      setGuess('');
+      setGuessRange(['', '']);
+      setIsGuessRejected(false);
+      roundStartedAtRef.current = Date.now();
+      guessInputRef.current?.focus();
+      return;
+    }
+    setPendingGuesses([]);
 
     const newResult: ResultData = {
         actual_angle,
-        score,
         f1_str: roundData.f1_str,
         f2_str: roundData.f2_str,
+        guesses,
     };
-
     setResult(newResult);
-    setTotalScore(prev => prev + score);
-    
-    const newHistoryEntry: RoundData = {
-      guess: parseFloat(guess),
+
+    const newHistoryEntries: RoundData[] = guesses.map(playerGuess => ({
+      guess: playerGuess.guess,
       actual: actual_angle,
-      diff: diff,
-      score: score,
+      diff: playerGuess.diff,
+      score: playerGuess.score,
       isEasy: roundData.isEasy,
-    };
-    setHistory(prev => [...prev, newHistoryEntry]);
+      seed: roundData.seed,
+      f1_expr: roundData.f1_expr,
+      f2_expr: roundData.f2_expr,
+      f1_tex: roundData.f1_str,
+      f2_tex: roundData.f2_str,
+      interval: roundData.interval,
+      level: roundData.level,
+      ...(playerGuess.timeBonus !== undefined && { timeBonus: playerGuess.timeBonus }),
+      ...(playerGuess.guessRange && { guessRange: playerGuess.guessRange }),
+      ...(playerGuess.scoring && { scoring: playerGuess.scoring }),
+    }));
+    if (isHotSeatGame) {
+      setPlayerRecords(prev => recordRound(prev, newHistoryEntries));
+    } else {
+      setTotalScore(prev => prev + score);
+      setHistory(prev => [...prev, newHistoryEntries[0]]);
+    }
 
     setGameState('results');
   };
 
-  const handleGuessChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { value } = e.target;
-    if (value === "") {
-      setGuess("");
-      return;
+  const handleGuessKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.stopPropagation();
+      submitGuess();
     }
-    const numValue = Number(value);
-    const maxValue = settings.acuteAnglesOnly ? 90 : 180;
-    if (!isNaN(numValue) && numValue >= 0 && numValue <= maxValue) {
-      setGuess(value);
+  };
+
+  const handleRangeChange = (index: 0 | 1) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const accepted = acceptGuessInput(e.target.value, ruleSettings);
+    setIsGuessRejected(accepted === null);
+    if (accepted !== null) {
+      setGuessRange(prev => (index === 0 ? [accepted, prev[1]] : [prev[0], accepted]));
+    }
+  };
+
+  const handleGuessChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const accepted = acceptGuessInput(e.target.value, ruleSettings);
+    setIsGuessRejected(accepted === null);
+    if (accepted !== null) {
+      setGuess(accepted);
     }
   };
 
@@ -253,7 +405,7 @@ function App() {
   }, [settings]);
 
   useEffect(() => {
-    startNewRound(true);
+    restartGame();
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -262,101 +414,120 @@ function App() {
       isInitialRender.current = false;
       return;
     }
-    setTotalScore(0);
-    setHistory([]);
-    startNewRound(true);
+    restartGame();
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [settings]);
+  }, [restartKey]);
+
+  // The auto level depends on the stored sessions. A session started before they were loaded starts
+  // over at the right level, as long as no round has been played yet.
+  useEffect(() => {
+    if (areSessionsLoaded && settings.difficulty === 'auto' && roundLog.length === 0 && sessionLevel !== autoLevel) restartGame();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [areSessionsLoaded]);
+
+  // Time attack ends the moment the clock runs out, even mid-round.
+  useEffect(() => {
+    if (timeLeftMs === 0 && gameState !== 'gameOver') endGame();
+  }, [timeLeftMs, gameState, endGame]);
+
+  // Enter inside a modal (e.g. on one of its buttons) belongs to the modal, not to the game.
+  const isAnyModalOpen = isSettingsOpen || isStatsOpen || isInfoOpen || isSandboxOpen || isDebugOpen || isLeaderboardOpen || isOnlineOpen;
 
   useEffect(() => {
     const handleGlobalKeyPress = (e: KeyboardEvent) => {
-      if (e.key === 'Enter' && gameState === 'results') {
-        startNewRound(false);
+      if (e.key === 'Enter' && gameState === 'results' && !isDailyComplete && !isAnyModalOpen) {
+        advance();
       }
     };
     window.addEventListener('keydown', handleGlobalKeyPress);
     return () => window.removeEventListener('keydown', handleGlobalKeyPress);
-  }, [gameState, startNewRound]);
+  }, [gameState, advance, isDailyComplete, isAnyModalOpen]);
+
+  const toggleDaily = () => {
+    setDailyKey(prev => (prev ? null : getDailyKey()));
+  };
+
+  const shareDailyResult = () => {
+    if (!dailyKey) return;
+    const text = formatDailyShareText(dailyKey, totalScore);
+    navigator.clipboard?.writeText(text)
+      .then(() => setShareMessage('Copied to clipboard!'))
+      .catch(() => setShareMessage(text));
+  };
+
+  // Persist the current session (every player's, in hot-seat) after every round.
+  useEffect(() => {
+    if (roundLog.length === 0 || isDailyReplay) return;
+    const session = { ...sessionRef.current, settings: ruleSettings, dailyKey };
+    const played = isHotSeatGame ? toPlayerSessions(session, playerRecords) : [{ ...session, rounds: history, totalScore }];
+    played.forEach(playerSession => {
+      recordSession(playerSession);
+      leaderboardStore.submit({
+        id: playerSession.id,
+        name: playerSession.player ?? (playerName.trim() || DEFAULT_PLAYER_NAME),
+        modeKey: getModeKey(ruleSettings, dailyKey),
+        modeLabel: describeMode(ruleSettings, dailyKey),
+        score: playerSession.totalScore,
+        rounds: playerSession.rounds.length,
+        playedAt: playerSession.startedAt,
+        // The daily challenge is played as endless, but always has the same number of rounds.
+        isAveraged: gameMode.isOpenEnded && !dailyKey,
+      }).catch(error => console.error("Failed to submit score", error));
+    });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [history, playerRecords]);
+
+  useEffect(() => {
+    savePlayerName(playerName);
+  }, [playerName]);
+
+  // Pre-generate the next round while the player is still guessing.
+  useEffect(() => {
+    if (!roundData || (dailyKey && roundNumber >= DAILY_ROUNDS)) return;
+    if (gameMode.rounds !== undefined && roundNumber >= gameMode.rounds) return;
+    const request = buildRoundRequest(roundNumber, [...roundLog, { isEasy: roundData.isEasy }], roundData);
+    nextRoundRequestRef.current = request;
+    roundGenerator.prefetchRound(request);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [roundData, ruleSettings.difficulty]);
 
   useEffect(() => {
     if (gameState === 'playing') {
+      roundStartedAtRef.current = Date.now();
       guessInputRef.current?.focus();
     }
   }, [gameState]);
 
-  // --- Chart.js Configuration ---
-  const chartData = useMemo(() => {
-    if (!plotData) return { labels: [], datasets: [] };
-    return {
-      labels: plotData.x_values,
-      datasets: [
-        { label: 'Function 1', data: plotData.y1_values, borderColor: settings.func1Color, borderWidth: settings.lineThickness, pointRadius: 0, spanGaps: true },
-        { label: 'Function 2', data: plotData.y2_values, borderColor: settings.func2Color, borderWidth: settings.lineThickness, pointRadius: 0, spanGaps: true },
-      ],
-    };
-  }, [plotData, settings.func1Color, settings.func2Color, settings.lineThickness]);
-
-  const chartOptions: ChartOptions<'line'> = useMemo(() => {
-    const gridColor = settings.isDarkMode ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.1)';
-    const zeroLineColor = settings.isDarkMode ? 'rgba(255, 255, 255, 0.4)' : 'rgba(0, 0, 0, 0.4)';
-    const fontColor = settings.isDarkMode ? '#e0e0e0' : '#333';
-
-    return {
-      responsive: true,
-      maintainAspectRatio: false,
-      scales: {
-        x: {
-          type: 'linear',
-          title: { display: true, text: 'x', color: fontColor },
-          ticks: { color: fontColor, autoSkip: false, maxRotation: 0, minRotation: 0,
-            callback: function(this: Scale, value: number | string, index: number, ticks: Tick[]): string | null {
-              const isFirst = index === 0;
-              const isMiddle = index === Math.floor(ticks.length / 2);
-              const isLast = index === ticks.length - 1;
-              if (isFirst || isMiddle || isLast) return Number(this.getLabelForValue(Number(value))).toFixed(1);
-              return null;
-            }
-          },
-          grid: { color: gridColor },
-        },
-        y: {
-          type: 'linear',
-          title: { display: true, text: 'y', color: fontColor },
-          grid: {
-            lineWidth: (context: ScriptableScaleContext) => (context.tick.value === 0 ? 2 : 1),
-            color: (context: ScriptableScaleContext) => (context.tick.value === 0 ? zeroLineColor : gridColor),
-          },
-          ticks: { color: fontColor,
-            callback: function(value: string | number, index: number, ticks: Tick[]): string | null {
-              const isMin = index === 0;
-              const isMax = index === ticks.length - 1;
-              const isZero = Number(value) === 0;
-              if (isMin || isMax || isZero) return Number(value).toFixed(1);
-              return null;
-            }
-          }
-        },
-      },
-      plugins: { legend: { display: false } },
-    };
-  }, [settings.isDarkMode]);
-
   // --- Render Logic ---
   return (
     <MathJaxContext config={mathJaxConfig}>
       <div className={`App ${settings.isDarkMode ? 'dark-mode' : ''}`}>
-        <Settings isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} settings={settings} onSettingsChange={setSettings} />
-        <Stats isOpen={isStatsOpen} onClose={() => setIsStatsOpen(false)} history={history} settings={settings} />
-        <Info isOpen={isInfoOpen} onClose={() => setIsInfoOpen(false)} />
+        <Settings isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} settings={settings} onSettingsChange={setSettings} autoLevel={autoLevel} />
+        <Stats isOpen={isStatsOpen} onClose={() => setIsStatsOpen(false)} history={history} sessions={sessions} currentSessionId={sessionRef.current.id} currentModeKey={getModeKey(ruleSettings, dailyKey)} settings={settings} onImportSessions={importSessions} />
+        <Leaderboard isOpen={isLeaderboardOpen} onClose={() => setIsLeaderboardOpen(false)} store={leaderboardStore} currentModeKey={getModeKey(ruleSettings, dailyKey)} currentSessionId={sessionRef.current.id} playerName={playerName} onPlayerNameChange={setPlayerName} />
+        <OnlineMatch isOpen={isOnlineOpen} onClose={() => setIsOnlineOpen(false)} settings={settings} rules={roundRules} rounds={GAME_MODES.match.rounds!} playerName={playerName.trim() || DEFAULT_PLAYER_NAME} generate={roundGenerator.sampleRound} />
+        <Info isOpen={isInfoOpen} onClose={() => setIsInfoOpen(false)} innerProduct={ruleSettings.innerProduct} isVectorMode={ruleSettings.isVectorMode} />
+        <Sandbox isOpen={isSandboxOpen} onClose={() => setIsSandboxOpen(false)} settings={settings} />
+        {isDebugMode && (
+          <GeneratorDebug isOpen={isDebugOpen} onClose={() => setIsDebugOpen(false)} settings={settings} rules={roundRules} sampleRound={roundGenerator.sampleRound} />
+        )}
         <header className="header">
           <h1>Angulário</h1>
           <div className="stats">
-              <div>Round: {roundNumber}</div>
-              <div>Total Score: {animatedScore.toFixed(0)}</div>
+              {dailyKey && <div>Daily {dailyKey}{isDailyReplay && ' (replay, not recorded)'}</div>}
+              <div>Round: {roundNumber}{dailyKey ? ` / ${DAILY_ROUNDS}` : gameMode.rounds !== undefined && ` / ${gameMode.rounds}`}</div>
+              {timeLeftMs !== null && <div>Time: {Math.ceil(timeLeftMs / 1000)}s</div>}
+              {streak !== null && <div>Streak: {streak}</div>}
+              {!isHotSeatGame && <div>Total Score: {animatedScore.toFixed(0)}</div>}
           </div>
           <div className="header-controls">
+              <button className={`settings-button icon-button ${dailyKey ? 'active' : ''}`} title={dailyKey ? 'Back to Free Play' : 'Daily Challenge'} onClick={toggleDaily}>📅</button>
+              <button className="settings-button icon-button" title="Online Match" onClick={() => setIsOnlineOpen(true)}>🌐</button>
+              <button className="settings-button icon-button" title="Sandbox" onClick={() => setIsSandboxOpen(true)}>🧪</button>
+              {isDebugMode && <button className="settings-button icon-button" title="Generator Debug" onClick={() => setIsDebugOpen(true)}>🐞</button>}
               <button className="settings-button icon-button" title="Info" onClick={() => setIsInfoOpen(true)}>ℹ️</button>
               <button className="settings-button icon-button" title="Statistics" onClick={() => setIsStatsOpen(true)}>📊</button>
+              <button className="settings-button icon-button" title="Leaderboard" onClick={() => setIsLeaderboardOpen(true)}>🏆</button>
               <button className="settings-button" title="Settings" onClick={() => setIsSettingsOpen(true)}>⚙️</button>
           </div>
         </header>
@@ -368,45 +539,164 @@ function App() {
               </div>
           ) : error ? (
               <p>Error: {error}</p>
+          ) : gameState === 'gameOver' && (gameSummary || isHotSeatGame) ? (
+              <GameSummary mode={gameMode} summary={gameSummary} streakTolerance={ruleSettings.streakTolerance} players={isHotSeatGame ? playerRecords : undefined} onPlayAgain={restartGame} />
           ) : (
             <>
               <div className="graph-container">
                 <div className="formula-header">
                   {gameState === 'results' && result && (
                     <>
-                      <span style={{ color: settings.func1Color }}><MathJax inline>{`$${result.f1_str}$`}</MathJax></span>
-                      <span style={{ color: settings.func2Color }}><MathJax inline>{`$${result.f2_str}$`}</MathJax></span>
+                      <span style={{ color: settings.func1Color }}>
+                        {settings.isLineStyled && <span className="line-swatch" style={{ borderColor: settings.func1Color }} />}
+                        <MathJax inline>{`$${result.f1_str}$`}</MathJax>
+                      </span>
+                      <span style={{ color: settings.func2Color }}>
+                        {settings.isLineStyled && <span className="line-swatch dashed" style={{ borderColor: settings.func2Color }} />}
+                        <MathJax inline>{`$${result.f2_str}$`}</MathJax>
+                      </span>
                     </>
                   )}
                 </div>
-                <Line key={roundNumber} options={chartOptions} data={chartData!} />
+                <FunctionPlot
+                  key={roundNumber}
+                  plotData={plotData}
+                  settings={settings}
+                  interactive={settings.isPlotInteractive}
+                  // Shading the integrals would give the answer away while guessing.
+                  overlay={gameState === 'results' ? overlay : 'none'}
+                  innerProduct={getInnerProduct(ruleSettings.innerProduct)}
+                  integrals={roundData?.breakdown}
+                />
               </div>
+              {settings.isSonified && plotData && <PlotSonifier plotData={plotData} />}
               {gameState === 'playing' && (
                 <div className="controls">
-                  <p>Guess the angle between the functions:</p>
-                  <div className="input-wrapper">
-                      <input 
-                          ref={guessInputRef}
-                          type="number" 
-                          value={guess} 
-                          onChange={handleGuessChange} 
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter') {
-                              e.stopPropagation();
-                              submitGuess();
-                            }
-                          }} 
-                      />
-                      <span>°</span>
-                  </div>
-                  <button onClick={submitGuess} disabled={!guess}>Submit Guess</button>
+                  {isHotSeatGame && (
+                    <p className="hot-seat-turn">
+                      {playerRecords[pendingGuesses.length]?.name}'s turn ({pendingGuesses.length + 1} / {playerRecords.length})
+                    </p>
+                  )}
+                  {ruleSettings.isIntervalGuess ? (
+                    <p>Give a range you are {INTERVAL_COVERAGE * 100}% sure holds the angle between the {roundVectors ? 'vectors' : 'functions'}:</p>
+                  ) : (
+                    <p>Guess the angle between the {roundVectors ? 'vectors' : 'functions'}:</p>
+                  )}
+                  {ruleSettings.isIntervalGuess ? (
+                    <div className="input-wrapper">
+                      {([0, 1] as const).map(index => (
+                        <React.Fragment key={index}>
+                          {index === 1 && <span>to</span>}
+                          <input
+                            ref={index === 0 ? guessInputRef : undefined}
+                            type="number"
+                            min={0}
+                            max={maxGuess(ruleSettings)}
+                            aria-label={index === 0 ? 'From' : 'To'}
+                            value={guessRange[index]}
+                            onChange={handleRangeChange(index)}
+                            onKeyDown={handleGuessKeyDown}
+                          />
+                          <span>°</span>
+                        </React.Fragment>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="input-wrapper">
+                        <input 
+                            ref={guessInputRef}
+                            type="number" 
+                            min={0}
+                            max={maxGuess(ruleSettings)}
+                            value={guess} 
+                            onChange={handleGuessChange} 
+                            onKeyDown={handleGuessKeyDown} 
+                        />
+                        <span>°</span>
+                    </div>
+                  )}
+                  {isGuessRejected && <p className="guess-hint">Guesses range from 0° to {maxGuess(ruleSettings)}°.</p>}
+                  {ruleSettings.isIntervalGuess ? (
+                    <AngleDial
+                      value={null}
+                      range={parsePartialRange(guessRange)}
+                      max={maxGuess(ruleSettings)}
+                      settings={settings}
+                      onRangeChange={([low, high]) => {
+                        setIsGuessRejected(false);
+                        setGuessRange([String(low), String(high)]);
+                      }}
+                      onSubmit={submitGuess}
+                    />
+                  ) : (
+                    <AngleDial
+                      value={guess === '' ? null : Number(guess)}
+                      max={maxGuess(ruleSettings)}
+                      settings={settings}
+                      onChange={angle => {
+                        setIsGuessRejected(false);
+                        setGuess(String(angle));
+                      }}
+                      onSubmit={submitGuess}
+                    />
+                  )}
+                  <button onClick={submitGuess} disabled={ruleSettings.isIntervalGuess ? !parseGuessRange(...guessRange) : !guess}>Submit Guess</button>
                 </div>
               )}
               {gameState === 'results' && result && (
                 <div className="results">
                   <h2>Actual Angle: {result.actual_angle.toFixed(2)}°</h2>
-                  <h3>Round Score: {result.score.toFixed(0)} / 100</h3>
-                  <button onClick={() => startNewRound(false)}>Next Round</button>
+                  {isHotSeatGame ? (
+                    <HotSeatResults guesses={result.guesses} records={playerRecords} />
+                  ) : (
+                    <>
+                      <h3>Round Score: {(result.guesses[0].score - (result.guesses[0].timeBonus ?? 0)).toFixed(0)} / 100</h3>
+                      {result.guesses[0].guessRange && (
+                        <p className="round-range">
+                          Your range {result.guesses[0].guessRange[0]}°–{result.guesses[0].guessRange[1]}°{' '}
+                          {isInside(result.guesses[0].guessRange, result.actual_angle) ? 'contains' : 'misses'} the angle.
+                        </p>
+                      )}
+                      {result.guesses[0].timeBonus !== undefined && (
+                        <p className="round-bonus">Time bonus: +{result.guesses[0].timeBonus.toFixed(0)}, for {result.guesses[0].score.toFixed(0)} in total</p>
+                      )}
+                    </>
+                  )}
+                  <AngleDial
+                    value={isHotSeatGame ? null : result.guesses[0].guess}
+                    range={isHotSeatGame ? undefined : result.guesses[0].guessRange}
+                    otherGuesses={isHotSeatGame ? result.guesses.map(g => g.guess) : []}
+                    actual={result.actual_angle}
+                    max={maxGuess(ruleSettings)}
+                    settings={settings}
+                  />
+                  {roundVectors && <VectorArrows u={roundVectors.u} v={roundVectors.v} settings={settings} />}
+                  {!roundVectors && (
+                    <div className="overlay-toggle" role="group" aria-label="Plot overlay">
+                      <span>Shade:</span>
+                      {OVERLAY_OPTIONS.map(option => (
+                        <button key={option.id} className={overlay === option.id ? 'active' : ''} onClick={() => setOverlay(option.id)}>{option.label}</button>
+                      ))}
+                    </div>
+                  )}
+                  {roundData?.breakdown && (
+                    <AngleExplanation breakdown={roundData.breakdown} angle={result.actual_angle} innerProduct={ruleSettings.innerProduct} isVectorMode={!!roundVectors} />
+                  )}
+                  {isDailyComplete ? (
+                    <div className="daily-summary">
+                      <h3>Daily complete! Final Score: {totalScore.toFixed(0)} / {DAILY_ROUNDS * 100}</h3>
+                      {isDailyReplay ? (
+                        <p>Only your first attempt at today's challenge is recorded and shared.</p>
+                      ) : (
+                        <>
+                          <button onClick={shareDailyResult}>Share</button>
+                          {shareMessage && <p>{shareMessage}</p>}
+                        </>
+                      )}
+                    </div>
+                  ) : (
+                    <button onClick={advance}>{isGameOverPending ? 'See Summary' : 'Next Round'}</button>
+                  )}
                 </div>
               )}
             </>
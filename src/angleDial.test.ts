@@ -0,0 +1,44 @@
+import { clampDialAngle, dialAngle, dialPoint, wedgePath } from './angleDial';
+
+describe('dialAngle', () => {
+  test('measures counter-clockwise from the right, with y pointing down', () => {
+    expect(dialAngle(10, 0, 180)).toBe(0);
+    expect(dialAngle(0, -10, 180)).toBe(90);
+    expect(dialAngle(-10, -10, 180)).toBe(135);
+    expect(dialAngle(-10, 0, 180)).toBe(180);
+  });
+
+  test('snaps points below the baseline to its nearer end', () => {
+    expect(dialAngle(5, 20, 180)).toBe(0);
+    expect(dialAngle(-5, 20, 180)).toBe(180);
+  });
+
+  test('rounds to whole degrees and respects the acute limit', () => {
+    expect(dialAngle(Math.cos(0.5), -Math.sin(0.5), 180)).toBe(29);
+    expect(dialAngle(-10, -10, 90)).toBe(90);
+  });
+});
+
+describe('clampDialAngle', () => {
+  test('keeps keyboard steps within 0 and the limit', () => {
+    expect(clampDialAngle(-10, 180)).toBe(0);
+    expect(clampDialAngle(95, 90)).toBe(90);
+    expect(clampDialAngle(45, 90)).toBe(45);
+  });
+});
+
+describe('dialPoint', () => {
+  test('is the inverse of dialAngle', () => {
+    for (const angle of [0, 37, 90, 151, 180]) {
+      const { x, y } = dialPoint(angle, 50, 100, 100);
+      expect(dialAngle(x - 100, y - 100, 180)).toBe(angle);
+    }
+  });
+});
+
+describe('wedgePath', () => {
+  test('draws from the centre along the smaller angle first', () => {
+    expect(wedgePath(90, 0, 10, 0, 0)).toBe(wedgePath(0, 90, 10, 0, 0));
+    expect(wedgePath(0, 90, 10, 0, 0)).toMatch(/^M 0\.00 0\.00 L 10\.00 0\.00 A 10 10 0 0 0 0\.00 -10\.00 Z$/);
+  });
+});
@@ -0,0 +1,34 @@
+// --- Angle Dial ---
+// Geometry for the protractor-style guess input: a half disc with 0° pointing right and 180°
+// left. Screen coordinates have y pointing down, so the upper half is dy < 0.
+
+export const DIAL_STEP = 1;
+export const DIAL_COARSE_STEP = 10;
+
+// The angle (in whole degrees) of the ray from the dial's centre through a point `dx`, `dy` away.
+// Points below the baseline snap to whichever end of it is nearer.
+export function dialAngle(dx: number, dy: number, max: number): number {
+    // abs rather than -dy: atan2(-0, x) for negative x is -180°, not 180°.
+    const degrees = dy > 0 ? (dx >= 0 ? 0 : 180) : Math.atan2(Math.abs(dy), dx) * (180 / Math.PI);
+    return clampDialAngle(Math.round(degrees / DIAL_STEP) * DIAL_STEP, max);
+}
+
+export function clampDialAngle(angle: number, max: number): number {
+    return Math.min(max, Math.max(0, angle));
+}
+
+// Where the ray at `angle` meets a circle of `radius` around (cx, cy).
+export function dialPoint(angle: number, radius: number, cx: number, cy: number): { x: number, y: number } {
+    const theta = angle * (Math.PI / 180);
+    return { x: cx + radius * Math.cos(theta), y: cy - radius * Math.sin(theta) };
+}
+
+// SVG path for the wedge between two angles, used to shade the guess and the error.
+export function wedgePath(from: number, to: number, radius: number, cx: number, cy: number): string {
+    const [a, b] = from <= to ? [from, to] : [to, from];
+    const start = dialPoint(a, radius, cx, cy);
+    const end = dialPoint(b, radius, cx, cy);
+    const f = (n: number) => n.toFixed(2);
+    // Sweep flag 0: counter-clockwise on screen, i.e. towards larger angles.
+    return `M ${f(cx)} ${f(cy)} L ${f(start.x)} ${f(start.y)} A ${radius} ${radius} 0 0 0 ${f(end.x)} ${f(end.y)} Z`;
+}
@@ -0,0 +1,27 @@
+// --- Colour Presets ---
+// Pairs for the two curves that stay distinguishable under the common forms of colour blindness.
+// Most come from the Okabe–Ito palette.
+
+export type ColorPresetId = 'classic' | 'blueOrange' | 'blueVermillion' | 'purpleGreen' | 'vermillionSky';
+
+export interface ColorPreset {
+    id: ColorPresetId;
+    label: string;
+    func1Color: string;
+    func2Color: string;
+}
+
+export const COLOR_PRESETS: Record<ColorPresetId, ColorPreset> = {
+    classic: { id: 'classic', label: 'Classic red / blue', func1Color: '#dc3232', func2Color: '#3264dc' },
+    blueOrange: { id: 'blueOrange', label: 'Blue / orange (red-green safe)', func1Color: '#0072b2', func2Color: '#e69f00' },
+    blueVermillion: { id: 'blueVermillion', label: 'Blue / vermillion (red-green safe)', func1Color: '#0072b2', func2Color: '#d55e00' },
+    purpleGreen: { id: 'purpleGreen', label: 'Purple / green (blue-yellow safe)', func1Color: '#cc79a7', func2Color: '#009e73' },
+    vermillionSky: { id: 'vermillionSky', label: 'Vermillion / sky blue (red-green safe)', func1Color: '#d55e00', func2Color: '#56b4e9' },
+};
+
+// The preset the two colours came from, or null for custom colours.
+export function findColorPreset(func1Color: string, func2Color: string): ColorPresetId | null {
+    const match = Object.values(COLOR_PRESETS).find(preset =>
+        preset.func1Color === func1Color.toLowerCase() && preset.func2Color === func2Color.toLowerCase());
+    return match?.id ?? null;
+}
@@ -0,0 +1,81 @@
+import { evaluate, parse } from 'mathjs';
+import { addScaledFunction, compileFunction, differentiate, divideFunction, linspace, negateFunction, sampleFunction, scaleFunction } from './compiledFunction';
+
+const fn = (expression: string) => compileFunction(parse(expression));
+const xs = [-2, -0.5, 0.3, 1, 2.7];
+const expressions = ['x^2 - 3*x + 1', 'sin(x) * exp(-x^2)', 'cbrt(x) + cos(2*x)', 'abs(x) / (x^2 + 1)', 'tanh(x)^3'];
+
+// The compiled closure must agree with mathjs evaluating the expression it displays.
+const expectMatchesNode = (compiled: ReturnType<typeof fn>) => {
+  for (const x of xs) {
+    expect(compiled.evaluate(x)).toBeCloseTo(evaluate(compiled.node.toString(), { x }), 12);
+  }
+};
+
+describe('compileFunction', () => {
+  test('agrees with mathjs evaluate', () => {
+    for (const expression of expressions) {
+      const compiled = fn(expression);
+      for (const x of xs) expect(compiled.evaluate(x)).toBeCloseTo(evaluate(expression, { x }), 12);
+    }
+  });
+
+  test('returns NaN where the expression is not a real number', () => {
+    expect(fn('sqrt(x)').evaluate(-1)).toBeNaN(); // mathjs returns a Complex here.
+    expect(fn('log(x)').evaluate(-1)).toBeNaN();
+    expect(fn('undefinedFunction(x)').evaluate(1)).toBeNaN();
+  });
+
+  test('does not leak one evaluation into the next', () => {
+    const compiled = fn('x + 1');
+    expect(compiled.evaluate(2)).toBe(3);
+    expect(compiled.evaluate(-5)).toBe(-4);
+  });
+});
+
+describe('derived functions', () => {
+  test('scale, divide, negate and add match both the original and their own expression', () => {
+    const f = fn('sin(x) + x^2');
+    const g = fn('exp(x)');
+    const derived = [scaleFunction(f, 2.5), divideFunction(f, 4), negateFunction(f), addScaledFunction(f, g, 0.3), addScaledFunction(f, g, -0.3)];
+    const expected = [
+      (x: number) => 2.5 * f.evaluate(x),
+      (x: number) => f.evaluate(x) / 4,
+      (x: number) => -f.evaluate(x),
+      (x: number) => f.evaluate(x) + 0.3 * g.evaluate(x),
+      (x: number) => f.evaluate(x) - 0.3 * g.evaluate(x),
+    ];
+    derived.forEach((d, i) => {
+      for (const x of xs) expect(d.evaluate(x)).toBeCloseTo(expected[i](x), 12);
+      expectMatchesNode(d);
+    });
+  });
+
+  test('differentiate agrees with a central difference', () => {
+    for (const expression of expressions.filter(e => !e.includes('cbrt') && !e.includes('abs'))) {
+      const f = fn(expression);
+      const df = differentiate(f);
+      for (const x of xs) {
+        const h = 1e-6;
+        expect(df.evaluate(x)).toBeCloseTo((f.evaluate(x + h) - f.evaluate(x - h)) / (2 * h), 6);
+      }
+      expectMatchesNode(df);
+    }
+  });
+});
+
+describe('sampling', () => {
+  test('linspace includes both ends and spaces points evenly', () => {
+    expect(Array.from(linspace(-1, 1, 5))).toEqual([-1, -0.5, 0, 0.5, 1]);
+    const points = linspace(0, Math.PI, 101);
+    expect(points).toHaveLength(101);
+    expect(points[100]).toBe(Math.PI);
+  });
+
+  test('sampleFunction evaluates at every point', () => {
+    const points = linspace(-2, 2, 9);
+    const samples = sampleFunction(fn('x^3 - x'), points);
+    points.forEach((x, i) => expect(samples[i]).toBeCloseTo(evaluate('x^3 - x', { x }), 12));
+    expect(sampleFunction(fn('sqrt(x)'), linspace(-1, 1, 3))[0]).toBeNaN();
+  });
+});
@@ -0,0 +1,74 @@
+import { MathNode, parse, derivative } from 'mathjs';
+
+// --- Compiled Functions ---
+// Expressions are compiled once with mathjs and then evaluated as plain closures. Integration,
+// the rescaling heuristic and the plot sampler all share the same compiled function instead of
+// reparsing strings and walking the expression tree for every sample.
+
+export interface CompiledFunction {
+    // The expression, kept for display (TeX) and for serialisation.
+    node: MathNode;
+    // Returns NaN wherever the expression is undefined or not a real number.
+    evaluate: (x: number) => number;
+}
+
+export function compileFunction(node: MathNode): CompiledFunction {
+    const compiled = node.compile();
+    const scope = { x: 0 };
+    return {
+        node,
+        evaluate: (x: number) => {
+            scope.x = x;
+            try {
+                const y = compiled.evaluate(scope);
+                return typeof y === 'number' ? y : NaN;
+            } catch {
+                return NaN;
+            }
+        },
+    };
+}
+
+// Derived functions reuse the compiled closure of the original; only the node for display is rebuilt.
+function deriveFunction(fn: CompiledFunction, expression: string, evaluate: (x: number) => number): CompiledFunction {
+    return { node: parse(expression.replace('$f', fn.node.toString())), evaluate };
+}
+
+export function scaleFunction(fn: CompiledFunction, k: number): CompiledFunction {
+    return deriveFunction(fn, `($f) * ${k}`, x => fn.evaluate(x) * k);
+}
+
+export function divideFunction(fn: CompiledFunction, d: number): CompiledFunction {
+    return deriveFunction(fn, `($f) / ${d}`, x => fn.evaluate(x) / d);
+}
+
+export function negateFunction(fn: CompiledFunction): CompiledFunction {
+    return deriveFunction(fn, `-($f)`, x => -fn.evaluate(x));
+}
+
+// fn + t * other
+export function addScaledFunction(fn: CompiledFunction, other: CompiledFunction, t: number): CompiledFunction {
+    const expression = t < 0 ? `($f) - ${-t} * (${other.node.toString()})` : `($f) + ${t} * (${other.node.toString()})`;
+    return deriveFunction(fn, expression, x => fn.evaluate(x) + t * other.evaluate(x));
+}
+
+// d/dx of the function; throws if mathjs cannot differentiate the expression.
+export function differentiate(fn: CompiledFunction): CompiledFunction {
+    return compileFunction(derivative(fn.node, 'x', { simplify: false }));
+}
+
+export function linspace(a: number, b: number, n: number): Float64Array {
+    const xs = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+        xs[i] = a + (i / (n - 1)) * (b - a);
+    }
+    return xs;
+}
+
+export function sampleFunction(fn: CompiledFunction, xs: Float64Array): Float64Array {
+    const ys = new Float64Array(xs.length);
+    for (let i = 0; i < xs.length; i++) {
+        ys[i] = fn.evaluate(xs[i]);
+    }
+    return ys;
+}
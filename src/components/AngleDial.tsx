@@ -0,0 +1,190 @@
+import React, { useRef } from 'react';
+import { AppSettings } from '../App';
+import { DIAL_COARSE_STEP, DIAL_STEP, clampDialAngle, dialAngle, dialPoint, wedgePath } from '../angleDial';
+import './AngleDial.css';
+
+interface AngleDialProps {
+  // The current guess, or null before one is made.
+  value: number | null;
+  max: number;
+  settings: AppSettings;
+  // Without a handler the dial is read-only (as in the results view).
+  onChange?: (angle: number) => void;
+  // Called on Enter while the dial (or a range handle) has focus.
+  onSubmit?: () => void;
+  // The true angle, drawn over the guesses once revealed.
+  actual?: number;
+  // Further guesses to draw in the results view (other hot-seat players).
+  otherGuesses?: number[];
+  // Interval guessing: the stated range is drawn instead of `value`, and dragging moves the nearer
+  // bound. Each bound's handle can also be focused and moved with the arrow keys.
+  range?: [number, number] | null;
+  onRangeChange?: (range: [number, number]) => void;
+}
+
+const WIDTH = 260;
+const HEIGHT = 135;
+const CX = WIDTH / 2;
+const CY = 120;
+const RADIUS = 105;
+const TICK_STEP = 10;
+
+// A protractor with two rays at the guessed angle: drag the free ray (mouse or touch), or focus the
+// dial and use the arrow keys. Angles beyond `max` are greyed out.
+export const AngleDial: React.FC<AngleDialProps> = ({ value, max, settings, onChange, onSubmit, actual, otherGuesses = [], range, onRangeChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const isDraggingRef = useRef(false);
+  // While dragging a range, the bound that stays put.
+  const anchorRef = useRef(0);
+  const isRange = range !== undefined;
+  const isEditable = onChange !== undefined && !isRange;
+  const isRangeEditable = isRange && onRangeChange !== undefined;
+  const isDraggable = isEditable || isRangeEditable;
+
+  const angleAt = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = (e.clientX - rect.left) * (WIDTH / rect.width);
+    const y = (e.clientY - rect.top) * (HEIGHT / rect.height);
+    return dialAngle(x - CX, y - CY, max);
+  };
+
+  const drag = (angle: number) => {
+    if (isRange) {
+      onRangeChange?.(angle < anchorRef.current ? [angle, anchorRef.current] : [anchorRef.current, angle]);
+    } else {
+      onChange?.(angle);
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!isDraggable) return;
+    const angle = angleAt(e);
+    if (isRange) {
+      const [low, high] = range ?? [angle, angle];
+      anchorRef.current = Math.abs(angle - low) < Math.abs(angle - high) ? high : low;
+    }
+    isDraggingRef.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag(angle);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (isDraggingRef.current) drag(angleAt(e));
+  };
+
+  const handlePointerUp = () => {
+    isDraggingRef.current = false;
+  };
+
+  // The angle a key moves `current` to, or undefined for keys the dial leaves alone. Enter submits.
+  const keyAngle = (e: React.KeyboardEvent, current: number): number | undefined => {
+    if (e.key === 'Enter' && onSubmit) {
+      e.stopPropagation();
+      onSubmit();
+      return undefined;
+    }
+    const step = e.shiftKey ? DIAL_COARSE_STEP : DIAL_STEP;
+    const next = {
+      ArrowRight: current + step,
+      ArrowUp: current + step,
+      ArrowLeft: current - step,
+      ArrowDown: current - step,
+      Home: 0,
+      End: max,
+    }[e.key];
+    if (next === undefined) return undefined;
+    e.preventDefault();
+    return clampDialAngle(next, max);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!onChange) return;
+    const next = keyAngle(e, value ?? 0);
+    if (next !== undefined) onChange(next);
+  };
+
+  // A bound moved by keyboard stops at the other one rather than swapping places with it.
+  const handleBoundKeyDown = (index: 0 | 1, [low, high]: [number, number]) => (e: React.KeyboardEvent) => {
+    const next = keyAngle(e, index === 0 ? low : high);
+    if (next === undefined) return;
+    onRangeChange?.(index === 0 ? [Math.min(next, high), high] : [low, Math.max(next, low)]);
+  };
+
+  const ray = (angle: number, className: string, color?: string) => {
+    const tip = dialPoint(angle, RADIUS, CX, CY);
+    return <line className={className} x1={CX} y1={CY} x2={tip.x} y2={tip.y} stroke={color} />;
+  };
+
+  // Before a range is stated its handles wait at the ends of the dial, so the keyboard can reach them.
+  const boundHandles: [number, number] | null = isRangeEditable ? range ?? [0, max] : null;
+  const handles = value !== null && isEditable ? [value] : [];
+  const guessText = range ? `${range[0]}° to ${range[1]}°` : value !== null ? `${value.toFixed(0)}°` : 'none';
+  const actualText = actual !== undefined ? `${actual.toFixed(0)}°` : 'hidden';
+  const ticks = Array.from({ length: 180 / TICK_STEP + 1 }, (_, i) => i * TICK_STEP);
+  const label = (angle: number) => {
+    const { x, y } = dialPoint(angle, RADIUS + 10, CX, CY);
+    return <text key={angle} className="angle-dial-label" x={x} y={y} textAnchor="middle" dominantBaseline="middle">{angle}°</text>;
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      className={`angle-dial ${isDraggable ? 'editable' : ''}`}
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      role={isEditable ? 'slider' : isRangeEditable ? 'group' : 'img'}
+      aria-label={isDraggable ? 'Angle dial' : `Angle dial: guess ${guessText}, actual ${actualText}`}
+      aria-valuemin={isEditable ? 0 : undefined}
+      aria-valuemax={isEditable ? max : undefined}
+      aria-valuenow={isEditable && value !== null ? value : undefined}
+      aria-valuetext={isEditable && value !== null ? `${value}°` : undefined}
+      tabIndex={isEditable ? 0 : undefined}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onKeyDown={handleKeyDown}
+    >
+      <path className="angle-dial-face" d={wedgePath(0, 180, RADIUS, CX, CY)} />
+      {max < 180 && <path className="angle-dial-disabled" d={wedgePath(max, 180, RADIUS, CX, CY)} />}
+      {ticks.map(angle => {
+        const outer = dialPoint(angle, RADIUS, CX, CY);
+        const inner = dialPoint(angle, angle % 30 === 0 ? RADIUS - 10 : RADIUS - 5, CX, CY);
+        return <line key={angle} className="angle-dial-tick" x1={inner.x} y1={inner.y} x2={outer.x} y2={outer.y} />;
+      })}
+      {[0, 90, 180].map(label)}
+      {!isRange && value !== null && <path className="angle-dial-wedge" d={wedgePath(0, value, RADIUS * 0.3, CX, CY)} />}
+      {!isRange && actual !== undefined && value !== null && <path className="angle-dial-error" d={wedgePath(value, actual, RADIUS * 0.8, CX, CY)} />}
+      {range && <path className="angle-dial-range" d={wedgePath(range[0], range[1], RADIUS, CX, CY)} />}
+      {ray(0, 'angle-dial-ray', settings.func1Color)}
+      {otherGuesses.map((guess, i) => <React.Fragment key={i}>{ray(guess, 'angle-dial-ray other', settings.func2Color)}</React.Fragment>)}
+      {!isRange && value !== null && ray(value, 'angle-dial-ray', settings.func2Color)}
+      {range && range.map((bound, i) => <React.Fragment key={i}>{ray(bound, 'angle-dial-ray', settings.func2Color)}</React.Fragment>)}
+      {actual !== undefined && ray(actual, 'angle-dial-ray actual')}
+      {handles.map((angle, i) => {
+        const { x, y } = dialPoint(angle, RADIUS, CX, CY);
+        return <circle key={i} className="angle-dial-handle" cx={x} cy={y} r={7} fill={settings.func2Color} />;
+      })}
+      {boundHandles && boundHandles.map((angle, i) => {
+        const { x, y } = dialPoint(angle, RADIUS, CX, CY);
+        return (
+          <circle
+            key={i}
+            className="angle-dial-handle"
+            cx={x}
+            cy={y}
+            r={7}
+            fill={settings.func2Color}
+            role="slider"
+            aria-label={i === 0 ? 'Lower bound' : 'Upper bound'}
+            aria-valuemin={0}
+            aria-valuemax={max}
+            aria-valuenow={angle}
+            aria-valuetext={`${angle}°`}
+            tabIndex={0}
+            onKeyDown={handleBoundKeyDown(i === 0 ? 0 : 1, boundHandles)}
+          />
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { MathJax } from 'better-react-mathjax';
+import { RoundBreakdown } from '../roundEngine';
+import { InnerProductId, getInnerProduct } from '../innerProducts';
+import { DOT_PRODUCT_TEX } from '../vectors';
+import './AngleExplanation.css';
+
+interface AngleExplanationProps {
+  breakdown: RoundBreakdown;
+  angle: number;
+  innerProduct: InnerProductId;
+  isVectorMode: boolean;
+}
+
+// Four significant figures, with powers of ten written out instead of e-notation.
+export const texNumber = (x: number): string => {
+  const [mantissa, exponent] = x.toPrecision(4).split('e');
+  const trimmed = mantissa.includes('.') ? mantissa.replace(/\.?0+$/, '') : mantissa;
+  return exponent ? `${trimmed} \\times 10^{${Number(exponent)}}` : trimmed;
+};
+
+const Step: React.FC<{ tex: string; children?: React.ReactNode }> = ({ tex, children }) => (
+  <li>
+    {children && <span>{children} </span>}
+    <MathJax inline>{`$${tex}$`}</MathJax>
+  </li>
+);
+
+// Walks through how the angle was computed, from any rescaling of the plotted pair to the arccos.
+export const AngleExplanation: React.FC<AngleExplanationProps> = ({ breakdown, angle, innerProduct, isVectorMode }) => {
+  const [f, g] = isVectorMode ? ['u', 'v'] : ['f', 'g'];
+  const { rescale, normalisedFrom, flipped, normF1, normF2, cosTheta } = breakdown;
+  const g2 = flipped ? `-${g}` : g;
+  const ip = `\\langle ${f}, ${g2} \\rangle`;
+  const definition = isVectorMode ? DOT_PRODUCT_TEX : getInnerProduct(innerProduct).tex;
+
+  return (
+    <details className="angle-explanation">
+      <summary>How was this computed?</summary>
+      <ol>
+        {rescale && (
+          <Step tex={`${rescale.target === 'f1' ? f : g} \\mapsto ${rescale.factor}\\,${rescale.target === 'f1' ? f : g}`}>
+            One function dwarfed the other, so the smaller one was scaled up to be visible:
+          </Step>
+        )}
+        {normalisedFrom && (
+          <Step tex={`\\lVert ${f} \\rVert = ${texNumber(normalisedFrom[0])},\\ \\lVert ${g} \\rVert = ${texNumber(normalisedFrom[1])} \\ \\Rightarrow\\ ${f} \\mapsto \\frac{${f}}{\\lVert ${f} \\rVert},\\ ${g} \\mapsto \\frac{${g}}{\\lVert ${g} \\rVert}`}>
+            Unitary mode normalises both first:
+          </Step>
+        )}
+        <Step tex={definition}>Inner product:</Step>
+        {flipped ? (
+          <Step tex={`\\langle ${f}, ${g} \\rangle = ${texNumber(-breakdown.innerProduct)} < 0 \\ \\Rightarrow\\ ${g} \\mapsto -${g},\\ ${ip} = ${texNumber(breakdown.innerProduct)}`}>
+            Acute mode flips the sign when the inner product is negative:
+          </Step>
+        ) : (
+          <Step tex={`${ip} = ${texNumber(breakdown.innerProduct)}`} />
+        )}
+        <Step tex={`\\lVert ${f} \\rVert = \\sqrt{\\langle ${f}, ${f} \\rangle} = ${texNumber(normF1)},\\ \\lVert ${g} \\rVert = ${texNumber(normF2)}`} />
+        <Step tex={`\\cos\\theta = \\frac{${ip}}{\\lVert ${f} \\rVert \\lVert ${g} \\rVert} = \\frac{${texNumber(breakdown.innerProduct)}}{${texNumber(normF1)} \\cdot ${texNumber(normF2)}} = ${texNumber(cosTheta)}`} />
+        <Step tex={`\\theta = \\arccos(${texNumber(cosTheta)}) = ${angle.toFixed(2)}^\\circ`} />
+      </ol>
+    </details>
+  );
+};
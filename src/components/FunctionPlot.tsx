@@ -0,0 +1,256 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import { Chart, ChartData, ChartOptions, Plugin, Point, Scale, Tick, TooltipItem, ScriptableScaleContext, ScriptableContext } from 'chart.js';
+import { AppSettings } from '../App';
+import { PlotData } from '../roundEngine';
+import { OverlayId, OverlayIntegrals, Range, buildOverlay, panRange, zoomRange } from '../plotOverlays';
+import { InnerProductDefinition } from '../innerProducts';
+import { describePlot, sampleTable } from '../plotDescription';
+
+interface FunctionPlotProps {
+  plotData: PlotData | null;
+  settings: AppSettings;
+  // Crosshair readouts, and zooming (wheel) and panning (drag) along x. Double-click resets.
+  interactive?: boolean;
+  overlay?: OverlayId;
+  // The inner product the overlay shows, and the round's integrals for its legend.
+  innerProduct?: InnerProductDefinition;
+  integrals?: OverlayIntegrals;
+}
+
+// Vector components are drawn as stems: a segment from 0 to the entry, then a gap. The two vectors
+// are nudged apart so their stems don't overlap.
+const STEM_OFFSET = 0.12;
+const stems = (xs: number[], ys: (number | null)[], offset: number) =>
+  xs.flatMap((x, i) => [{ x: x + offset, y: 0 }, { x: x + offset, y: ys[i] ?? 0 }, null]);
+const stemTipRadius = (radius: number) => (context: ScriptableContext<'line'>) => (context.dataIndex % 3 === 1 ? radius : 0);
+
+// With line styles on, g is dashed and v's stems end in squares, so neither relies on colour alone.
+const DASH_PATTERN = [8, 5];
+
+const PRODUCT_COLOR = '#8e44ad';
+const OVERLAY_ALPHA = '40'; // Appended to the #rrggbb colours for the shaded area.
+const ZOOM_STEP = 1.2;
+
+// Draws a vertical line through the point the tooltip is showing.
+const crosshairPlugin: Plugin<'line'> = {
+  id: 'crosshair',
+  afterDatasetsDraw(chart: Chart<'line'>) {
+    const active = chart.tooltip?.getActiveElements() ?? [];
+    if (active.length === 0) return;
+    const { ctx, chartArea } = chart;
+    const x = active[0].element.x;
+    ctx.save();
+    ctx.beginPath();
+    ctx.moveTo(x, chartArea.top);
+    ctx.lineTo(x, chartArea.bottom);
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = 'rgba(128, 128, 128, 0.8)';
+    ctx.setLineDash([4, 4]);
+    ctx.stroke();
+    ctx.restore();
+  },
+};
+
+export const FunctionPlot: React.FC<FunctionPlotProps> = ({ plotData, settings, interactive = false, overlay = 'none', innerProduct, integrals }) => {
+  const isDiscrete = plotData?.isDiscrete ?? false;
+  const chartRef = useRef<Chart<'line'>>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pixel: number; range: Range } | null>(null);
+
+  // --- Zoom and Pan ---
+  const fullRange = useMemo((): Range => {
+    if (!plotData || plotData.x_values.length === 0) return [0, 1];
+    if (plotData.isDiscrete) return [0.5, plotData.x_values.length + 0.5];
+    return [plotData.x_values[0], plotData.x_values[plotData.x_values.length - 1]];
+  }, [plotData]);
+  const [xRange, setXRange] = useState<Range | null>(null);
+  const visibleRange = xRange ?? fullRange;
+
+  useEffect(() => setXRange(null), [plotData, interactive]);
+
+  // React's wheel handler is passive, so the page would scroll along with the zoom.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!interactive || !container) return;
+    const handleWheel = (e: WheelEvent) => {
+      const scale = chartRef.current?.scales.x;
+      if (!scale) return;
+      e.preventDefault();
+      const centre = scale.getValueForPixel(e.offsetX) ?? (scale.min + scale.max) / 2;
+      setXRange(range => zoomRange(range ?? fullRange, fullRange, centre, e.deltaY < 0 ? 1 / ZOOM_STEP : ZOOM_STEP));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [interactive, fullRange]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!interactive) return;
+    dragRef.current = { pixel: e.clientX, range: visibleRange };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const area = chartRef.current?.chartArea;
+    if (!drag || !area) return;
+    const perPixel = (drag.range[1] - drag.range[0]) / (area.right - area.left);
+    setXRange(panRange(drag.range, fullRange, (drag.pixel - e.clientX) * perPixel));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  // --- Chart.js Configuration ---
+  const overlayCurves = useMemo(() => (plotData ? buildOverlay(plotData, overlay, innerProduct, integrals) : []), [plotData, overlay, innerProduct, integrals]);
+
+  const chartData = useMemo((): ChartData<'line', (number | Point | null)[]> => {
+    if (!plotData) return { labels: [], datasets: [] };
+    if (plotData.isDiscrete) {
+      const pointRadius = stemTipRadius(settings.lineThickness + 1);
+      const vPointStyle = settings.isLineStyled ? 'rect' as const : 'circle' as const;
+      return {
+        datasets: [
+          { label: 'u', data: stems(plotData.x_values, plotData.y1_values, -STEM_OFFSET), borderColor: settings.func1Color, backgroundColor: settings.func1Color, borderWidth: settings.lineThickness, pointRadius, spanGaps: false },
+          { label: 'v', data: stems(plotData.x_values, plotData.y2_values, STEM_OFFSET), borderColor: settings.func2Color, backgroundColor: settings.func2Color, borderWidth: settings.lineThickness, pointRadius, pointStyle: vPointStyle, spanGaps: false },
+        ],
+      };
+    }
+    const overlayColor = { func1: settings.func1Color, func2: settings.func2Color, product: PRODUCT_COLOR };
+    return {
+      labels: plotData.x_values,
+      datasets: [
+        { label: 'f(x)', data: plotData.y1_values, borderColor: settings.func1Color, borderWidth: settings.lineThickness, pointRadius: 0, spanGaps: true },
+        { label: 'g(x)', data: plotData.y2_values, borderColor: settings.func2Color, borderWidth: settings.lineThickness, borderDash: settings.isLineStyled ? DASH_PATTERN : [], pointRadius: 0, spanGaps: true },
+        ...overlayCurves.map(curve => ({
+          label: `∫ ${curve.label} dx ≈ ${curve.area.toFixed(3)}`,
+          data: curve.values,
+          borderColor: overlayColor[curve.color],
+          backgroundColor: overlayColor[curve.color] + OVERLAY_ALPHA,
+          borderWidth: 1,
+          pointRadius: 0,
+          spanGaps: false,
+          fill: 'origin' as const,
+        })),
+      ],
+    };
+  }, [plotData, overlayCurves, settings.func1Color, settings.func2Color, settings.lineThickness, settings.isLineStyled]);
+
+  const hasOverlay = overlayCurves.length > 0;
+
+  // --- Text Alternative ---
+  // The canvas is announced as an image with a summary; its fallback content is a table of values.
+  const description = useMemo(() => (plotData ? describePlot(plotData) : 'No plot yet.'), [plotData]);
+  const fallbackContent = useMemo(() => {
+    if (!plotData) return null;
+    const [f, g] = isDiscrete ? ['u', 'v'] : ['f(x)', 'g(x)'];
+    const cell = (y: number | null) => (y === null ? 'undefined' : y.toFixed(3));
+    return (
+      <table>
+        <caption>Sampled values</caption>
+        <thead><tr><th scope="col">{isDiscrete ? 'i' : 'x'}</th><th scope="col">{f}</th><th scope="col">{g}</th></tr></thead>
+        <tbody>
+          {sampleTable(plotData).map(row => (
+            <tr key={row.x}><th scope="row">{Number(row.x.toFixed(3))}</th><td>{cell(row.y1)}</td><td>{cell(row.y2)}</td></tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  }, [plotData, isDiscrete]);
+
+  const chartOptions: ChartOptions<'line'> = useMemo(() => {
+    const gridColor = settings.isDarkMode ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.1)';
+    const zeroLineColor = settings.isDarkMode ? 'rgba(255, 255, 255, 0.4)' : 'rgba(0, 0, 0, 0.4)';
+    const fontColor = settings.isDarkMode ? '#e0e0e0' : '#333';
+    const [min, max] = visibleRange;
+
+    return {
+      responsive: true,
+      maintainAspectRatio: false,
+      animation: interactive ? false : undefined,
+      interaction: { mode: isDiscrete ? 'nearest' : 'index', intersect: false },
+      scales: {
+        x: isDiscrete ? {
+          type: 'linear',
+          min,
+          max,
+          title: { display: true, text: 'i', color: fontColor },
+          ticks: { color: fontColor, stepSize: 1, callback: (value: number | string) => (Number.isInteger(Number(value)) ? String(value) : null) },
+          grid: { color: gridColor },
+        } : {
+          type: 'linear',
+          min,
+          max,
+          title: { display: true, text: 'x', color: fontColor },
+          ticks: { color: fontColor, autoSkip: false, maxRotation: 0, minRotation: 0,
+            callback: function(this: Scale, value: number | string, index: number, ticks: Tick[]): string | null {
+              const isFirst = index === 0;
+              const isMiddle = index === Math.floor(ticks.length / 2);
+              const isLast = index === ticks.length - 1;
+              if (isFirst || isMiddle || isLast) return Number(this.getLabelForValue(Number(value))).toFixed(1);
+              return null;
+            }
+          },
+          grid: { color: gridColor },
+        },
+        y: {
+          type: 'linear',
+          title: { display: true, text: 'y', color: fontColor },
+          grid: {
+            lineWidth: (context: ScriptableScaleContext) => (context.tick.value === 0 ? 2 : 1),
+            color: (context: ScriptableScaleContext) => (context.tick.value === 0 ? zeroLineColor : gridColor),
+          },
+          ticks: { color: fontColor,
+            callback: function(value: string | number, index: number, ticks: Tick[]): string | null {
+              const isMin = index === 0;
+              const isMax = index === ticks.length - 1;
+              const isZero = Number(value) === 0;
+              if (isMin || isMax || isZero) return Number(value).toFixed(1);
+              return null;
+            }
+          }
+        },
+      },
+      plugins: {
+        // The legend only explains the overlay; the functions are identified by their colours.
+        legend: { display: hasOverlay, labels: { color: fontColor, filter: item => (item.datasetIndex ?? 0) >= 2 } },
+        tooltip: {
+          enabled: interactive,
+          // Only the functions themselves (and the tips of vector stems) get a readout.
+          filter: (item: TooltipItem<'line'>) => item.datasetIndex < 2 && (!isDiscrete || item.dataIndex % 3 === 1),
+          callbacks: {
+            title: (items: TooltipItem<'line'>[]) => (items.length > 0 ? `${isDiscrete ? 'i' : 'x'} = ${Number(items[0].parsed.x.toFixed(isDiscrete ? 0 : 3))}` : ''),
+            label: (item: TooltipItem<'line'>) => `${item.dataset.label} = ${item.parsed.y.toFixed(3)}`,
+            footer: (items: TooltipItem<'line'>[]) => {
+              if (isDiscrete || items.length < 2) return '';
+              return `f(x)·g(x) = ${(items[0].parsed.y * items[1].parsed.y).toFixed(3)}`;
+            },
+          },
+        },
+      },
+    };
+  }, [settings.isDarkMode, isDiscrete, visibleRange, interactive, hasOverlay]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={`function-plot ${interactive ? 'interactive' : ''}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => setXRange(null)}
+    >
+      <Line
+        ref={chartRef}
+        options={chartOptions}
+        data={chartData}
+        plugins={interactive ? [crosshairPlugin] : []}
+        role="img"
+        aria-label={description}
+        fallbackContent={fallbackContent}
+      />
+    </div>
+  );
+};
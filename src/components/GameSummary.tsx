@@ -0,0 +1,81 @@
+import React from 'react';
+import { GameModeDefinition, GameSummary as GameSummaryData } from '../gameModes';
+import { PlayerRecord, rankPlayers } from '../hotSeat';
+
+interface GameSummaryProps {
+  mode: GameModeDefinition;
+  // Null in hot-seat games, which show the final standings instead of a single player's summary.
+  summary: GameSummaryData | null;
+  streakTolerance: number;
+  players?: PlayerRecord[];
+  onPlayAgain: () => void;
+}
+
+export const GameSummary: React.FC<GameSummaryProps> = ({ mode, summary, streakTolerance, players, onPlayAgain }) => {
+  const headline = mode.timeLimitMs !== undefined
+    ? "Time's up!"
+    : mode.endsOnMiss
+      ? `Streak over: a guess was more than ${streakTolerance}° off`
+      : `${mode.label} complete!`;
+
+  return (
+    <div className="results game-summary">
+      <h2>{headline}</h2>
+      {players ? (
+        <div className="history-table-container hot-seat-results">
+          <table className="history-table">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Player</th>
+                <th>Score</th>
+                <th>Avg. Diff</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rankPlayers(players).map(({ record, rank }, i) => (
+                <tr key={i} className={rank === 1 ? 'hot-seat-best' : undefined}>
+                  <td>{rank}</td>
+                  <td>{record.name}</td>
+                  <td>{record.totalScore.toFixed(0)}</td>
+                  <td>{record.history.length > 0 ? `${(record.history.reduce((acc, round) => acc + round.diff, 0) / record.history.length).toFixed(2)}°` : '–'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : summary && (
+        <>
+          <h3>Final Score: {summary.totalScore.toFixed(0)}</h3>
+          <div className="game-summary-grid">
+            {summary.streak !== null && (
+              <div>
+                <h4>Streak</h4>
+                <p>{summary.streak}</p>
+              </div>
+            )}
+            <div>
+              <h4>Rounds</h4>
+              <p>{summary.rounds}</p>
+            </div>
+            <div>
+              <h4>Avg. Diff</h4>
+              <p>{summary.avgDiff !== null ? `${summary.avgDiff.toFixed(2)}°` : '–'}</p>
+            </div>
+            <div>
+              <h4>Best Guess</h4>
+              <p>{summary.bestDiff !== null ? `${summary.bestDiff.toFixed(2)}°` : '–'}</p>
+            </div>
+            {mode.hasTimeBonus && (
+              <div>
+                <h4>Time Bonus</h4>
+                <p>+{summary.totalTimeBonus.toFixed(0)}</p>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+      <button onClick={onPlayAgain}>Play Again</button>
+    </div>
+  );
+};
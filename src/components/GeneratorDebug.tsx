@@ -0,0 +1,100 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Bar } from 'react-chartjs-2';
+import { ChartOptions } from 'chart.js';
+import { AppSettings } from '../App';
+import { RoundPayload, RoundRules, maxGuess } from '../roundEngine';
+import { RoundRequest } from '../hooks/useRoundGenerator';
+import { angleHistogram } from '../historyAnalysis';
+import { getDifficultyLevel, targetProbability } from '../difficulty';
+import { randomSeed } from '../random';
+import { useModal } from '../hooks/useModal';
+import './Stats.css';
+
+interface GeneratorDebugProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: AppSettings;
+  rules: RoundRules;
+  sampleRound: (request: RoundRequest) => Promise<RoundPayload>;
+}
+
+const SAMPLE_BATCH = 50;
+const BIN_SIZE = 10;
+
+// Generates rounds with the current rules and compares their angles with the target distribution.
+export const GeneratorDebug: React.FC<GeneratorDebugProps> = ({ isOpen, onClose, settings, rules, sampleRound }) => {
+  const [angles, setAngles] = useState<number[]>([]);
+  const [isSampling, setIsSampling] = useState(false);
+  const cancelledRef = useRef(false);
+  const maxAngle = maxGuess(rules);
+
+  // Samples from other rules would not be comparable.
+  const rulesKey = JSON.stringify(rules);
+  useEffect(() => {
+    setAngles([]);
+  }, [rulesKey]);
+
+  useEffect(() => {
+    if (!isOpen) cancelledRef.current = true;
+  }, [isOpen]);
+
+  const sample = async () => {
+    cancelledRef.current = false;
+    setIsSampling(true);
+    for (let i = 0; i < SAMPLE_BATCH && !cancelledRef.current; i++) {
+      try {
+        const { round } = await sampleRound({ rules, history: [], seed: randomSeed() });
+        setAngles(prev => [...prev, round.angle]);
+      } catch (error) {
+        console.error("Failed to sample a round", error);
+        break;
+      }
+    }
+    setIsSampling(false);
+  };
+
+  const chartData = useMemo(() => {
+    const bins = angleHistogram(angles, maxAngle, BIN_SIZE);
+    const level = getDifficultyLevel(rules.difficulty);
+    // Vector rounds are not aimed, so there is no target to compare with.
+    const target = rules.isVectorMode ? [] : bins.map(b => targetProbability(level, maxAngle, b.from, b.to) * angles.length);
+    return {
+      labels: bins.map(b => `${b.from}°`),
+      datasets: [
+        { label: 'Generated', data: bins.map(b => b.count), backgroundColor: settings.func1Color },
+        { label: 'Target', data: target, backgroundColor: 'rgba(108, 117, 125, 0.6)' },
+      ],
+    };
+  }, [angles, maxAngle, rules.difficulty, rules.isVectorMode, settings.func1Color]);
+
+  const { dialogProps, titleProps } = useModal(isOpen, onClose);
+
+  if (!isOpen) return null;
+
+  const fontColor = settings.isDarkMode ? '#e0e0e0' : '#333';
+  const gridColor = settings.isDarkMode ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.1)';
+  const chartOptions: ChartOptions<'bar'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: { title: { display: true, text: 'Angle', color: fontColor }, ticks: { color: fontColor }, grid: { color: gridColor } },
+      y: { title: { display: true, text: 'Rounds', color: fontColor }, ticks: { color: fontColor, precision: 0 }, grid: { color: gridColor } },
+    },
+    plugins: { legend: { labels: { color: fontColor } } },
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="stats-modal-content" onClick={e => e.stopPropagation()} {...dialogProps}>
+        <h2 {...titleProps}>Generator Debug</h2>
+        <p style={{ textAlign: 'center' }}>{angles.length} rounds sampled with the current rules.</p>
+        <div className="stats-chart-canvas"><Bar data={chartData} options={chartOptions} /></div>
+        <div className="modal-actions">
+          <button onClick={sample} disabled={isSampling}>{isSampling ? 'Sampling…' : `Sample ${SAMPLE_BATCH} Rounds`}</button>
+          <button onClick={() => setAngles([])} disabled={isSampling}>Clear</button>
+          <button onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { PlayerGuess, PlayerRecord } from '../hotSeat';
+
+interface HotSeatResultsProps {
+  guesses: PlayerGuess[];
+  records: PlayerRecord[];
+}
+
+// Every player's guess for the round, with the running totals.
+export const HotSeatResults: React.FC<HotSeatResultsProps> = ({ guesses, records }) => {
+  const bestDiff = Math.min(...guesses.map(g => g.diff));
+
+  return (
+    <div className="history-table-container hot-seat-results">
+      <table className="history-table">
+        <thead>
+          <tr>
+            <th>Player</th>
+            <th>Guess</th>
+            <th>Off By</th>
+            <th>Score</th>
+            <th>Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {guesses.map(g => (
+            <tr key={g.player} className={g.diff === bestDiff ? 'hot-seat-best' : undefined}>
+              <td>{records[g.player]?.name}</td>
+              <td>{g.guessRange ? `${g.guessRange[0]}°–${g.guessRange[1]}°` : `${g.guess.toFixed(1)}°`}</td>
+              <td>{g.diff.toFixed(2)}°</td>
+              <td>{g.score.toFixed(0)}{g.timeBonus ? ` (+${g.timeBonus.toFixed(0)})` : ''}</td>
+              <td>{records[g.player]?.totalScore.toFixed(0)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -1,28 +1,46 @@
 import React from 'react';
 import { MathJax } from 'better-react-mathjax';
+import { InnerProductId, getInnerProduct, DEFAULT_INNER_PRODUCT } from '../innerProducts';
+import { DOT_PRODUCT_TEX } from '../vectors';
+import { useModal } from '../hooks/useModal';
 import './Info.css';
 
 interface InfoProps {
   isOpen: boolean;
   onClose: () => void;
+  innerProduct: InnerProductId;
+  isVectorMode: boolean;
 }
 
-export const Info: React.FC<InfoProps> = ({ isOpen, onClose }) => {
+export const Info: React.FC<InfoProps> = ({ isOpen, onClose, innerProduct, isVectorMode }) => {
+  const { dialogProps, titleProps } = useModal(isOpen, onClose);
   if (!isOpen) return null;
 
+  const definition = getInnerProduct(innerProduct);
+  const angleTex = definition.id === DEFAULT_INNER_PRODUCT && !isVectorMode
+    ? '\\theta = \\arccos\\left(\\frac{\\int_a^b f(x)g(x)\\mathrm dx}{\\sqrt{\\int_a^b f(x)^2 \\mathrm dx \\cdot \\int_a^b g(x)^2 \\mathrm dx}}\\right)'
+    : '\\theta = \\arccos\\left(\\frac{\\langle f, g \\rangle}{\\sqrt{\\langle f, f \\rangle \\cdot \\langle g, g \\rangle}}\\right)';
+
   return (
     <div className="modal-overlay" onClick={onClose}>
-      <div className="modal-content info-modal" onClick={e => e.stopPropagation()}>
-        <h2>... angle between functions?</h2>
+      <div className="modal-content info-modal" onClick={e => e.stopPropagation()} {...dialogProps}>
+        <h2 {...titleProps}>... angle between functions?</h2>
         <div className="info-text-block">
           <p>
             This game was made to prove the point that, although unfamiliar, the concept of inner products and
             angles between arbitrary elements in a Hilbert space can still make some geometric sense if you just train your 
-            intuition a bit! Here we are considering a certain space of functions under the integral product:
-            <MathJax>{`$$\\langle f, g \\rangle = \\int_a^b f(x) g(x) \\mathrm dx$$`}</MathJax>
+            intuition a bit! Here we are considering a certain space of functions under the {definition.label} inner product:
+            <MathJax>{`$$${definition.tex}$$`}</MathJax>
+            {isVectorMode && (
+              <>
+                In vector mode the functions are replaced by vectors in <MathJax inline>{'$\\mathbb R^n$'}</MathJax> and the
+                integral by its discrete cousin, the dot product:
+                <MathJax>{`$$${DOT_PRODUCT_TEX}$$`}</MathJax>
+              </>
+            )}
             If we are to believe the lies of analytic geometry, then <MathJax inline>{`$\\langle f, g \\rangle = \\lVert f \\rVert \\lVert g \\rVert \\cos(\\theta)$`}</MathJax>, this way, if we divide by the norms of each 
             function and take the inverse cosine, we can define an angle between them as follows:
-            <MathJax>{`$$\\theta = \\arccos\\left(\\frac{\\int_a^b f(x)g(x)\\mathrm dx}{\\sqrt{\\int_a^b f(x)^2 \\mathrm dx \\cdot \\int_a^b g(x)^2 \\mathrm dx}}\\right)$$`}</MathJax>
+            <MathJax>{`$$${angleTex}$$`}</MathJax>
             Your objective here is to eyeball that number, good luck!
           </p>
         </div>
@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { LeaderboardEntry, LeaderboardStore, MIN_AVERAGED_ROUNDS, rankingScore } from '../leaderboard';
+import { useModal } from '../hooks/useModal';
+import './Leaderboard.css';
+
+interface LeaderboardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  store: LeaderboardStore;
+  currentModeKey: string;
+  currentSessionId: string;
+  playerName: string;
+  onPlayerNameChange: (name: string) => void;
+}
+
+export const Leaderboard: React.FC<LeaderboardProps> = ({ isOpen, onClose, store, currentModeKey, currentSessionId, playerName, onPlayerNameChange }) => {
+  const [modes, setModes] = useState<Record<string, string>>({});
+  const [selectedMode, setSelectedMode] = useState(currentModeKey);
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+
+  // Open on the board for the rules currently being played.
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelectedMode(currentModeKey);
+    store.getModes()
+      .then(setModes)
+      .catch(error => console.error("Failed to load leaderboards", error));
+  }, [isOpen, store, currentModeKey]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    store.getTop(selectedMode)
+      .then(top => {
+        if (!cancelled) setEntries(top);
+      })
+      .catch(error => console.error("Failed to load leaderboard", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, store, selectedMode]);
+
+  const { dialogProps, titleProps } = useModal(isOpen, onClose);
+
+  if (!isOpen) return null;
+
+  const hasCurrentMode = currentModeKey in modes;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="stats-modal-content leaderboard-modal" onClick={e => e.stopPropagation()} {...dialogProps}>
+        <h2 {...titleProps}>Leaderboard</h2>
+        <label className="leaderboard-name">
+          Your name
+          <input type="text" maxLength={20} value={playerName} onChange={e => onPlayerNameChange(e.target.value)} />
+        </label>
+        <select className="session-select" value={selectedMode} onChange={e => setSelectedMode(e.target.value)}>
+          {!hasCurrentMode && <option value={currentModeKey}>Current rules (no scores yet)</option>}
+          {Object.entries(modes).map(([key, label]) => (
+            <option key={key} value={key}>{label}{key === currentModeKey ? ' (current)' : ''}</option>
+          ))}
+        </select>
+        {entries.length > 0 ? (
+          <div className="history-table-container">
+            <table className="history-table">
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Name</th>
+                  <th>Score</th>
+                  <th>Rounds</th>
+                  <th>Date</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry, index) => (
+                  <tr key={entry.id} className={entry.id === currentSessionId ? 'leaderboard-current' : undefined}>
+                    <td>{index + 1}</td>
+                    <td>{entry.name}</td>
+                    <td>{entry.isAveraged ? `${rankingScore(entry).toFixed(1)} / round` : entry.score.toFixed(0)}</td>
+                    <td>{entry.rounds}</td>
+                    <td>{new Date(entry.playedAt).toLocaleDateString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="leaderboard-empty">No scores yet. Finish a round to get on the board, or {MIN_AVERAGED_ROUNDS} rounds in endless and training!</p>
+        )}
+        <div className="modal-actions">
+          <button onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
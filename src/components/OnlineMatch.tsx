@@ -0,0 +1,281 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MathJax } from 'better-react-mathjax';
+import { AppSettings } from '../App';
+import { FunctionPlot } from './FunctionPlot';
+import { RoundPayload, RoundRules, acceptGuessInput, maxGuess } from '../roundEngine';
+import { RoundRequest } from '../hooks/useRoundGenerator';
+import { useMatch } from '../hooks/useMatch';
+import { useCountdown } from '../hooks/useCountdown';
+import { createHostMatch, createPeerMatch, HostMatch, Match } from '../multiplayer/match';
+import { acceptInvite, createInvite, HostSignalling, PeerSignalling } from '../multiplayer/signalling';
+import { useModal } from '../hooks/useModal';
+import './OnlineMatch.css';
+
+interface OnlineMatchProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: AppSettings;
+  rules: RoundRules;
+  rounds: number;
+  playerName: string;
+  generate: (request: RoundRequest) => Promise<RoundPayload>;
+}
+
+type Step =
+  | { kind: 'choose' }
+  | { kind: 'host'; signalling: HostSignalling | null }
+  | { kind: 'join'; signalling: PeerSignalling | null }
+  | { kind: 'match'; match: Match; isHost: boolean };
+
+const copy = (text: string) => navigator.clipboard?.writeText(text).catch(() => undefined);
+
+export const OnlineMatch: React.FC<OnlineMatchProps> = ({ isOpen, onClose, settings, rules, rounds, playerName, generate }) => {
+  const [step, setStep] = useState<Step>({ kind: 'choose' });
+  const [code, setCode] = useState('');
+  const [guess, setGuess] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const state = useMatch(step.kind === 'match' ? step.match : null);
+  const secondsToStart = useCountdown(state?.phase === 'countdown' ? state.startsAt : null);
+  const timeLeftMs = useCountdown(state?.phase === 'guessing' ? state.deadline : null);
+
+  // Whatever is open when the modal closes (or unmounts) is torn down with it. Closing also bumps
+  // the attempt, so a connection still being set up is closed as soon as it is ready.
+  const stepRef = useRef(step);
+  stepRef.current = step;
+  const attemptRef = useRef(0);
+  useEffect(() => () => {
+    attemptRef.current++;
+    leave(stepRef.current);
+  }, []);
+
+  useEffect(() => {
+    if (state?.phase === 'countdown') setGuess('');
+  }, [state?.phase, state?.roundNumber]);
+
+  const handleClose = () => {
+    attemptRef.current++;
+    leave(step);
+    setStep({ kind: 'choose' });
+    setCode('');
+    setError(null);
+    onClose();
+  };
+
+  const { dialogProps, titleProps } = useModal(isOpen, handleClose);
+
+  if (!isOpen) return null;
+
+  // `isCancelled` tells the action whether the modal was closed while it was awaiting something.
+  const run = async (action: (isCancelled: () => boolean) => Promise<void>) => {
+    const attempt = attemptRef.current;
+    const isCancelled = () => attemptRef.current !== attempt;
+    setError(null);
+    setIsBusy(true);
+    try {
+      await action(isCancelled);
+    } catch (err) {
+      if (!isCancelled()) setError(err instanceof Error ? err.message : String(err));
+    }
+    setIsBusy(false);
+  };
+
+  const host = () => run(async isCancelled => {
+    setStep({ kind: 'host', signalling: null });
+    const signalling = await createInvite();
+    if (isCancelled()) return signalling.close();
+    setStep({ kind: 'host', signalling });
+  });
+
+  const connectHost = (signalling: HostSignalling) => run(async isCancelled => {
+    const transport = await signalling.accept(code);
+    if (isCancelled()) return signalling.close();
+    setCode('');
+    setStep({ kind: 'match', isHost: true, match: createHostMatch(transport, { name: playerName, rules, rounds, scoring: settings.scoring, generate }) });
+  });
+
+  const join = () => run(async isCancelled => {
+    const signalling = await acceptInvite(code);
+    if (isCancelled()) return signalling.close();
+    setCode('');
+    setStep({ kind: 'join', signalling });
+    const transport = await signalling.connected;
+    if (isCancelled()) return signalling.close();
+    setStep({ kind: 'match', isHost: false, match: createPeerMatch(transport, playerName) });
+  });
+
+  const submitGuess = () => {
+    if (step.kind !== 'match' || guess === '') return;
+    step.match.submitGuess(parseFloat(guess));
+  };
+
+  const startRound = () => {
+    if (step.kind === 'match' && step.isHost) run(() => (step.match as HostMatch).startRound());
+  };
+
+  const renderMatch = () => {
+    if (!state || step.kind !== 'match') return null;
+    const { phase, players, reveal } = state;
+    const names = players.map(p => p.name).join(' vs ');
+
+    if (phase === 'connecting') return <p>Connecting…</p>;
+    if (phase === 'disconnected') return <p className="online-error">The other player left the match.</p>;
+    if (phase === 'lobby') {
+      return (
+        <>
+          <p>Connected: {names}</p>
+          <p className="online-hint">Guesses go from 0° to {maxGuess(state.rules)}°, by the host's rules.</p>
+          {step.isHost
+            ? <button onClick={startRound} disabled={isBusy}>Start Match ({state.rounds} rounds)</button>
+            : <p>Waiting for the host to start…</p>}
+        </>
+      );
+    }
+    if (phase === 'countdown') {
+      return <p className="online-countdown">{Math.ceil((secondsToStart ?? 0) / 1000) || 'Go!'}</p>;
+    }
+
+    return (
+      <>
+        <div className="online-status">
+          <span>Round {state.roundNumber} / {state.rounds}</span>
+          {players.map((p, i) => <span key={i}>{p.name}: {p.totalScore.toFixed(0)}</span>)}
+          {phase === 'guessing' && timeLeftMs !== null && <span>Time: {Math.ceil(timeLeftMs / 1000)}s</span>}
+        </div>
+        {reveal && (
+          <div className="formula-header">
+            <span style={{ color: settings.func1Color }}><MathJax inline>{`$${reveal.round.f1_str}$`}</MathJax></span>
+            <span style={{ color: settings.func2Color }}><MathJax inline>{`$${reveal.round.f2_str}$`}</MathJax></span>
+          </div>
+        )}
+        <div className="online-plot">
+          <FunctionPlot key={state.roundNumber} plotData={state.plot} settings={settings} />
+        </div>
+        {phase === 'guessing' && (
+          <div className="controls">
+            <div className="input-wrapper">
+              <input
+                type="number"
+                autoFocus
+                value={guess}
+                onChange={e => {
+                  const accepted = acceptGuessInput(e.target.value, state.rules);
+                  if (accepted !== null) setGuess(accepted);
+                }}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') submitGuess();
+                }}
+              />
+              <span>°</span>
+            </div>
+            <button onClick={submitGuess} disabled={!guess}>Submit Guess</button>
+          </div>
+        )}
+        {phase === 'waiting' && <p>Waiting for the other player…</p>}
+        {reveal && (
+          <>
+            <h3>Actual Angle: {reveal.angle.toFixed(2)}°</h3>
+            <div className="history-table-container">
+              <table className="history-table">
+                <thead>
+                  <tr>
+                    <th>Player</th>
+                    <th>Guess</th>
+                    <th>Off By</th>
+                    <th>Score</th>
+                    <th>Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reveal.guesses.map(g => (
+                    <tr key={g.player} className={g.player === state.seat ? 'leaderboard-current' : undefined}>
+                      <td>{players[g.player]?.name}</td>
+                      <td>{g.guess !== null ? `${g.guess.toFixed(1)}°` : 'Too slow'}</td>
+                      <td>{g.diff !== null ? `${g.diff.toFixed(2)}°` : '–'}</td>
+                      <td>{g.score.toFixed(0)}</td>
+                      <td>{players[g.player]?.totalScore.toFixed(0)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+        {phase === 'revealed' && (step.isHost
+          ? <button onClick={startRound} disabled={isBusy}>Next Round</button>
+          : <p>Waiting for the host to start the next round…</p>)}
+        {phase === 'finished' && <h3>{matchResult(players.map(p => p.totalScore), state.seat)}</h3>}
+      </>
+    );
+  };
+
+  return (
+    <div className="modal-overlay" onClick={handleClose}>
+      <div className="modal-content online-modal" onClick={e => e.stopPropagation()} {...dialogProps}>
+        <h2 {...titleProps}>Online Match</h2>
+        {step.kind === 'choose' && (
+          <>
+            <p>Play head-to-head with someone on another device. No server is involved: you exchange two codes (by chat, e-mail, …) to connect.</p>
+            <div className="online-choices">
+              <button onClick={host} disabled={isBusy}>Host a Match</button>
+              <button onClick={() => setStep({ kind: 'join', signalling: null })}>Join a Match</button>
+            </div>
+            <p className="online-hint">Matches use your current rules and the name "{playerName}" from the leaderboard.</p>
+          </>
+        )}
+        {step.kind === 'host' && (
+          step.signalling ? (
+            <>
+              <label>1. Send this invite code to the other player:</label>
+              <div className="online-code">
+                <textarea readOnly value={step.signalling.inviteCode} onFocus={e => e.target.select()} />
+                <button onClick={() => copy(step.signalling!.inviteCode)}>Copy</button>
+              </div>
+              <label>2. Paste their reply code here:</label>
+              <div className="online-code">
+                <textarea value={code} onChange={e => setCode(e.target.value)} spellCheck={false} />
+                <button onClick={() => connectHost(step.signalling!)} disabled={!code || isBusy}>Connect</button>
+              </div>
+            </>
+          ) : <p>Creating an invite…</p>
+        )}
+        {step.kind === 'join' && (
+          step.signalling ? (
+            <>
+              <label>Send this reply code back to the host:</label>
+              <div className="online-code">
+                <textarea readOnly value={step.signalling.replyCode} onFocus={e => e.target.select()} />
+                <button onClick={() => copy(step.signalling!.replyCode)}>Copy</button>
+              </div>
+              <p>Waiting for the host to connect…</p>
+            </>
+          ) : (
+            <>
+              <label>Paste the host's invite code here:</label>
+              <div className="online-code">
+                <textarea value={code} onChange={e => setCode(e.target.value)} spellCheck={false} />
+                <button onClick={join} disabled={!code || isBusy}>Join</button>
+              </div>
+            </>
+          )
+        )}
+        {step.kind === 'match' && renderMatch()}
+        {error && <p className="online-error">{error}</p>}
+        <div className="modal-actions">
+          <button onClick={handleClose}>{step.kind === 'match' && state?.phase !== 'finished' ? 'Leave Match' : 'Close'}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+function leave(step: Step) {
+  if (step.kind === 'match') step.match.close();
+  else if (step.kind !== 'choose') step.signalling?.close();
+}
+
+function matchResult(totals: number[], seat: number): string {
+  const best = Math.max(...totals);
+  if (totals.filter(total => total === best).length > 1) return "It's a draw!";
+  return totals[seat] === best ? 'You win!' : 'You lose!';
+}
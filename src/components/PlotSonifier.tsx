@@ -0,0 +1,59 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PlotData } from '../roundEngine';
+import { SONIFY_DURATION_MS, Voice, isSonificationSupported, playCurves } from '../sonification';
+
+interface PlotSonifierProps {
+  plotData: PlotData;
+}
+
+// Buttons that play the curves as sound, one at a time or together.
+export const PlotSonifier: React.FC<PlotSonifierProps> = ({ plotData }) => {
+  const [playing, setPlaying] = useState<string | null>(null);
+  const stopRef = useRef<(() => void) | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const stop = () => {
+    stopRef.current?.();
+    stopRef.current = null;
+    clearTimeout(timerRef.current);
+    setPlaying(null);
+  };
+
+  // A new round (or leaving the page) silences whatever is still playing.
+  useEffect(() => {
+    setPlaying(null);
+    return () => {
+      stopRef.current?.();
+      stopRef.current = null;
+      clearTimeout(timerRef.current);
+    };
+  }, [plotData]);
+
+  if (!isSonificationSupported()) return null;
+
+  const [f, g] = plotData.isDiscrete ? ['u', 'v'] : ['f', 'g'];
+  const options: { id: string; label: string; voices: Voice[] }[] = [
+    { id: 'f', label: `Play ${f}`, voices: ['f'] },
+    { id: 'g', label: `Play ${g}`, voices: ['g'] },
+    { id: 'both', label: 'Play both', voices: ['f', 'g'] },
+  ];
+
+  const play = (id: string, voices: Voice[]) => {
+    stop();
+    stopRef.current = playCurves(plotData, voices);
+    setPlaying(id);
+    timerRef.current = setTimeout(() => setPlaying(null), SONIFY_DURATION_MS);
+  };
+
+  return (
+    <div className="overlay-toggle plot-sonifier" role="group" aria-label="Listen to the plot">
+      <span>Listen:</span>
+      {options.map(option => (
+        <button key={option.id} className={playing === option.id ? 'active' : ''} aria-pressed={playing === option.id} onClick={() => play(option.id, option.voices)}>
+          🔊 {option.label}
+        </button>
+      ))}
+      <button onClick={stop} disabled={playing === null}>Stop</button>
+    </div>
+  );
+};
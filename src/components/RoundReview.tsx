@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import { MathJax } from 'better-react-mathjax';
+import { AppSettings } from '../App';
+import { RoundData } from './Stats';
+import { FunctionPlot } from './FunctionPlot';
+import { math } from '../gameLogic';
+import { compileFunction } from '../compiledFunction';
+import { samplePlot, vectorPlot } from '../roundEngine';
+import { parseVector, vectorToTex } from '../vectors';
+import { intervalScore } from '../intervalGuess';
+import { VectorArrows } from './VectorArrows';
+import { useModal } from '../hooks/useModal';
+import './RoundReview.css';
+
+interface RoundReviewProps {
+  round: RoundData | null;
+  roundNumber: number;
+  settings: AppSettings;
+  onClose: () => void;
+}
+
+export const RoundReview: React.FC<RoundReviewProps> = ({ round, roundNumber, settings, onClose }) => {
+  // Rebuild the plot (and TeX for rounds imported without it) from the stored expressions.
+  const replay = useMemo(() => {
+    if (!round?.f1_expr || !round.f2_expr || !round.interval) return null;
+    const u = parseVector(round.f1_expr);
+    const v = parseVector(round.f2_expr);
+    if (u && v) {
+      return { plotData: vectorPlot(u, v), f1_tex: round.f1_tex ?? vectorToTex('u', u), f2_tex: round.f2_tex ?? vectorToTex('v', v), vectors: { u, v } };
+    }
+    try {
+      const f1 = math.parse(round.f1_expr);
+      const f2 = math.parse(round.f2_expr);
+      return {
+        plotData: samplePlot(compileFunction(f1), compileFunction(f2), round.interval),
+        f1_tex: round.f1_tex ?? f1.toTex({ parenthesis: 'auto' }),
+        f2_tex: round.f2_tex ?? f2.toTex({ parenthesis: 'auto' }),
+        vectors: null,
+      };
+    } catch (error) {
+      console.error("Failed to rebuild round for review", error);
+      return null;
+    }
+  }, [round]);
+
+  const { dialogProps, titleProps } = useModal(round !== null, onClose);
+
+  if (!round) return null;
+
+  return (
+    <div className="modal-overlay" onClick={e => { e.stopPropagation(); onClose(); }}>
+      <div className="modal-content round-review-modal" onClick={e => e.stopPropagation()} {...dialogProps}>
+        <h2 {...titleProps}>Round {roundNumber}</h2>
+        {replay ? (
+          <>
+            <div className="round-review-formulas">
+              <span style={{ color: settings.func1Color }}><MathJax inline>{`$${replay.f1_tex}$`}</MathJax></span>
+              <span style={{ color: settings.func2Color }}><MathJax inline>{`$${replay.f2_tex}$`}</MathJax></span>
+              {!replay.vectors && <span className="round-review-interval"><MathJax inline>{`$x \\in [${round.interval![0]}, ${round.interval![1]}]$`}</MathJax></span>}
+            </div>
+            <div className="round-review-plot">
+              <FunctionPlot plotData={replay.plotData} settings={settings} />
+            </div>
+            {replay.vectors && <VectorArrows u={replay.vectors.u} v={replay.vectors.v} settings={settings} />}
+          </>
+        ) : (
+          <p className="round-review-missing">This round was recorded before plots were saved, so it cannot be redrawn.</p>
+        )}
+        <div className="round-review-angles">
+          {round.guessRange ? (
+            <div>
+              <h4>Your Range</h4>
+              <p>[{round.guessRange[0]}°, {round.guessRange[1]}°]</p>
+            </div>
+          ) : (
+            <div>
+              <h4>Your Guess</h4>
+              <p>{round.guess.toFixed(1)}°</p>
+            </div>
+          )}
+          <div>
+            <h4>Actual Angle</h4>
+            <p>{round.actual.toFixed(2)}°</p>
+          </div>
+          {round.guessRange && (
+            <div>
+              <h4 title="Width of the range, plus a penalty for missing the angle; lower is better">Interval Score</h4>
+              <p>{intervalScore(round.guessRange[0], round.guessRange[1], round.actual).toFixed(1)}°</p>
+            </div>
+          )}
+          <div>
+            <h4>Score</h4>
+            <p>{round.score.toFixed(0)}</p>
+          </div>
+        </div>
+        <div className="modal-actions">
+          <button onClick={onClose}>Back</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useMemo, useState } from 'react';
+import { MathJax } from 'better-react-mathjax';
+import { AppSettings } from '../App';
+import { FunctionPlot } from './FunctionPlot';
+import { calculateAngle } from '../gameLogic';
+import { compileFunction } from '../compiledFunction';
+import { samplePlot } from '../roundEngine';
+import { parseUserFunction, validateInterval } from '../sandbox';
+import { INNER_PRODUCTS, InnerProductId, getInnerProduct } from '../innerProducts';
+import { useModal } from '../hooks/useModal';
+import './Sandbox.css';
+
+interface SandboxProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: AppSettings;
+}
+
+export const Sandbox: React.FC<SandboxProps> = ({ isOpen, onClose, settings }) => {
+  const [f1Input, setF1Input] = useState('sin(x)');
+  const [f2Input, setF2Input] = useState('x');
+  const [startInput, setStartInput] = useState('-1');
+  const [endInput, setEndInput] = useState('1');
+  const [isUnitary, setIsUnitary] = useState(false);
+  const [ensureAcute, setEnsureAcute] = useState(false);
+  const [innerProduct, setInnerProduct] = useState<InnerProductId>(settings.innerProduct);
+
+  // Recomputed on every keystroke so the plot follows the input live.
+  const sandbox = useMemo(() => {
+    const f1 = parseUserFunction(f1Input);
+    const f2 = parseUserFunction(f2Input);
+    const interval: [number, number] = [parseFloat(startInput), parseFloat(endInput)];
+    const intervalError = validateInterval(interval[0], interval[1], getInnerProduct(innerProduct).domain);
+
+    const inputError = (f1.error && `f: ${f1.error}`) || (f2.error && `g: ${f2.error}`) || intervalError;
+    if (inputError || !f1.node || !f2.node) return { error: inputError, plotData: null, result: null };
+
+    const result = calculateAngle(compileFunction(f1.node), compileFunction(f2.node), isUnitary, interval, ensureAcute, innerProduct);
+    return {
+      error: result.angle === null ? `The angle is undefined on this interval: ${result.rejection ?? 'unknown error'}` : null,
+      plotData: samplePlot(result.f1_final, result.f2_final, interval),
+      result,
+    };
+  }, [f1Input, f2Input, startInput, endInput, isUnitary, ensureAcute, innerProduct]);
+
+  const { dialogProps, titleProps } = useModal(isOpen, onClose);
+
+  if (!isOpen) return null;
+
+  const { result } = sandbox;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content sandbox-modal" onClick={e => e.stopPropagation()} {...dialogProps}>
+        <h2 {...titleProps}>Sandbox</h2>
+        <div className="sandbox-inputs">
+          <label style={{ color: settings.func1Color }}>f(x) =</label>
+          <input type="text" value={f1Input} onChange={e => setF1Input(e.target.value)} spellCheck={false} />
+          <label style={{ color: settings.func2Color }}>g(x) =</label>
+          <input type="text" value={f2Input} onChange={e => setF2Input(e.target.value)} spellCheck={false} />
+          <label>[a, b] =</label>
+          <div className="interval-inputs">
+            <input type="number" value={startInput} onChange={e => setStartInput(e.target.value)} />
+            <input type="number" value={endInput} onChange={e => setEndInput(e.target.value)} />
+          </div>
+        </div>
+        <div className="sandbox-options">
+          <label><input type="checkbox" checked={isUnitary} onChange={e => setIsUnitary(e.target.checked)} /> Unitary</label>
+          <label><input type="checkbox" checked={ensureAcute} onChange={e => setEnsureAcute(e.target.checked)} /> Acute Only</label>
+          <select value={innerProduct} onChange={e => setInnerProduct(e.target.value as InnerProductId)}>
+            {Object.values(INNER_PRODUCTS).map(definition => (
+              <option key={definition.id} value={definition.id}>{definition.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="sandbox-plot">
+          <FunctionPlot plotData={sandbox.plotData} settings={settings} />
+        </div>
+        {sandbox.error ? (
+          <p className="sandbox-error" role="alert">{sandbox.error}</p>
+        ) : result && (
+          <div className="sandbox-results">
+            <div><MathJax inline>{'$\\langle f, g \\rangle$'}</MathJax><p>{result.breakdown!.innerProduct.toFixed(4)}</p></div>
+            <div><MathJax inline>{'$\\lVert f \\rVert$'}</MathJax><p>{result.breakdown!.normF1.toFixed(4)}</p></div>
+            <div><MathJax inline>{'$\\lVert g \\rVert$'}</MathJax><p>{result.breakdown!.normF2.toFixed(4)}</p></div>
+            <div><MathJax inline>{'$\\theta$'}</MathJax><p>{result.angle!.toFixed(2)}°</p></div>
+          </div>
+        )}
+        <div className="modal-actions">
+          <button onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
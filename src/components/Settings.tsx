@@ -3,15 +3,26 @@ import React, { useState, useEffect } from 'react';
 import { MathJaxContext, MathJax } from 'better-react-mathjax';
 import './Settings.css';
 import { AppSettings } from '../App';
+import { INNER_PRODUCTS, getInnerProduct } from '../innerProducts';
+import { DOT_PRODUCT_TEX, MIN_DIMENSION, MAX_DIMENSION } from '../vectors';
+import { DIFFICULTY_LEVELS, DifficultyLevelId, getDifficultyLevel, AUTO_UNLOCK_WINDOW } from '../difficulty';
+import { GAME_MODES, getGameMode, MIN_STREAK_TOLERANCE, MAX_STREAK_TOLERANCE } from '../gameModes';
+import { MAX_PLAYERS, defaultPlayerName, resizePlayers } from '../hotSeat';
+import { INTERVAL_COVERAGE } from '../intervalGuess';
+import { SCORING_STRATEGIES, getScoringStrategy } from '../scoring';
+import { COLOR_PRESETS, ColorPresetId, findColorPreset } from '../colorPresets';
+import { useModal } from '../hooks/useModal';
 
 interface SettingsProps {
   isOpen: boolean;
   onClose: () => void;
   settings: AppSettings;
   onSettingsChange: (newSettings: AppSettings) => void;
+  // The level auto difficulty currently resolves to.
+  autoLevel: DifficultyLevelId;
 }
 
-export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, settings, onSettingsChange }) => {
+export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, settings, onSettingsChange, autoLevel }) => {
   // Use local state to handle form changes without affecting the main app state on every keystroke.
   const [localSettings, setLocalSettings] = useState<AppSettings>(settings);
 
@@ -22,12 +33,21 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, settings, o
     }
   }, [isOpen, settings]);
 
+  const handleClose = () => {
+    // On close, always commit the final local state to ensure backend-related changes are applied.
+    onSettingsChange(localSettings);
+    onClose();
+  }
+
+  const { dialogProps, titleProps } = useModal(isOpen, handleClose);
+
   if (!isOpen) {
     return null;
   }
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value, type, checked } = e.target;
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    const checked = e.target instanceof HTMLInputElement && e.target.checked;
 
     const newSettings = {
         ...localSettings,
@@ -38,31 +58,114 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, settings, o
     setLocalSettings(newSettings);
 
     // For instant visual feedback, update cosmetic settings in the parent immediately.
-    const cosmeticChanges = ['isDarkMode', 'lineThickness', 'func1Color', 'func2Color'];
+    const cosmeticChanges = ['isDarkMode', 'lineThickness', 'func1Color', 'func2Color', 'isLineStyled', 'isSonified'];
     if (cosmeticChanges.includes(name)) {
         onSettingsChange(newSettings);
     }
   };
 
-  const handleClose = () => {
-    // On close, always commit the final local state to ensure backend-related changes are applied.
-    onSettingsChange(localSettings);
-    onClose();
-  }
+  const handlePresetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const preset = COLOR_PRESETS[e.target.value as ColorPresetId];
+    if (!preset) return;
+    const newSettings = { ...localSettings, func1Color: preset.func1Color, func2Color: preset.func2Color };
+    setLocalSettings(newSettings);
+    onSettingsChange(newSettings);
+  };
+
+  // A single player is solo play, stored as an empty player list.
+  const handlePlayerCountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const count = parseInt(e.target.value, 10);
+    if (isNaN(count)) return;
+    setLocalSettings({ ...localSettings, players: count > 1 ? resizePlayers(localSettings.players, count) : [] });
+  };
+
+  const handlePlayerNameChange = (index: number, name: string) => {
+    setLocalSettings({ ...localSettings, players: localSettings.players.map((player, i) => (i === index ? name : player)) });
+  };
 
   return (
     <div className="modal-overlay" onClick={handleClose}>
-      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
-        <h2>Settings</h2>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()} {...dialogProps}>
+        <h2 {...titleProps}>Settings</h2>
         <div className="settings-grid">
 
+          <h3 className="settings-header">Game</h3>
+
+          {/* Game Mode */}
+          <label htmlFor="settings-gameMode">Mode</label>
+          <select id="settings-gameMode" name="gameMode" value={localSettings.gameMode} onChange={handleInputChange}>
+            {Object.values(GAME_MODES).map(mode => (
+              <option key={mode.id} value={mode.id}>{mode.label}</option>
+            ))}
+          </select>
+          <div className="settings-explainer">{getGameMode(localSettings.gameMode).description}</div>
+
+          {/* Streak Tolerance */}
+          <label htmlFor="settings-streakTolerance">Streak Tolerance</label>
+          <input id="settings-streakTolerance" type="number" name="streakTolerance" min={MIN_STREAK_TOLERANCE} max={MAX_STREAK_TOLERANCE} value={localSettings.streakTolerance} onChange={handleInputChange} disabled={!getGameMode(localSettings.gameMode).endsOnMiss} />
+          <div className="settings-explainer">
+            <MathJax inline>{`$|\\theta_{\\text{guess}} - \\theta| \\le ${localSettings.streakTolerance}^\\circ$`}</MathJax>
+          </div>
+
+          {/* Scoring */}
+          <label htmlFor="settings-scoring">Scoring</label>
+          <select id="settings-scoring" name="scoring" value={localSettings.scoring} onChange={handleInputChange} disabled={localSettings.isIntervalGuess}>
+            {Object.values(SCORING_STRATEGIES).map(strategy => (
+              <option key={strategy.id} value={strategy.id}>{strategy.label}</option>
+            ))}
+          </select>
+          <div className="settings-explainer">
+            <MathJax inline>{`$${getScoringStrategy(localSettings.scoring).tex}$`}</MathJax>
+          </div>
+
+          {/* Interval Guessing */}
+          <label htmlFor="settings-isIntervalGuess">Interval Guessing</label>
+          <div className="toggle-container">
+            <label className="toggle-switch">
+              <input id="settings-isIntervalGuess" type="checkbox" name="isIntervalGuess" checked={localSettings.isIntervalGuess} onChange={handleInputChange} />
+              <span className="slider"></span>
+            </label>
+          </div>
+          <div className="settings-explainer">
+            Guess a range you are {INTERVAL_COVERAGE * 100}% sure of:{' '}
+            <MathJax inline>{`$(h - l) + \\frac{2}{\\alpha}\\,\\mathrm{dist}(\\theta, [l, h])$`}</MathJax>
+          </div>
+
+          {/* Hot-Seat Players */}
+          <label htmlFor="settings-players">Players</label>
+          <input id="settings-players" type="number" min={1} max={MAX_PLAYERS} value={Math.max(1, localSettings.players.length)} onChange={handlePlayerCountChange} />
+          <div className="settings-explainer">
+            {localSettings.players.length > 1 ? 'Hot-seat: take turns guessing the same round.' : 'Solo play.'}
+          </div>
+          {localSettings.players.length > 1 && (
+            <div className="player-names">
+              {localSettings.players.map((name, i) => (
+                <input key={i} type="text" maxLength={20} value={name} placeholder={defaultPlayerName(i)} onChange={e => handlePlayerNameChange(i, e.target.value)} />
+              ))}
+            </div>
+          )}
+
           <h3 className="settings-header">For Noobs</h3>
 
+          {/* Difficulty */}
+          <label htmlFor="settings-difficulty">Difficulty</label>
+          <select id="settings-difficulty" name="difficulty" value={localSettings.difficulty} onChange={handleInputChange}>
+            <option value="auto">Auto ({getDifficultyLevel(autoLevel).label})</option>
+            {DIFFICULTY_LEVELS.map(level => (
+              <option key={level.id} value={level.id}>{level.label}</option>
+            ))}
+          </select>
+          <div className="settings-explainer">
+            {localSettings.difficulty === 'auto'
+              ? `Levels unlock as your average error over ${AUTO_UNLOCK_WINDOW} rounds drops.`
+              : `Up to ${getDifficultyLevel(localSettings.difficulty).maxCombined} functions combined.`}
+          </div>
+
           {/* Unitary Mode */}
-          <label>Unitary Mode</label>
+          <label htmlFor="settings-isUnitaryMode">Unitary Mode</label>
           <div className="toggle-container">
             <label className="toggle-switch">
-              <input type="checkbox" name="isUnitaryMode" checked={localSettings.isUnitaryMode} onChange={handleInputChange} />
+              <input id="settings-isUnitaryMode" type="checkbox" name="isUnitaryMode" checked={localSettings.isUnitaryMode} onChange={handleInputChange} />
               <span className="slider"></span>
             </label>
           </div>
@@ -71,10 +174,10 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, settings, o
           </div>
 
           {/* Acute Angles Only */}
-          <label>Acute Angles Only</label>
+          <label htmlFor="settings-acuteAnglesOnly">Acute Angles Only</label>
           <div className="toggle-container">
             <label className="toggle-switch">
-              <input type="checkbox" name="acuteAnglesOnly" checked={localSettings.acuteAnglesOnly} onChange={handleInputChange} />
+              <input id="settings-acuteAnglesOnly" type="checkbox" name="acuteAnglesOnly" checked={localSettings.acuteAnglesOnly} onChange={handleInputChange} />
               <span className="slider"></span>
             </label>
           </div>
@@ -83,10 +186,10 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, settings, o
           </div>
 
           {/* Easy Interval Toggle */}
-          <label>Easy Interval</label>
+          <label htmlFor="settings-isEasyInterval">Easy Interval</label>
           <div className="toggle-container">
             <label className="toggle-switch">
-              <input type="checkbox" name="isEasyInterval" checked={localSettings.isEasyInterval} onChange={handleInputChange} />
+              <input id="settings-isEasyInterval" type="checkbox" name="isEasyInterval" checked={localSettings.isEasyInterval} onChange={handleInputChange} />
               <span className="slider"></span>
             </label>
           </div>
@@ -94,30 +197,110 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, settings, o
             <MathJax inline>{`$I = [-1, 1]$`}</MathJax>
           </div>
 
+          {/* Plot Aids */}
+          <label htmlFor="settings-isPlotInteractive">Plot Aids</label>
+          <div className="toggle-container">
+            <label className="toggle-switch">
+              <input id="settings-isPlotInteractive" type="checkbox" name="isPlotInteractive" checked={localSettings.isPlotInteractive} onChange={handleInputChange} />
+              <span className="slider"></span>
+            </label>
+          </div>
+          <div className="settings-explainer">
+            Hover for <MathJax inline>{'$f(x)$, $g(x)$, $f(x)g(x)$'}</MathJax>; scroll to zoom, drag to pan.
+          </div>
+
+          <h3 className="settings-header">Geometry</h3>
+
+          {/* Inner Product */}
+          <label htmlFor="settings-innerProduct">Inner Product</label>
+          <select id="settings-innerProduct" name="innerProduct" value={localSettings.innerProduct} onChange={handleInputChange} disabled={localSettings.isVectorMode}>
+            {Object.values(INNER_PRODUCTS).map(definition => (
+              <option key={definition.id} value={definition.id}>{definition.label}</option>
+            ))}
+          </select>
+          <div className="settings-explainer">
+            <MathJax inline>{`$${getInnerProduct(localSettings.innerProduct).tex}$`}</MathJax>
+          </div>
+
+          {/* Vector Mode */}
+          <label htmlFor="settings-isVectorMode">Vector Mode</label>
+          <div className="toggle-container">
+            <label className="toggle-switch">
+              <input id="settings-isVectorMode" type="checkbox" name="isVectorMode" checked={localSettings.isVectorMode} onChange={handleInputChange} />
+              <span className="slider"></span>
+            </label>
+          </div>
+          <div className="settings-explainer">
+            <MathJax inline>{`$${DOT_PRODUCT_TEX}$`}</MathJax>
+          </div>
+
+          {/* Vector Dimension */}
+          <label htmlFor="settings-vectorDimension">Dimension</label>
+          <input id="settings-vectorDimension" type="number" name="vectorDimension" min={MIN_DIMENSION} max={MAX_DIMENSION} value={localSettings.vectorDimension} onChange={handleInputChange} disabled={!localSettings.isVectorMode} />
+          <div className="settings-explainer">
+            <MathJax inline>{`$u, v \\in \\mathbb R^{${localSettings.vectorDimension}}$`}</MathJax>
+          </div>
+
           <h3 className="settings-header">Style</h3>
 
           {/* Dark Mode */}
-          <label>Dark Mode</label>
+          <label htmlFor="settings-isDarkMode">Dark Mode</label>
           <div className="toggle-container">
             <label className="toggle-switch">
-              <input type="checkbox" name="isDarkMode" checked={localSettings.isDarkMode} onChange={handleInputChange} />
+              <input id="settings-isDarkMode" type="checkbox" name="isDarkMode" checked={localSettings.isDarkMode} onChange={handleInputChange} />
               <span className="slider"></span>
             </label>
           </div>
           <div></div>{/* Placeholder */}
 
           {/* Line Thickness Slider */}
-          <label>Line Thickness</label>
-          <input type="number" name="lineThickness" min="1" max="10" value={localSettings.lineThickness} onChange={handleInputChange} />
+          <label htmlFor="settings-lineThickness">Line Thickness</label>
+          <input id="settings-lineThickness" type="number" name="lineThickness" min="1" max="10" value={localSettings.lineThickness} onChange={handleInputChange} />
           <div></div>{/* Placeholder */}
 
           {/* Colors */}
           <label>Function Colors</label>
           <div className="color-inputs-container">
-            <input type="color" name="func1Color" value={localSettings.func1Color} onChange={handleInputChange} />
-            <input type="color" name="func2Color" value={localSettings.func2Color} onChange={handleInputChange} />
+            <input type="color" name="func1Color" aria-label="Color of f" value={localSettings.func1Color} onChange={handleInputChange} />
+            <input type="color" name="func2Color" aria-label="Color of g" value={localSettings.func2Color} onChange={handleInputChange} />
           </div>
           <div></div>{/* Placeholder */}
+
+          <h3 className="settings-header">Accessibility</h3>
+
+          {/* Color Presets */}
+          <label htmlFor="settings-colorPreset">Color Preset</label>
+          <select id="settings-colorPreset" value={findColorPreset(localSettings.func1Color, localSettings.func2Color) ?? 'custom'} onChange={handlePresetChange}>
+            {Object.values(COLOR_PRESETS).map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.label}</option>
+            ))}
+            <option value="custom" disabled>Custom</option>
+          </select>
+          <div className="settings-explainer">Color pairs that stay apart under color blindness.</div>
+
+          {/* Line Styles */}
+          <label htmlFor="settings-isLineStyled">Line Styles</label>
+          <div className="toggle-container">
+            <label className="toggle-switch">
+              <input id="settings-isLineStyled" type="checkbox" name="isLineStyled" checked={localSettings.isLineStyled} onChange={handleInputChange} />
+              <span className="slider"></span>
+            </label>
+          </div>
+          <div className="settings-explainer">
+            Draw <MathJax inline>{'$g$'}</MathJax> dashed and <MathJax inline>{'$v$'}</MathJax> with square markers.
+          </div>
+
+          {/* Sonification */}
+          <label htmlFor="settings-isSonified">Sonification</label>
+          <div className="toggle-container">
+            <label className="toggle-switch">
+              <input id="settings-isSonified" type="checkbox" name="isSonified" checked={localSettings.isSonified} onChange={handleInputChange} />
+              <span className="slider"></span>
+            </label>
+          </div>
+          <div className="settings-explainer">
+            Play each curve as pitch over <MathJax inline>{'$x$'}</MathJax>: <MathJax inline>{'$f$'}</MathJax> on the left, <MathJax inline>{'$g$'}</MathJax> on the right.
+          </div>
         </div>
         <div className="modal-actions">
           <button onClick={handleClose}>Close</button>
@@ -1,5 +1,16 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { AppSettings } from '../App';
+import { DifficultyLevelId } from '../difficulty';
+import { GameSession } from '../sessionStore';
+import { computeLifetimeStats, sessionAverageScore, MIN_ROUNDS_FOR_RECORD } from '../lifetimeStats';
+import { describeMode } from '../modes';
+import { INTERVAL_COVERAGE, computeCalibration } from '../intervalGuess';
+import { ScoringStrategyId, describeRoundScoring } from '../scoring';
+import { BASELINE_ROUNDS, FUNCTION_FAMILIES, RECALL_ERROR, TrainingCell, buildTrainingModel, trainingRounds } from '../training';
+import { exportHistoryJson, exportHistoryCsv, parseHistoryFile } from '../historyExport';
+import { StatsCharts } from './StatsCharts';
+import { RoundReview } from './RoundReview';
+import { useModal } from '../hooks/useModal';
 import './Stats.css';
 
 export interface RoundData {
@@ -8,16 +19,79 @@ export interface RoundData {
   diff: number;
   score: number;
   isEasy: boolean;
+  seed: number;
+  // Missing on rounds recorded before expressions were stored.
+  f1_expr?: string;
+  f2_expr?: string;
+  f1_tex?: string;
+  f2_tex?: string;
+  interval?: [number, number];
+  // Difficulty level the functions were generated at; missing for vector rounds.
+  level?: DifficultyLevelId;
+  // Part of `score` earned by guessing quickly in timed modes.
+  timeBonus?: number;
+  // The stated range in interval guessing, whose midpoint is recorded as `guess`.
+  guessRange?: [number, number];
+  // How a point guess was scored; missing on interval guesses and on rounds from before
+  // strategies existed, which were scored with the cubic curve.
+  scoring?: ScoringStrategyId;
 }
 
 interface StatsProps {
   isOpen: boolean;
   onClose: () => void;
   history: RoundData[];
+  sessions: GameSession[];
+  currentSessionId: string;
+  // Mode of the current session; the best session is picked among sessions of this mode.
+  currentModeKey: string;
   settings: AppSettings;
+  onImportSessions: (sessions: GameSession[]) => Promise<void>;
 }
 
-export const Stats: React.FC<StatsProps> = ({ isOpen, onClose, history }) => {
+type StatsView = 'session' | 'charts' | 'lifetime';
+
+const CURRENT_SESSION = 'current';
+
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Strong cells are recalled, weak ones are where training mode spends most rounds.
+const trainingCellClass = ({ error }: TrainingCell) =>
+  error === null ? undefined : error <= RECALL_ERROR ? 'training-strong' : error > 2 * RECALL_ERROR ? 'training-weak' : undefined;
+
+const describeTrainingCell = ({ rounds, error, baselineError }: TrainingCell) => {
+  if (error === null) return '–';
+  return rounds > BASELINE_ROUNDS && baselineError !== null ? `${baselineError.toFixed(0)}° → ${error.toFixed(0)}°` : `${error.toFixed(0)}°`;
+};
+
+const describeSession = (session: GameSession) =>
+  `${new Date(session.startedAt).toLocaleString()} · ${session.player ? `${session.player} · ` : ''}${describeMode(session.settings, session.dailyKey)} · ${session.rounds.length} rounds`;
+
+export const Stats: React.FC<StatsProps> = ({ isOpen, onClose, history: currentHistory, sessions, currentSessionId, currentModeKey, settings, onImportSessions }) => {
+  const [view, setView] = useState<StatsView>('session');
+  const [transferMessage, setTransferMessage] = useState<string | null>(null);
+  const [reviewIndex, setReviewIndex] = useState<number | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [selectedSessionId, setSelectedSessionId] = useState<string>(CURRENT_SESSION);
+
+  const pastSessions = useMemo(
+    () => sessions.filter(s => s.id !== currentSessionId && s.rounds.length > 0).reverse(),
+    [sessions, currentSessionId]
+  );
+  const selectedSession = sessions.find(s => s.id === (selectedSessionId === CURRENT_SESSION ? currentSessionId : selectedSessionId));
+  const history = useMemo(
+    () => (selectedSessionId === CURRENT_SESSION ? currentHistory : selectedSession?.rounds ?? []),
+    [selectedSessionId, currentHistory, selectedSession]
+  );
+  const maxAngle = (selectedSession?.settings ?? settings).acuteAnglesOnly ? 90 : 180;
+
   const stats = useMemo(() => {
     const totalRounds = history.length;
     if (totalRounds === 0) {
@@ -37,67 +111,243 @@ export const Stats: React.FC<StatsProps> = ({ isOpen, onClose, history }) => {
     return { avgScore, avgDiff, avgDiffLast10, medianDiff };
   }, [history]);
 
+  const lifetime = useMemo(() => computeLifetimeStats(sessions, currentModeKey), [sessions, currentModeKey]);
+  const calibration = useMemo(() => computeCalibration(sessions.flatMap(session => session.rounds)), [sessions]);
+  const training = useMemo(
+    () => buildTrainingModel(trainingRounds(sessions), settings.acuteAnglesOnly ? 90 : 180),
+    [sessions, settings.acuteAnglesOnly]
+  );
+
+  const { dialogProps, titleProps } = useModal(isOpen, onClose);
+
   if (!isOpen) {
     return null;
   }
 
+  const exportHistory = (format: 'json' | 'csv') => {
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      downloadFile(`angulario-history-${date}.json`, exportHistoryJson(sessions, settings), 'application/json');
+    } else {
+      downloadFile(`angulario-history-${date}.csv`, exportHistoryCsv(sessions), 'text/csv');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseHistoryFile(file.name, await file.text(), settings);
+      await onImportSessions(imported);
+      setTransferMessage(`Imported ${imported.length} session${imported.length === 1 ? '' : 's'}.`);
+    } catch (error) {
+      setTransferMessage(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
   return (
     <div className="modal-overlay" onClick={onClose}>
-      <div className="stats-modal-content" onClick={(e) => e.stopPropagation()}>
-        <h2>Session Stats</h2>
-        
-        <div className="summary-grid">
-            <div className="summary-item">
-                <h4>Avg. Score</h4>
-                <p>{stats.avgScore.toFixed(1)}</p>
+      <div className="stats-modal-content" onClick={(e) => e.stopPropagation()} {...dialogProps}>
+        <h2 {...titleProps}>{view === 'lifetime' ? 'Lifetime Stats' : 'Session Stats'}</h2>
+
+        <div className="stats-tabs">
+          <button className={view === 'session' ? 'active' : ''} onClick={() => setView('session')}>Session</button>
+          <button className={view === 'charts' ? 'active' : ''} onClick={() => setView('charts')}>Charts</button>
+          <button className={view === 'lifetime' ? 'active' : ''} onClick={() => setView('lifetime')}>Lifetime</button>
+        </div>
+
+        {view !== 'lifetime' && (
+          <select className="session-select" value={selectedSessionId} onChange={e => { setSelectedSessionId(e.target.value); setReviewIndex(null); }}>
+            <option value={CURRENT_SESSION}>Current Session</option>
+            {pastSessions.map(session => (
+              <option key={session.id} value={session.id}>{describeSession(session)}</option>
+            ))}
+          </select>
+        )}
+
+        {view === 'charts' ? (
+          <StatsCharts history={history} settings={settings} maxAngle={maxAngle} />
+        ) : view === 'session' ? (
+          <>
+            <div className="summary-grid">
+                <div className="summary-item">
+                    <h4>Avg. Score</h4>
+                    <p>{stats.avgScore.toFixed(1)}</p>
+                </div>
+                <div className="summary-item">
+                    <h4>Avg. Diff</h4>
+                    <p>{stats.avgDiff.toFixed(2)}°</p>
+                </div>
+                <div className="summary-item">
+                    <h4>Avg. Diff (Last 10)</h4>
+                    <p>{stats.avgDiffLast10.toFixed(2)}°</p>
+                </div>
+                <div className="summary-item">
+                    <h4>Median Diff</h4>
+                    <p>{stats.medianDiff.toFixed(2)}°</p>
+                </div>
             </div>
-            <div className="summary-item">
-                <h4>Avg. Diff</h4>
-                <p>{stats.avgDiff.toFixed(2)}°</p>
+
+            <div className="history-table-container">
+              {history.length > 0 ? (
+                <table className="history-table">
+                  <thead>
+                    <tr>
+                      <th>Round</th>
+                      <th>Guess</th>
+                      <th>Actual</th>
+                      <th>Diff</th>
+                      <th>Score</th>
+                      <th>Scoring</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...history].reverse().map((round, index) => (
+                      <tr key={index} className="history-row" title="Review this round" onClick={() => setReviewIndex(history.length - 1 - index)}>
+                        <td>{history.length - index}</td>
+                        <td>{round.guessRange ? `${round.guessRange[0]}–${round.guessRange[1]}°` : `${round.guess.toFixed(1)}°`}</td>
+                        <td>{round.actual.toFixed(1)}°</td>
+                        <td>{round.diff.toFixed(1)}°</td>
+                        <td>{round.score.toFixed(0)}</td>
+                        <td>{describeRoundScoring(round)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p style={{textAlign: 'center', padding: '2rem'}}>Play a round to see your stats!</p>
+              )}
             </div>
-            <div className="summary-item">
-                <h4>Avg. Diff (Last 10)</h4>
-                <p>{stats.avgDiffLast10.toFixed(2)}°</p>
+          </>
+        ) : (
+          <>
+            <div className="summary-grid">
+                <div className="summary-item">
+                    <h4>Rounds Played</h4>
+                    <p>{lifetime.totalRounds}</p>
+                </div>
+                <div className="summary-item">
+                    <h4>Sessions</h4>
+                    <p>{lifetime.totalSessions}</p>
+                </div>
+                <div className="summary-item">
+                    <h4>Best Session in This Mode (Avg.)</h4>
+                    <p>{lifetime.bestSession ? sessionAverageScore(lifetime.bestSession).toFixed(1) : '–'}</p>
+                </div>
+                <div className="summary-item">
+                    <h4>Best Session Mode</h4>
+                    <p className="summary-detail">
+                      {lifetime.bestSession
+                        ? `${describeMode(lifetime.bestSession.settings, lifetime.bestSession.dailyKey)}, ${new Date(lifetime.bestSession.startedAt).toLocaleDateString()}`
+                        : '–'}
+                    </p>
+                </div>
             </div>
-            <div className="summary-item">
-                <h4>Median Diff</h4>
-                <p>{stats.medianDiff.toFixed(2)}°</p>
+
+            <div className="history-table-container">
+              {lifetime.records.length > 0 ? (
+                <table className="history-table">
+                  <thead>
+                    <tr>
+                      <th>Mode</th>
+                      <th>Rounds</th>
+                      <th>Best Total</th>
+                      <th title={`Sessions of at least ${MIN_ROUNDS_FOR_RECORD} rounds`}>Best Avg.</th>
+                      <th>Best Guess</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lifetime.records.map(record => (
+                      <tr key={record.modeKey}>
+                        <td>{record.label}</td>
+                        <td>{record.rounds}</td>
+                        <td>{record.bestSessionScore.toFixed(0)}</td>
+                        <td>{record.bestAvgScore !== null ? record.bestAvgScore.toFixed(1) : '–'}</td>
+                        <td>{record.bestDiff.toFixed(1)}°</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p style={{textAlign: 'center', padding: '2rem'}}>No sessions recorded yet.</p>
+              )}
             </div>
-        </div>
 
-        <div className="history-table-container">
-          {history.length > 0 ? (
-            <table className="history-table">
-              <thead>
-                <tr>
-                  <th>Round</th>
-                  <th>Guess</th>
-                  <th>Actual</th>
-                  <th>Diff</th>
-                  <th>Score</th>
-                </tr>
-              </thead>
-              <tbody>
-                {[...history].reverse().map((round, index) => (
-                  <tr key={index}>
-                    <td>{history.length - index}</td>
-                    <td>{round.guess.toFixed(1)}°</td>
-                    <td>{round.actual.toFixed(1)}°</td>
-                    <td>{round.diff.toFixed(1)}°</td>
-                    <td>{round.score.toFixed(0)}</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          ) : (
-            <p style={{textAlign: 'center', padding: '2rem'}}>Play a round to see your stats!</p>
-          )}
-        </div>
+            {calibration.length > 0 && (
+              <div className="history-table-container">
+                <table className="history-table calibration-table">
+                  <caption>Calibration: a calibrated player's ranges hold the angle {INTERVAL_COVERAGE * 100}% of the time at every width.</caption>
+                  <thead>
+                    <tr>
+                      <th>Range Width</th>
+                      <th>Rounds</th>
+                      <th>Inside</th>
+                      <th>Hit Rate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {calibration.map(bucket => (
+                      <tr key={bucket.minWidth}>
+                        <td>{bucket.maxWidth === null ? `${bucket.minWidth}°+` : `${bucket.minWidth}–${bucket.maxWidth}°`}</td>
+                        <td>{bucket.rounds}</td>
+                        <td>{bucket.hits}</td>
+                        <td>{(100 * bucket.hits / bucket.rounds).toFixed(0)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {training.cells.some(cell => cell.rounds > 0) && (
+              <div className="history-table-container">
+                <table className="history-table training-table">
+                  <caption>Training: error per angle and kind of function, from the first rounds to now.</caption>
+                  <thead>
+                    <tr>
+                      <th>Angle</th>
+                      {Object.values(FUNCTION_FAMILIES).map(family => <th key={family.id}>{family.label}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {training.buckets.map(({ from, to }) => (
+                      <tr key={from}>
+                        <td>{from}–{to}°</td>
+                        {training.cells.filter(cell => cell.from === from).map(cell => (
+                          <td key={cell.family} className={trainingCellClass(cell)} title={`${cell.rounds} round${cell.rounds === 1 ? '' : 's'}`}>
+                            {describeTrainingCell(cell)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+
+        {view === 'lifetime' && (
+          <div className="history-transfer">
+            <button onClick={() => exportHistory('json')}>Export JSON</button>
+            <button onClick={() => exportHistory('csv')}>Export CSV</button>
+            <button onClick={() => importInputRef.current?.click()}>Import…</button>
+            <input ref={importInputRef} type="file" accept=".json,.csv,application/json,text/csv" onChange={handleImport} hidden />
+            {transferMessage && <p>{transferMessage}</p>}
+          </div>
+        )}
 
         <div className="modal-actions">
           <button onClick={onClose}>Close</button>
         </div>
       </div>
+      <RoundReview
+        round={reviewIndex !== null ? history[reviewIndex] ?? null : null}
+        roundNumber={(reviewIndex ?? 0) + 1}
+        settings={settings}
+        onClose={() => setReviewIndex(null)}
+      />
     </div>
   );
 };
\ No newline at end of file
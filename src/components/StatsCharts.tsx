@@ -0,0 +1,100 @@
+import React, { useMemo } from 'react';
+import { Line, Scatter, Bar } from 'react-chartjs-2';
+import { ChartOptions } from 'chart.js';
+import { AppSettings } from '../App';
+import { RoundData } from './Stats';
+import { rollingAverage, bucketErrorsByAngle, ROLLING_WINDOW } from '../historyAnalysis';
+
+interface StatsChartsProps {
+  history: RoundData[];
+  settings: AppSettings;
+  maxAngle: number;
+}
+
+export const StatsCharts: React.FC<StatsChartsProps> = ({ history, settings, maxAngle }) => {
+  const fontColor = settings.isDarkMode ? '#e0e0e0' : '#333';
+  const gridColor = settings.isDarkMode ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.1)';
+
+  const axis = (title: string, min?: number, max?: number) => ({
+    type: 'linear' as const,
+    min,
+    max,
+    title: { display: true, text: title, color: fontColor },
+    ticks: { color: fontColor },
+    grid: { color: gridColor },
+  });
+
+  const errorData = useMemo(() => {
+    const diffs = history.map(h => h.diff);
+    return {
+      labels: history.map((_, i) => i + 1),
+      datasets: [
+        { label: 'Error', data: diffs, borderColor: 'rgba(108, 117, 125, 0.6)', backgroundColor: 'rgba(108, 117, 125, 0.6)', showLine: false, pointRadius: 3 },
+        { label: `Rolling Avg. (${ROLLING_WINDOW})`, data: rollingAverage(diffs), borderColor: settings.func1Color, borderWidth: 2, pointRadius: 0 },
+      ],
+    };
+  }, [history, settings.func1Color]);
+
+  const errorOptions: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: { x: { ...axis('Round'), ticks: { color: fontColor, precision: 0 } }, y: axis('Error (°)', 0) },
+    plugins: { legend: { labels: { color: fontColor } } },
+  };
+
+  const scatterData = useMemo(() => ({
+    datasets: [
+      { label: 'Guesses', data: history.map(h => ({ x: h.actual, y: h.guess })), backgroundColor: settings.func2Color, pointRadius: 4 },
+      { label: 'Perfect', data: [{ x: 0, y: 0 }, { x: maxAngle, y: maxAngle }], borderColor: 'rgba(40, 167, 69, 0.8)', borderDash: [6, 4], showLine: true, pointRadius: 0 },
+    ],
+  }), [history, settings.func2Color, maxAngle]);
+
+  const scatterOptions: ChartOptions<'scatter'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: { x: axis('Actual (°)', 0, maxAngle), y: axis('Guess (°)', 0, maxAngle) },
+    plugins: { legend: { labels: { color: fontColor } } },
+  };
+
+  const bucketData = useMemo(() => {
+    const buckets = bucketErrorsByAngle(history, maxAngle);
+    return {
+      labels: buckets.map(b => `${b.label} (${b.count})`),
+      datasets: [
+        { label: 'Mean Bias (guess − actual)', data: buckets.map(b => b.meanSignedError), backgroundColor: settings.func1Color },
+        { label: 'Mean Error', data: buckets.map(b => b.meanAbsError), backgroundColor: 'rgba(108, 117, 125, 0.6)' },
+      ],
+    };
+  }, [history, settings.func1Color, maxAngle]);
+
+  const bucketOptions: ChartOptions<'bar'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: { title: { display: true, text: 'Actual Angle', color: fontColor }, ticks: { color: fontColor }, grid: { color: gridColor } },
+      y: axis('Degrees'),
+    },
+    plugins: { legend: { labels: { color: fontColor } } },
+  };
+
+  if (history.length === 0) {
+    return <p style={{textAlign: 'center', padding: '2rem'}}>Play a round to see your charts!</p>;
+  }
+
+  return (
+    <div className="stats-charts">
+      <div className="stats-chart">
+        <h4>Error Over Time</h4>
+        <div className="stats-chart-canvas"><Line data={errorData} options={errorOptions} /></div>
+      </div>
+      <div className="stats-chart">
+        <h4>Guess vs. Actual</h4>
+        <div className="stats-chart-canvas"><Scatter data={scatterData} options={scatterOptions} /></div>
+      </div>
+      <div className="stats-chart">
+        <h4>Bias by Angle</h4>
+        <div className="stats-chart-canvas"><Bar data={bucketData} options={bucketOptions} /></div>
+      </div>
+    </div>
+  );
+};
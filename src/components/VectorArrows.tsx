@@ -0,0 +1,85 @@
+import React, { useId } from 'react';
+import { AppSettings } from '../App';
+import { MAX_ARROW_DIMENSION, dot, norm } from '../vectors';
+import './VectorArrows.css';
+
+interface VectorArrowsProps {
+  u: number[];
+  v: number[];
+  settings: AppSettings;
+}
+
+const SIZE = 220;
+const RADIUS = SIZE * 0.4;
+const ARC_RADIUS = 28;
+const ARC_STEPS = 24;
+
+// ℝ³ is drawn in a fixed oblique view: rotated about the vertical axis, then tilted towards the viewer.
+const YAW = Math.PI / 6;
+const PITCH = Math.PI / 8;
+
+const project = (p: number[]): [number, number] => {
+  if (p.length < 3) return [p[0], p[1]];
+  const [x, y, z] = p;
+  const xr = x * Math.cos(YAW) - y * Math.sin(YAW);
+  const yr = x * Math.sin(YAW) + y * Math.cos(YAW);
+  return [xr, z * Math.cos(PITCH) - yr * Math.sin(PITCH)];
+};
+
+// Screen coordinates have y pointing down.
+const toScreen = (p: number[], scale: number) => {
+  const [x, y] = project(p);
+  return { x: SIZE / 2 + x * scale, y: SIZE / 2 - y * scale };
+};
+
+// Points along the arc from û to v̂ in the plane they span (spherical interpolation).
+const arcPath = (u: number[], v: number[]): string | null => {
+  const a = u.map(ui => ui / norm(u));
+  const b = v.map(vi => vi / norm(v));
+  const theta = Math.acos(Math.max(-1, Math.min(1, dot(a, b))));
+  if (Math.sin(theta) < 1e-6) return null;
+  const points = Array.from({ length: ARC_STEPS + 1 }, (_, step) => {
+    const t = step / ARC_STEPS;
+    const p = a.map((ai, i) => (Math.sin((1 - t) * theta) * ai + Math.sin(t * theta) * b[i]) / Math.sin(theta));
+    const { x, y } = toScreen(p, ARC_RADIUS);
+    return `${x.toFixed(2)},${y.toFixed(2)}`;
+  });
+  return `M ${points.join(' L ')}`;
+};
+
+// Draws u and v as arrows from the origin, for comparing against familiar Euclidean angles.
+export const VectorArrows: React.FC<VectorArrowsProps> = ({ u, v, settings }) => {
+  // useId returns ":r0:"-style ids, which are awkward inside url(#…) references.
+  const id = useId().replace(/:/g, '');
+  if (u.length > MAX_ARROW_DIMENSION || u.length !== v.length || norm(u) === 0 || norm(v) === 0) return null;
+
+  const scale = RADIUS / Math.max(norm(u), norm(v));
+  const origin = toScreen(u.map(() => 0), scale);
+  const axes = u.map((_, i) => u.map((__, j) => (i === j ? RADIUS / scale : 0)));
+  const arc = arcPath(u, v);
+
+  const arrow = (w: number[], color: string, marker: string, dash?: string) => {
+    const tip = toScreen(w, scale);
+    return <line x1={origin.x} y1={origin.y} x2={tip.x} y2={tip.y} stroke={color} strokeWidth={settings.lineThickness} strokeDasharray={dash} markerEnd={`url(#${marker})`} />;
+  };
+
+  return (
+    <svg className="vector-arrows" viewBox={`0 0 ${SIZE} ${SIZE}`} role="img" aria-label={`Vectors u and v drawn as arrows in ℝ${u.length === 2 ? '²' : '³'}`}>
+      <defs>
+        {[[`${id}-u`, settings.func1Color], [`${id}-v`, settings.func2Color]].map(([marker, color]) => (
+          <marker key={marker} id={marker} viewBox="0 0 10 10" refX="8" refY="5" markerWidth="4" markerHeight="4" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+          </marker>
+        ))}
+      </defs>
+      {axes.map((axis, i) => {
+        const end = toScreen(axis, scale);
+        const start = toScreen(axis.map(c => -c), scale);
+        return <line key={i} className="vector-arrows-axis" x1={start.x} y1={start.y} x2={end.x} y2={end.y} />;
+      })}
+      {arc && <path className="vector-arrows-arc" d={arc} />}
+      {arrow(u, settings.func1Color, `${id}-u`)}
+      {arrow(v, settings.func2Color, `${id}-v`, settings.isLineStyled ? '6 4' : undefined)}
+    </svg>
+  );
+};
@@ -0,0 +1,71 @@
+import { AppSettings } from './App';
+import { DAILY_ROUNDS, DAILY_RULES, formatDailyShareText, getDailyKey, getDailyRoundSeed, hasPlayedDaily, withSessionLevel } from './daily';
+import { DIFFICULTY_LEVELS } from './difficulty';
+import { getModeKey } from './modes';
+import { generateRound } from './roundEngine';
+import { GameSession } from './sessionStore';
+
+test('the daily key is the UTC date', () => {
+  expect(getDailyKey(new Date('2024-06-01T12:00:00Z'))).toBe('2024-06-01');
+  // Still June 1st in New York, but the challenge has moved on.
+  expect(getDailyKey(new Date('2024-06-01T23:30:00-05:00'))).toBe('2024-06-02');
+});
+
+test('each round of a day has its own seed, the same for everyone', () => {
+  const seeds = Array.from({ length: DAILY_ROUNDS }, (_, i) => getDailyRoundSeed('2024-06-01', i));
+  expect(new Set(seeds).size).toBe(DAILY_ROUNDS);
+  expect(getDailyRoundSeed('2024-06-01', 2)).toBe(seeds[2]);
+  expect(getDailyRoundSeed('2024-06-02', 2)).not.toBe(seeds[2]);
+});
+
+test('the rules are fixed, so a day always gets the same rounds', () => {
+  expect(DAILY_RULES).toEqual({
+    isUnitaryMode: false,
+    acuteAnglesOnly: false,
+    isEasyInterval: false,
+    innerProduct: 'l2',
+    isVectorMode: false,
+    difficulty: 'standard',
+    gameMode: 'endless',
+    isIntervalGuess: false,
+    scoring: 'cubic',
+  });
+
+  const rules = { ...DAILY_RULES, vectorDimension: 3 };
+  const seed = getDailyRoundSeed('2024-06-01', 0);
+  expect(generateRound(rules, [], seed)).toEqual(generateRound(rules, [], seed));
+});
+
+test("the daily's rounds do not depend on the level an auto-difficulty session started at", () => {
+  const rules = { ...DAILY_RULES, vectorDimension: 3 };
+  for (const level of DIFFICULTY_LEVELS) {
+    expect(withSessionLevel(rules, '2024-06-01', level.id)).toEqual(rules);
+  }
+  expect(withSessionLevel(rules, null, 'novice').difficulty).toBe('novice');
+  expect(withSessionLevel(rules, null, null)).toEqual(rules);
+});
+
+const session = (dailyKey: string | null, rounds: number): GameSession => ({
+  id: `${dailyKey}-${rounds}`,
+  startedAt: 0,
+  settings: {} as AppSettings,
+  dailyKey,
+  rounds: Array.from({ length: rounds }, () => ({ guess: 0, actual: 45, diff: 45, score: 0, isEasy: false, seed: 0 })),
+  totalScore: 0,
+});
+
+test('a day counts as played once one of its rounds was recorded', () => {
+  expect(hasPlayedDaily([session(null, 3), session('2024-06-01', 0)], '2024-06-01')).toBe(false);
+  expect(hasPlayedDaily([session('2024-06-01', 1)], '2024-06-01')).toBe(true);
+  expect(hasPlayedDaily([session('2024-06-01', 5)], '2024-06-02')).toBe(false);
+});
+
+test('each day has its own mode key', () => {
+  const rules = { ...DAILY_RULES, vectorDimension: 3 };
+  expect(getModeKey(rules, '2024-06-01')).not.toBe(getModeKey(rules, '2024-06-02'));
+  expect(getModeKey(rules, '2024-06-01')).not.toBe(getModeKey(rules, null));
+});
+
+test('the share text gives the score out of the maximum', () => {
+  expect(formatDailyShareText('2024-06-01', 312.6)).toBe(`Angulário Daily 2024-06-01: 313 / ${DAILY_ROUNDS * 100}`);
+});
@@ -0,0 +1,49 @@
+import { hashSeed } from './random';
+import { RoundRules } from './roundEngine';
+import { DifficultyLevelId } from './difficulty';
+import { GameSession } from './sessionStore';
+
+// --- Daily Challenge ---
+// A fixed number of rounds derived from the (UTC) date, so everyone playing on the same day
+// gets the same f/g pairs, the same intervals and can compare final scores.
+
+export const DAILY_ROUNDS = 5;
+
+// The daily challenge always uses the same rules, regardless of the player's settings.
+export const DAILY_RULES = {
+    isUnitaryMode: false,
+    acuteAnglesOnly: false,
+    isEasyInterval: false,
+    innerProduct: 'l2' as const,
+    isVectorMode: false,
+    difficulty: 'standard' as const,
+    // The daily challenge has its own fixed length.
+    gameMode: 'endless' as const,
+    isIntervalGuess: false,
+    scoring: 'cubic' as const,
+};
+
+// The rules a round is generated with, given the level an auto-difficulty session started at. The
+// daily challenge ignores that level, or its rounds would depend on each player's progress.
+export function withSessionLevel(rules: RoundRules, dailyKey: string | null, level?: DifficultyLevelId | null): RoundRules {
+    return level && !dailyKey ? { ...rules, difficulty: level } : rules;
+}
+
+export function getDailyKey(date: Date = new Date()): string {
+    return date.toISOString().slice(0, 10); // YYYY-MM-DD
+}
+
+// Each round gets its own seed so a round only depends on the day and its position,
+// not on how many retries the previous rounds needed.
+export function getDailyRoundSeed(dailyKey: string, roundIndex: number): number {
+    return hashSeed(`angulario-daily:${dailyKey}:${roundIndex}`);
+}
+
+// Only the first attempt at a day's challenge counts: a replay already knows the rounds.
+export function hasPlayedDaily(sessions: GameSession[], dailyKey: string): boolean {
+    return sessions.some(session => session.dailyKey === dailyKey && session.rounds.length > 0);
+}
+
+export function formatDailyShareText(dailyKey: string, totalScore: number): string {
+    return `Angulário Daily ${dailyKey}: ${totalScore.toFixed(0)} / ${DAILY_ROUNDS * 100}`;
+}
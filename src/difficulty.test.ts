@@ -0,0 +1,71 @@
+import { AUTO_UNLOCK_WINDOW, DIFFICULTY_LEVELS, getDifficultyLevel, sampleTargetAngle, targetProbability, resolveAutoLevel, resolveDifficulty } from './difficulty';
+import { RoundData } from './components/Stats';
+import { GameSession } from './sessionStore';
+import { generateRound } from './roundEngine';
+import { createRng } from './random';
+
+const rules = { isUnitaryMode: false, acuteAnglesOnly: false, isEasyInterval: false, innerProduct: 'l2' as const, isVectorMode: false, vectorDimension: 3 };
+
+const rounds = (level: RoundData['level'], diff: number, count = AUTO_UNLOCK_WINDOW): RoundData[] =>
+  Array.from({ length: count }, () => ({ guess: 0, actual: diff, diff, score: 50, isEasy: false, seed: 0, level }));
+
+const session = (startedAt: number, sessionRounds: RoundData[]) =>
+  ({ id: String(startedAt), startedAt, dailyKey: null, rounds: sessionRounds, totalScore: 0 }) as unknown as GameSession;
+
+describe('resolveAutoLevel', () => {
+  test('starts at the first level', () => {
+    expect(resolveAutoLevel([])).toBe('novice');
+    expect(resolveDifficulty('auto', [])).toBe('novice');
+  });
+
+  test('unlocks the next level once the rolling error is low enough', () => {
+    expect(resolveAutoLevel([session(1, rounds('novice', 25))])).toBe('novice');
+    expect(resolveAutoLevel([session(1, rounds('novice', 18))])).toBe('apprentice');
+    expect(resolveAutoLevel([session(1, rounds('novice', 18)), session(2, rounds('apprentice', 12))])).toBe('standard');
+  });
+
+  test('needs a full window of rounds on the previous level', () => {
+    expect(resolveAutoLevel([session(1, rounds('novice', 0, AUTO_UNLOCK_WINDOW - 1))])).toBe('novice');
+  });
+
+  test('only looks at the most recent rounds', () => {
+    const history = [session(2, rounds('novice', 5)), session(1, rounds('novice', 40))];
+    expect(resolveAutoLevel(history)).toBe('apprentice');
+  });
+});
+
+test('manual settings resolve to themselves', () => {
+  expect(resolveDifficulty('expert', [])).toBe('expert');
+  expect(resolveDifficulty(undefined, [])).toBe('standard');
+});
+
+test('target angles follow the level bands', () => {
+  const master = getDifficultyLevel('master');
+  // Band masses: 15, 180, 30, 180, 15 out of 420.
+  expect(targetProbability(master, 180, 75, 105)).toBeCloseTo(30 / 420);
+  expect(targetProbability(getDifficultyLevel('standard'), 180, 0, 45)).toBeCloseTo(0.25);
+  expect(targetProbability(getDifficultyLevel('standard'), 90, 0, 45)).toBeCloseTo(0.5);
+
+  const rng = createRng(9);
+  const samples = Array.from({ length: 2000 }, () => sampleTargetAngle(master, 90, rng));
+  expect(Math.max(...samples)).toBeLessThanOrEqual(90);
+  const share = samples.filter(angle => angle >= 75).length / samples.length;
+  expect(share).toBeCloseTo(targetProbability(master, 90, 75, 90), 1);
+});
+
+test('every level can generate rounds from its own building blocks', () => {
+  for (const level of DIFFICULTY_LEVELS) {
+    const { round } = generateRound({ ...rules, difficulty: level.id }, [], 3);
+    expect(round.level).toBe(level.id);
+    const [lo, hi] = level.intervalRange;
+    expect(round.interval[0]).toBeGreaterThanOrEqual(lo);
+    expect(round.interval[1]).toBeLessThanOrEqual(hi);
+  }
+});
+
+test('novice rounds use single, uncombined functions', () => {
+  for (let seed = 0; seed < 5; seed++) {
+    const { round } = generateRound({ ...rules, difficulty: 'novice' }, [], seed);
+    expect(round.f1_expr).not.toMatch(/tanh|cbrt|asin|\+/);
+  }
+});
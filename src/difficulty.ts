@@ -0,0 +1,193 @@
+import { GameSession } from './sessionStore';
+import { Rng } from './random';
+
+// --- Difficulty Levels ---
+// Everything the function generator may use, per level. `{L}` in a base function is replaced by
+// the largest |endpoint| of the interval, so e.g. asin stays defined on the whole interval.
+// A level is unlocked in auto mode once the player's last AUTO_UNLOCK_WINDOW rounds on the level
+// before it have a mean error of at most `unlockMaxError` degrees.
+
+export type DifficultyLevelId = 'novice' | 'apprentice' | 'standard' | 'expert' | 'master';
+export type DifficultySetting = DifficultyLevelId | 'auto';
+
+// Target angle distribution: the generator aims for angles in [from, to] with probability
+// proportional to weight × width. Levels without bands aim uniformly.
+export interface AngleBand {
+    from: number;
+    to: number;
+    weight: number;
+}
+
+export interface DifficultyLevel {
+    id: DifficultyLevelId;
+    label: string;
+    baseFunctions: string[];
+    maxCombined: 1 | 2 | 3;
+    allowComposition: boolean;
+    scalars: number[];
+    // Interval endpoints are distinct integers from this range.
+    intervalRange: [number, number];
+    angleBands?: AngleBand[];
+    unlockMaxError: number | null;
+}
+
+export const AUTO_UNLOCK_WINDOW = 10;
+export const DEFAULT_DIFFICULTY: DifficultyLevelId = 'standard';
+
+// The order matters: each level is unlocked from the one before it.
+export const DIFFICULTY_LEVELS: DifficultyLevel[] = [
+    {
+        id: 'novice',
+        label: 'Novice',
+        baseFunctions: ['x', 'x^2', 'sin(x)', 'cos(x)', 'exp(x)'],
+        maxCombined: 1,
+        allowComposition: false,
+        scalars: [2],
+        intervalRange: [-2, 2],
+        // Mostly clear-cut angles, so the extremes are easy to learn.
+        angleBands: [
+            { from: 0, to: 30, weight: 2 },
+            { from: 30, to: 150, weight: 1 },
+            { from: 150, to: 180, weight: 2 },
+        ],
+        unlockMaxError: null,
+    },
+    {
+        id: 'apprentice',
+        label: 'Apprentice',
+        baseFunctions: ['x', 'x^2', 'x^3', 'sin(x)', 'cos(x)', 'exp(x)', 'atan(x)', '1 / (x^2 + 1)'],
+        maxCombined: 2,
+        allowComposition: false,
+        scalars: [0.5, 2],
+        intervalRange: [-3, 3],
+        unlockMaxError: 20,
+    },
+    {
+        id: 'standard',
+        label: 'Standard',
+        baseFunctions: [
+            'x', 'x^2', 'x^3', 'x^4',
+            'sin(x)', 'cos(x)', 'exp(x)',
+            'tanh(x)', 'sinh(x)',
+            'atan(x)', '1 / (x^2 + 1)',
+            'cbrt(x)',
+            'asin(x / {L})',
+        ],
+        maxCombined: 3,
+        allowComposition: true,
+        scalars: [0.5, 1.5, 2, 3],
+        intervalRange: [-5, 5],
+        unlockMaxError: 15,
+    },
+    {
+        id: 'expert',
+        label: 'Expert',
+        baseFunctions: [
+            'x', 'x^2', 'x^3', 'x^4', 'x^5',
+            'sin(x)', 'cos(x)', 'sin(2 * x)', 'cos(3 * x)', 'exp(x)', 'exp(-x^2)',
+            'tanh(x)', 'sinh(x)', 'cosh(x)',
+            'atan(x)', '1 / (x^2 + 1)',
+            'cbrt(x)',
+            'asin(x / {L})',
+        ],
+        maxCombined: 3,
+        allowComposition: true,
+        scalars: [0.25, 0.5, 1.5, 2, 3, 4],
+        intervalRange: [-6, 6],
+        // Fewer near-orthogonal pairs.
+        angleBands: [
+            { from: 0, to: 75, weight: 2 },
+            { from: 75, to: 105, weight: 1 },
+            { from: 105, to: 180, weight: 2 },
+        ],
+        unlockMaxError: 10,
+    },
+    {
+        id: 'master',
+        label: 'Master',
+        baseFunctions: [
+            'x', 'x^2', 'x^3', 'x^4', 'x^5',
+            'sin(x)', 'cos(x)', 'sin(2 * x)', 'cos(3 * x)', 'sin(5 * x)', 'exp(x)', 'exp(-x^2)',
+            'tanh(x)', 'sinh(x)', 'cosh(x)',
+            'atan(x)', '1 / (x^2 + 1)', 'x / (x^2 + 1)',
+            'cbrt(x)',
+            'asin(x / {L})', 'acos(x / {L})',
+        ],
+        maxCombined: 3,
+        allowComposition: true,
+        scalars: [0.25, 0.5, 1.5, 2, 3, 4, 5],
+        intervalRange: [-8, 8],
+        // The subtle angles: well away from 0°, 90° and 180°.
+        angleBands: [
+            { from: 0, to: 15, weight: 1 },
+            { from: 15, to: 75, weight: 3 },
+            { from: 75, to: 105, weight: 1 },
+            { from: 105, to: 165, weight: 3 },
+            { from: 165, to: 180, weight: 1 },
+        ],
+        unlockMaxError: 6,
+    },
+];
+
+export function getDifficultyLevel(id: DifficultyLevelId | undefined): DifficultyLevel {
+    return DIFFICULTY_LEVELS.find(level => level.id === (id ?? DEFAULT_DIFFICULTY))
+        ?? DIFFICULTY_LEVELS.find(level => level.id === DEFAULT_DIFFICULTY)!;
+}
+
+// --- Target Angles ---
+// The level's bands clipped to [0, maxAngle] (90° in acute mode).
+export function targetAngleBands(level: DifficultyLevel, maxAngle: number): AngleBand[] {
+    const bands = level.angleBands ?? [{ from: 0, to: 180, weight: 1 }];
+    return bands
+        .map(band => ({ ...band, to: Math.min(band.to, maxAngle) }))
+        .filter(band => band.to > band.from && band.weight > 0);
+}
+
+// Probability that a target angle falls in [from, to].
+export function targetProbability(level: DifficultyLevel, maxAngle: number, from: number, to: number): number {
+    const bands = targetAngleBands(level, maxAngle);
+    const total = bands.reduce((acc, band) => acc + band.weight * (band.to - band.from), 0);
+    const inRange = bands.reduce((acc, band) => acc + band.weight * Math.max(0, Math.min(to, band.to) - Math.max(from, band.from)), 0);
+    return inRange / total;
+}
+
+export function sampleTargetAngle(level: DifficultyLevel, maxAngle: number, rng: Rng): number {
+    const bands = targetAngleBands(level, maxAngle);
+    const masses = bands.map(band => band.weight * (band.to - band.from));
+    let r = rng() * masses.reduce((acc, m) => acc + m, 0);
+    for (let i = 0; i < bands.length; i++) {
+        if (r < masses[i] || i === bands.length - 1) {
+            const { from, to } = bands[i];
+            return from + Math.min(1, r / masses[i]) * (to - from);
+        }
+        r -= masses[i];
+    }
+    return maxAngle / 2; // Unreachable, bands are never empty.
+}
+
+// --- Auto Unlock ---
+export function rollingLevelError(sessions: GameSession[], levelId: DifficultyLevelId): number | null {
+    const rounds = [...sessions]
+        .sort((a, b) => a.startedAt - b.startedAt)
+        .flatMap(session => session.rounds)
+        .filter(round => round.level === levelId)
+        .slice(-AUTO_UNLOCK_WINDOW);
+    if (rounds.length < AUTO_UNLOCK_WINDOW) return null;
+    return rounds.reduce((acc, round) => acc + round.diff, 0) / rounds.length;
+}
+
+// The highest level unlocked by the player's history.
+export function resolveAutoLevel(sessions: GameSession[]): DifficultyLevelId {
+    let unlocked = DIFFICULTY_LEVELS[0];
+    for (const level of DIFFICULTY_LEVELS.slice(1)) {
+        const error = rollingLevelError(sessions, unlocked.id);
+        if (error === null || level.unlockMaxError === null || error > level.unlockMaxError) break;
+        unlocked = level;
+    }
+    return unlocked.id;
+}
+
+export function resolveDifficulty(setting: DifficultySetting | undefined, sessions: GameSession[]): DifficultyLevelId {
+    if (setting === 'auto') return resolveAutoLevel(sessions);
+    return getDifficultyLevel(setting).id;
+}
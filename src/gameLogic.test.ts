@@ -0,0 +1,124 @@
+import { aimAtAngle, calculateAngle, math } from './gameLogic';
+import { compileFunction } from './compiledFunction';
+
+const fn = (expression: string) => compileFunction(math.parse(expression));
+
+describe('calculateAngle', () => {
+  test('odd and even functions are orthogonal on a symmetric interval', () => {
+    const { angle } = calculateAngle(fn('x'), fn('x^2'), false, [-1, 1], false);
+    expect(angle).toBeCloseTo(90, 6);
+  });
+
+  test('matches the closed form for x and x + 1 on [0, 1]', () => {
+    // <x, x+1> = 5/6, ||x||^2 = 1/3, ||x+1||^2 = 7/3
+    const expected = Math.acos((5 / 6) / Math.sqrt(7 / 9)) * (180 / Math.PI);
+    const { angle } = calculateAngle(fn('x'), fn('x + 1'), false, [0, 1], false);
+    expect(angle).toBeCloseTo(expected, 6);
+  });
+
+  test('breaks the angle down into the inner product and norms', () => {
+    const { angle, breakdown } = calculateAngle(fn('x'), fn('x + 1'), false, [0, 1], false);
+    const { innerProduct, normF1, normF2, cosTheta, normalisedFrom, flipped } = breakdown!;
+    expect(innerProduct).toBeCloseTo(5 / 6);
+    expect(normF1).toBeCloseTo(Math.sqrt(1 / 3));
+    expect(normF2).toBeCloseTo(Math.sqrt(7 / 3));
+    expect(cosTheta).toBeCloseTo(innerProduct / (normF1 * normF2));
+    expect(Math.acos(cosTheta) * (180 / Math.PI)).toBeCloseTo(angle!, 6);
+    expect(normalisedFrom).toBeUndefined();
+    expect(flipped).toBe(false);
+  });
+
+  test('a function and its negative are 180 degrees apart', () => {
+    const { angle } = calculateAngle(fn('sin(x)'), fn('-sin(x)'), false, [-2, 3], false);
+    expect(angle).toBeCloseTo(180, 4);
+  });
+
+  describe('acute mode', () => {
+    test('flips g when the inner product is negative', () => {
+      const { angle, f2_final } = calculateAngle(fn('x'), fn('-x - 1'), false, [0, 1], true);
+      const obtuse = calculateAngle(fn('x'), fn('-x - 1'), false, [0, 1], false).angle!;
+      expect(angle).toBeCloseTo(180 - obtuse, 6);
+      expect(f2_final.evaluate(0.5)).toBeCloseTo(1.5);
+    });
+
+    test('leaves acute pairs alone', () => {
+      const { angle, f2_final } = calculateAngle(fn('x'), fn('x + 1'), false, [0, 1], true);
+      expect(angle).toBeLessThan(90);
+      expect(f2_final.evaluate(0.5)).toBeCloseTo(1.5);
+    });
+
+    test('records the flip in the breakdown', () => {
+      const flipped = calculateAngle(fn('x'), fn('-x - 1'), false, [0, 1], true).breakdown!;
+      const kept = calculateAngle(fn('x'), fn('x + 1'), false, [0, 1], true).breakdown!;
+      expect(flipped.flipped).toBe(true);
+      expect(flipped.innerProduct).toBeCloseTo(5 / 6);
+      expect(kept.flipped).toBe(false);
+    });
+  });
+
+  describe('unitary mode', () => {
+    test('normalises both functions without changing the angle', () => {
+      const plain = calculateAngle(fn('3x'), fn('x + 1'), false, [0, 1], false);
+      const unitary = calculateAngle(fn('3x'), fn('x + 1'), true, [0, 1], false);
+      expect(unitary.angle).toBeCloseTo(plain.angle!, 6);
+      // ||3x||^2 = 3 on [0, 1], so f is divided by sqrt(3)
+      expect(unitary.f1_final.evaluate(1)).toBeCloseTo(Math.sqrt(3));
+    });
+
+    test('records the original norms in the breakdown', () => {
+      const { breakdown } = calculateAngle(fn('3x'), fn('x + 1'), true, [0, 1], false);
+      expect(breakdown!.normalisedFrom![0]).toBeCloseTo(Math.sqrt(3));
+      expect(breakdown!.normalisedFrom![1]).toBeCloseTo(Math.sqrt(7 / 3));
+      expect(breakdown!.normF1).toBeCloseTo(1);
+      expect(breakdown!.normF2).toBeCloseTo(1);
+    });
+  });
+
+  test('rejects pairs that are not integrable on the interval', () => {
+    const { angle, rejection } = calculateAngle(fn('1 / x'), fn('x^2'), false, [-1, 1], false);
+    expect(angle).toBeNull();
+    expect(rejection).toMatch(/not integrable/);
+  });
+
+  describe('inner products', () => {
+    test('Chebyshev polynomials are orthogonal under the Chebyshev weight', () => {
+      // T0 = 1 and T2 = 2x^2 - 1 are not orthogonal in plain L² on [-1, 1].
+      expect(calculateAngle(fn('1'), fn('2x^2 - 1'), false, [-1, 1], false).angle).not.toBeCloseTo(90, 0);
+      expect(calculateAngle(fn('1'), fn('2x^2 - 1'), false, [-1, 1], false, 'chebyshev').angle).toBeCloseTo(90, 4);
+    });
+
+    test('Hermite polynomials are orthogonal under the Hermite weight', () => {
+      expect(calculateAngle(fn('1'), fn('4x^2 - 2'), false, [-6, 6], false, 'hermite').angle).toBeCloseTo(90, 6);
+    });
+
+    test('the Sobolev product also compares derivatives', () => {
+      // <x, 1> = 1/2, ||x||^2 = 1/3 + 1, ||1||^2 = 1
+      const expected = Math.acos(0.5 / Math.sqrt(4 / 3)) * (180 / Math.PI);
+      expect(calculateAngle(fn('x'), fn('1'), false, [0, 1], false, 'sobolev').angle).toBeCloseTo(expected, 6);
+      expect(calculateAngle(fn('x'), fn('1'), false, [0, 1], false).angle).toBeCloseTo(30, 6);
+    });
+
+    test('the Sobolev product is used for the normalisation in unitary mode', () => {
+      const { f1_final } = calculateAngle(fn('x'), fn('1'), true, [0, 1], false, 'sobolev');
+      expect(f1_final.evaluate(1)).toBeCloseTo(Math.sqrt(3 / 4));
+    });
+  });
+
+  test('rejects functions that vanish on the interval', () => {
+    const { angle } = calculateAngle(fn('0 * x'), fn('x'), false, [-1, 1], false);
+    expect(angle).toBeNull();
+  });
+});
+
+describe('aimAtAngle', () => {
+  test.each([10, 60, 90, 135, 170])('mixes f into g to hit %d°', target => {
+    const aimed = aimAtAngle(fn('sin(x)'), fn('x^2 + 1'), target, [-2, 3]);
+    const { angle } = calculateAngle(aimed!.f1, aimed!.f2, false, [-2, 3], false);
+    // The mixing factor is rounded to two significant digits.
+    expect(Math.abs(angle! - target)).toBeLessThan(2);
+  });
+
+  test('gives up when g is a multiple of f', () => {
+    expect(aimAtAngle(fn('x'), fn('3x'), 45, [0, 1])).toBeNull();
+  });
+});
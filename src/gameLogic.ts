@@ -1,49 +1,32 @@
 
 import { create, all, MathNode, SymbolNode } from 'mathjs';
+import { Rng, randomInt, pick, shuffle } from './random';
+import { integrate, IntegrationResult } from './quadrature';
+import { CompiledFunction, divideFunction, negateFunction, differentiate, addScaledFunction } from './compiledFunction';
+import { InnerProductDefinition, InnerProductId, getInnerProduct } from './innerProducts';
+import { DifficultyLevel, getDifficultyLevel } from './difficulty';
 
 export const math = create(all);
 
-// --- Simpson's Rule for Numerical Integration ---
-function simpsonsRule(func: (x: number) => number, a: number, b: number, n: number = 200): number {
-    if (n % 2 !== 0) n++; // Ensure n is even
-    const h = (b - a) / n;
-    let sum = func(a) + func(b);
-
-    for (let i = 1; i < n; i += 2) {
-        sum += 4 * func(a + i * h);
-    }
-    for (let i = 2; i < n - 1; i += 2) {
-        sum += 2 * func(a + i * h);
-    }
-
-    return (h / 3) * sum;
-}
-
 // --- Function Generation ---
-function generateRandomFunction(intervalLimit: number): MathNode {
-    const baseFunctions = [
-        'x', 'x^2', 'x^3', 'x^4',
-        'sin(x)', 'cos(x)', 'exp(x)',
-        'tanh(x)', 'sinh(x)',
-        'atan(x)', '1 / (x^2 + 1)',
-        'cbrt(x)', // Now safe
-        `asin(x / ${intervalLimit})` // Also safe with scaling
-    ];
-    const scalars = [0.5, 1.5, 2, 3];
-
-    const numToCombine = Math.floor(Math.random() * 3) + 1; // 1, 2, or 3
-    const chosenFuncs = [...baseFunctions].sort(() => 0.5 - Math.random()).slice(0, numToCombine);
+// The building blocks (and how they may be combined) come from the difficulty level.
+function generateRandomFunction(intervalLimit: number, rng: Rng, level: DifficultyLevel): MathNode {
+    const baseFunctions = level.baseFunctions.map(func => func.replace(/\{L\}/g, String(intervalLimit)));
+    const { scalars } = level;
+
+    const numToCombine = randomInt(rng, level.maxCombined) + 1; // 1 up to maxCombined
+    const chosenFuncs = shuffle(rng, baseFunctions).slice(0, numToCombine);
 
     // Helper to create a modified (signed and scaled) function string
     const createModifiedString = (func: string) => {
         let modifiedFunc = func;
         // 33% chance to apply a scalar to avoid over-complicating
-        if (Math.random() < 0.33) {
-            const scalar = scalars[Math.floor(Math.random() * scalars.length)];
+        if (rng() < 0.33) {
+            const scalar = pick(rng, scalars);
             modifiedFunc = `${scalar} * (${modifiedFunc})`;
         }
         // Apply a random sign
-        if (Math.random() < 0.5) {
+        if (rng() < 0.5) {
             return `-(${modifiedFunc})`;
         }
         return modifiedFunc;
@@ -56,7 +39,7 @@ function generateRandomFunction(intervalLimit: number): MathNode {
     if (numToCombine === 2) {
         const f1String = `(${createModifiedString(chosenFuncs[0])})`;
         const f2String = `(${createModifiedString(chosenFuncs[1])})`;
-        const op = ['+', '*', 'compose'][Math.floor(Math.random() * 3)];
+        const op = pick(rng, level.allowComposition ? ['+', '*', 'compose'] : ['+', '*']);
 
         if (op === '+') {
             return math.parse(`${f1String} + ${f2String}`);
@@ -69,7 +52,7 @@ function generateRandomFunction(intervalLimit: number): MathNode {
         const f1Node = math.parse(f1String);
         const f2Node = math.parse(f2String);
 
-        if (Math.random() < 0.5) {
+        if (rng() < 0.5) {
             // f1(f2(x))
             return f1Node.transform(function (node: MathNode) {
                 if (math.isSymbolNode(node) && node.name === 'x') {
@@ -94,88 +77,210 @@ function generateRandomFunction(intervalLimit: number): MathNode {
     const f3String = `(${createModifiedString(chosenFuncs[2])})`;
 
     // Combine first two with + or *
-    const op1 = ['+', '*'][Math.floor(Math.random() * 2)];
+    const op1 = pick(rng, ['+', '*']);
     const intermediate = `(${f1String} ${op1} ${f2String})`;
 
     // Combine with the third using + or *
-    const op2 = ['+', '*'][Math.floor(Math.random() * 2)];
+    const op2 = pick(rng, ['+', '*']);
     const finalFuncString = `(${intermediate}) ${op2} ${f3String}`;
 
     return math.parse(finalFuncString);
 }
 
-export function getNewFunctions(interval: [number, number]): { f1: MathNode, f2: MathNode } {
+export function getNewFunctions(
+    interval: [number, number],
+    rng: Rng = Math.random,
+    level: DifficultyLevel = getDifficultyLevel(undefined)
+): { f1: MathNode, f2: MathNode } {
     const intervalLimit = Math.max(Math.abs(interval[0]), Math.abs(interval[1]));
-    let f1 = generateRandomFunction(intervalLimit);
-    let f2 = generateRandomFunction(intervalLimit);
+    let f1 = generateRandomFunction(intervalLimit, rng, level);
+    let f2 = generateRandomFunction(intervalLimit, rng, level);
 
     // Ensure functions are not identical or direct negatives
     while (f1.equals(f2) || f1.equals(math.parse(`-(${f2.toString()})`))) {
-        f2 = generateRandomFunction(intervalLimit);
+        f2 = generateRandomFunction(intervalLimit, rng, level);
     }
     return { f1, f2 };
 }
 
+// --- Aiming ---
+// Random pairs cluster around a narrow band of angles. To hit a target angle θ, g is replaced by
+// g + t·f: writing g = (b/a)·f + g⊥ (a = ⟨f, f⟩, b = ⟨f, g⟩), the angle between f and λ·f + g⊥
+// is θ for λ = ‖g⊥‖ / (‖f‖ tan θ), so t = λ − b/a. When |t| > 1 the (equivalent) f + g/t is used,
+// so neither term drowns the other. Factors are rounded to keep the expression readable, so the
+// final angle is close to, not exactly, the target.
+const MIN_PERPENDICULAR_SHARE = 1e-3;
+const roundFactor = (t: number) => Number(t.toPrecision(2));
+
+export function aimAtAngle(
+    f: CompiledFunction,
+    g: CompiledFunction,
+    targetAngle: number,
+    interval: [number, number],
+    innerProductId?: InnerProductId
+): { f1: CompiledFunction, f2: CompiledFunction } | null {
+    const { breakdown } = calculateAngle(f, g, false, interval, false, innerProductId);
+    if (!breakdown) return null;
+
+    const { normF1, normF2 } = breakdown;
+    const a = normF1 * normF1;
+    const b = breakdown.innerProduct;
+    const perpSq = normF2 * normF2 - (b * b) / a;
+    // g is (nearly) a multiple of f, so mixing in f cannot change the angle.
+    if (!(perpSq > MIN_PERPENDICULAR_SHARE * normF2 * normF2)) return null;
+
+    const lambda = Math.sqrt(perpSq) / (Math.sqrt(a) * Math.tan(targetAngle * (Math.PI / 180)));
+    const t = lambda - b / a;
+    if (Math.abs(t) <= 1) {
+        const rounded = roundFactor(t);
+        return { f1: f, f2: rounded === 0 ? g : addScaledFunction(g, f, rounded) };
+    }
+    // Scaling by 1/t (flipping the sign for t < 0) doesn't change the angle.
+    const inverse = roundFactor(1 / t);
+    if (inverse === 0) return null; // Would turn g into f itself.
+    const mixed = addScaledFunction(f, g, inverse);
+    return { f1: f, f2: t < 0 ? negateFunction(mixed) : mixed };
+}
+
 // --- Angle Calculation ---
+// Pairs whose angle cannot be pinned down to this accuracy (in degrees) are rejected.
+const MAX_ANGLE_ERROR = 0.05;
+
+// How the angle came about, step by step, so it can be explained to the player.
+export interface AngleBreakdown {
+    // ||f|| and ||g|| of the functions as given, if they were normalised first (unitary mode).
+    normalisedFrom?: [number, number];
+    // Whether g was negated because <f, g> was negative (acute mode).
+    flipped: boolean;
+    // <f, g>, ||f|| and ||g|| of the final (possibly normalised and flipped) functions.
+    innerProduct: number;
+    normF1: number;
+    normF2: number;
+    cosTheta: number;
+}
+
+// The objects being compared are functions, or vectors in vector mode.
+export interface AngleResult<T = CompiledFunction> {
+    angle: number | null;
+    f1_final: T;
+    f2_final: T;
+    // Estimated error of `angle` in degrees, propagated from the quadrature error estimates.
+    angleError?: number;
+    // Set whenever `angle` is.
+    breakdown?: AngleBreakdown;
+    // Why no angle could be computed, if `angle` is null.
+    rejection?: string;
+}
+
+function integrateProduct(
+    f: CompiledFunction,
+    g: CompiledFunction,
+    interval: [number, number],
+    geometry: InnerProductDefinition
+): IntegrationResult {
+    const { weight } = geometry;
+    if (geometry.usesDerivatives) {
+        const df = differentiate(f);
+        const dg = f === g ? df : differentiate(g);
+        return integrate(x => f.evaluate(x) * g.evaluate(x) + df.evaluate(x) * dg.evaluate(x), interval[0], interval[1]);
+    }
+    if (weight) {
+        return integrate(x => weight(x) * f.evaluate(x) * g.evaluate(x), interval[0], interval[1]);
+    }
+    return integrate(x => f.evaluate(x) * g.evaluate(x), interval[0], interval[1]);
+}
+
+// Returns a reason to reject the integral, or null if it can be trusted.
+function checkIntegral(name: string, result: IntegrationResult): string | null {
+    if (result.singularities.length > 0) {
+        return `${name} is not integrable near x = ${result.singularities.map(x => x.toFixed(3)).join(', ')}`;
+    }
+    if (!isFinite(result.value)) return `${name} could not be evaluated`;
+    return null;
+}
+
 export function calculateAngle(
-    f1_orig: MathNode,
-    f2_orig: MathNode,
+    f1_orig: CompiledFunction,
+    f2_orig: CompiledFunction,
     isUnitary: boolean,
     interval: [number, number],
-    ensureAcute: boolean
-): { angle: number | null, f1_final: MathNode, f2_final: MathNode } {
+    ensureAcute: boolean,
+    innerProductId?: InnerProductId
+): AngleResult {
     let f1 = f1_orig;
     let f2 = f2_orig;
+    let normalisedFrom: [number, number] | undefined;
+    const geometry = getInnerProduct(innerProductId);
 
     try {
         // Unitary mode normalizes the functions f1 and f2, which is correct.
         if (isUnitary) {
-            const f1Sq = math.parse(`(${f1.toString()})^2`);
-            const f2Sq = math.parse(`(${f2.toString()})^2`);
-            const normF1Sq = simpsonsRule(x => f1Sq.evaluate({ x }), interval[0], interval[1]);
-            const normF2Sq = simpsonsRule(x => f2Sq.evaluate({ x }), interval[0], interval[1]);
+            const normF1Sq = integrateProduct(f1, f1, interval, geometry);
+            const normF2Sq = integrateProduct(f2, f2, interval, geometry);
+            const rejection = checkIntegral('||f||^2', normF1Sq) ?? checkIntegral('||g||^2', normF2Sq);
+            if (rejection) return { angle: null, f1_final: f1, f2_final: f2, rejection };
 
-            const normF1 = Math.sqrt(normF1Sq);
-            const normF2 = Math.sqrt(normF2Sq);
+            const normF1 = Math.sqrt(normF1Sq.value);
+            const normF2 = Math.sqrt(normF2Sq.value);
 
-            if (normF1 === 0 || normF2 === 0) return { angle: null, f1_final: f1, f2_final: f2 };
+            if (normF1 === 0 || normF2 === 0) return { angle: null, f1_final: f1, f2_final: f2, rejection: 'zero norm' };
 
-            f1 = math.parse(`(${f1.toString()}) / ${normF1}`);
-            f2 = math.parse(`(${f2.toString()}) / ${normF2}`);
+            f1 = divideFunction(f1, normF1);
+            f2 = divideFunction(f2, normF2);
+            normalisedFrom = [normF1, normF2];
         }
 
-        // --- CORRECTED LOGIC ---
         // The inner product is of the functions themselves.
-        const innerProductIntegrand = math.parse(`(${f1.toString()}) * (${f2.toString()})`);
-        let innerProduct = simpsonsRule(x => innerProductIntegrand.evaluate({ x }), interval[0], interval[1]);
+        const innerProductResult = integrateProduct(f1, f2, interval, geometry);
+        const normF1SqResult = integrateProduct(f1, f1, interval, geometry);
+        const normF2SqResult = integrateProduct(f2, f2, interval, geometry);
+
+        const rejection = checkIntegral('<f, g>', innerProductResult)
+            ?? checkIntegral('||f||^2', normF1SqResult)
+            ?? checkIntegral('||g||^2', normF2SqResult);
+        if (rejection) return { angle: null, f1_final: f1, f2_final: f2, rejection };
+
+        let innerProduct = innerProductResult.value;
+        const flipped = ensureAcute && innerProduct < 0;
 
         // Acute angle logic remains the same, but now operates on the correct inner product.
-        if (ensureAcute && innerProduct < 0) {
-            f2 = math.parse(`-(${f2.toString()})`); // Flip f2 for the display string
+        if (flipped) {
+            f2 = negateFunction(f2); // Flip f2 for the display string
             innerProduct = -innerProduct;      // Flip the inner product for the angle calc
         }
 
-        // The norms are of the functions themselves.
-        const normF1SqIntegrand = math.parse(`(${f1.toString()})^2`);
-        const normF2SqIntegrand = math.parse(`(${f2.toString()})^2`);
-
-        const normF1 = Math.sqrt(simpsonsRule(x => normF1SqIntegrand.evaluate({ x }), interval[0], interval[1]));
-        const normF2 = Math.sqrt(simpsonsRule(x => normF2SqIntegrand.evaluate({ x }), interval[0], interval[1]));
-
-        if (normF1 === 0 || normF2 === 0) {
-            return { angle: null, f1_final: f1, f2_final: f2 };
+        const normF1Sq = normF1SqResult.value;
+        const normF2Sq = normF2SqResult.value;
+        if (normF1Sq <= 0 || normF2Sq <= 0) {
+            return { angle: null, f1_final: f1, f2_final: f2, rejection: 'zero norm' };
+        }
+        const normF1 = Math.sqrt(normF1Sq);
+        const normF2 = Math.sqrt(normF2Sq);
+
+        const cosTheta = Math.max(-1, Math.min(1, innerProduct / (normF1 * normF2)));
+        const angleDeg = Math.acos(cosTheta) * (180 / Math.PI);
+
+        // First-order propagation of the quadrature errors into cos(theta), then into degrees.
+        const cosError = innerProductResult.errorEstimate / (normF1 * normF2)
+            + Math.abs(cosTheta) / 2 * (normF1SqResult.errorEstimate / normF1Sq + normF2SqResult.errorEstimate / normF2Sq);
+        const angleError = Math.max(
+            Math.abs(Math.acos(Math.max(-1, cosTheta - cosError)) * (180 / Math.PI) - angleDeg),
+            Math.abs(Math.acos(Math.min(1, cosTheta + cosError)) * (180 / Math.PI) - angleDeg)
+        );
+        if (!(angleError <= MAX_ANGLE_ERROR)) {
+            return { angle: null, f1_final: f1, f2_final: f2, angleError, rejection: `angle error of ±${angleError.toFixed(3)}° is too large` };
         }
 
-        let cosTheta = innerProduct / (normF1 * normF2);
-        cosTheta = Math.max(-1, Math.min(1, cosTheta));
-
-        const angleRad = Math.acos(cosTheta);
-        const angleDeg = angleRad * (180 / Math.PI);
-
-        return { angle: angleDeg, f1_final: f1, f2_final: f2 };
+        return {
+            angle: angleDeg,
+            f1_final: f1,
+            f2_final: f2,
+            angleError,
+            breakdown: { normalisedFrom, flipped, innerProduct, normF1, normF2, cosTheta },
+        };
 
     } catch (error) {
         console.error("Error calculating angle:", error);
-        return { angle: null, f1_final: f1, f2_final: f2 };
+        return { angle: null, f1_final: f1, f2_final: f2, rejection: 'evaluation error' };
     }
 }
@@ -0,0 +1,59 @@
+import { clampStreakTolerance, DEFAULT_STREAK_TOLERANCE, GAME_MODES, getGameMode, isGameOver, summarizeGame } from './gameModes';
+
+const rounds = (...diffs: number[]) => diffs.map(diff => ({ diff, score: 100 - diff }));
+
+describe('getGameMode', () => {
+  test('falls back to endless for unknown or missing modes', () => {
+    expect(getGameMode(undefined).id).toBe('endless');
+    expect(getGameMode('bogus' as never).id).toBe('endless');
+    expect(getGameMode('match')).toBe(GAME_MODES.match);
+  });
+});
+
+describe('isGameOver', () => {
+  test('endless and time attack never end on rounds alone', () => {
+    const history = rounds(...Array(50).fill(90));
+    expect(isGameOver(GAME_MODES.endless, history, 20)).toBe(false);
+    expect(isGameOver(GAME_MODES.timeAttack, history, 20)).toBe(false);
+  });
+
+  test('a match ends after its last round', () => {
+    expect(isGameOver(GAME_MODES.match, rounds(...Array(9).fill(5)), 20)).toBe(false);
+    expect(isGameOver(GAME_MODES.match, rounds(...Array(10).fill(5)), 20)).toBe(true);
+  });
+
+  test('a streak ends on the first guess beyond the tolerance', () => {
+    expect(isGameOver(GAME_MODES.streak, [], 20)).toBe(false);
+    expect(isGameOver(GAME_MODES.streak, rounds(5, 20), 20)).toBe(false);
+    expect(isGameOver(GAME_MODES.streak, rounds(5, 20, 20.5), 20)).toBe(true);
+  });
+});
+
+describe('summarizeGame', () => {
+  test('totals the rounds played', () => {
+    const summary = summarizeGame(GAME_MODES.timeAttack, [
+      { diff: 10, score: 120, timeBonus: 25 },
+      { diff: 4, score: 95 },
+    ], 20);
+    expect(summary).toEqual({ rounds: 2, totalScore: 215, avgDiff: 7, bestDiff: 4, totalTimeBonus: 25, streak: null });
+  });
+
+  test('counts the streak before the miss', () => {
+    expect(summarizeGame(GAME_MODES.streak, rounds(3, 12, 40), 20).streak).toBe(2);
+  });
+
+  test('handles a game with no rounds', () => {
+    const summary = summarizeGame(GAME_MODES.timeAttack, [], 20);
+    expect(summary.avgDiff).toBeNull();
+    expect(summary.bestDiff).toBeNull();
+  });
+});
+
+describe('clampStreakTolerance', () => {
+  test('keeps the tolerance in range', () => {
+    expect(clampStreakTolerance(NaN)).toBe(DEFAULT_STREAK_TOLERANCE);
+    expect(clampStreakTolerance(0)).toBe(1);
+    expect(clampStreakTolerance(500)).toBe(90);
+    expect(clampStreakTolerance(12.4)).toBe(12);
+  });
+});
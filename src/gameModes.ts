@@ -0,0 +1,107 @@
+import { RoundData } from './components/Stats';
+
+// --- Game Modes ---
+// How a session ends. Endless keeps going until the player stops; the others end in a game-over
+// summary. Time attack is the only timed mode and rewards quick guesses with a time bonus.
+// Training is endless too, but picks each round from the player's weak spots (see training.ts).
+
+export type GameModeId = 'endless' | 'match' | 'timeAttack' | 'streak' | 'training';
+
+export interface GameModeDefinition {
+    id: GameModeId;
+    label: string;
+    description: string;
+    rounds?: number;
+    timeLimitMs?: number;
+    // Ends the game on a guess further off than the player's streak tolerance.
+    endsOnMiss?: boolean;
+    hasTimeBonus?: boolean;
+    // Has no end of its own, so a session's total only says how long it went on.
+    isOpenEnded?: boolean;
+}
+
+export const DEFAULT_GAME_MODE: GameModeId = 'endless';
+export const DEFAULT_STREAK_TOLERANCE = 20;
+export const MIN_STREAK_TOLERANCE = 1;
+export const MAX_STREAK_TOLERANCE = 90;
+
+export const GAME_MODES: Record<GameModeId, GameModeDefinition> = {
+    endless: {
+        id: 'endless',
+        label: 'Endless',
+        description: 'Play as many rounds as you like.',
+        isOpenEnded: true,
+    },
+    match: {
+        id: 'match',
+        label: '10-Round Match',
+        description: 'Ten rounds, then see how you did.',
+        rounds: 10,
+    },
+    timeAttack: {
+        id: 'timeAttack',
+        label: 'Time Attack',
+        description: 'As many rounds as you can in 60 seconds. Quick guesses earn a bonus.',
+        timeLimitMs: 60_000,
+        hasTimeBonus: true,
+    },
+    streak: {
+        id: 'streak',
+        label: 'Streak',
+        description: 'Keep going until a guess is too far off.',
+        endsOnMiss: true,
+    },
+    training: {
+        id: 'training',
+        label: 'Training',
+        description: 'Endless rounds aimed at the angles and kinds of functions you find hardest.',
+        isOpenEnded: true,
+    },
+};
+
+export function getGameMode(id: GameModeId | undefined): GameModeDefinition {
+    return GAME_MODES[id ?? DEFAULT_GAME_MODE] ?? GAME_MODES[DEFAULT_GAME_MODE];
+}
+
+// Falls back to the default for a cleared or non-numeric input.
+export function clampStreakTolerance(tolerance: number): number {
+    if (!Number.isFinite(tolerance)) return DEFAULT_STREAK_TOLERANCE;
+    return Math.min(MAX_STREAK_TOLERANCE, Math.max(MIN_STREAK_TOLERANCE, Math.round(tolerance)));
+}
+
+export const isMiss = (diff: number, streakTolerance: number): boolean => diff > streakTolerance;
+
+// Whether the session is over after the rounds played so far (time running out is handled by
+// the countdown instead).
+export function isGameOver(mode: GameModeDefinition, history: Pick<RoundData, 'diff'>[], streakTolerance: number): boolean {
+    if (mode.rounds !== undefined && history.length >= mode.rounds) return true;
+    if (mode.endsOnMiss && history.length > 0 && isMiss(history[history.length - 1].diff, streakTolerance)) return true;
+    return false;
+}
+
+// --- Summary ---
+export interface GameSummary {
+    rounds: number;
+    totalScore: number;
+    avgDiff: number | null;
+    bestDiff: number | null;
+    totalTimeBonus: number;
+    // Rounds within the tolerance before the miss (streak mode only).
+    streak: number | null;
+}
+
+export function summarizeGame(
+    mode: GameModeDefinition,
+    history: Pick<RoundData, 'diff' | 'score' | 'timeBonus'>[],
+    streakTolerance: number
+): GameSummary {
+    const diffs = history.map(round => round.diff);
+    return {
+        rounds: history.length,
+        totalScore: history.reduce((acc, round) => acc + round.score, 0),
+        avgDiff: diffs.length > 0 ? diffs.reduce((a, b) => a + b, 0) / diffs.length : null,
+        bestDiff: diffs.length > 0 ? Math.min(...diffs) : null,
+        totalTimeBonus: history.reduce((acc, round) => acc + (round.timeBonus ?? 0), 0),
+        streak: mode.endsOnMiss ? diffs.filter(diff => !isMiss(diff, streakTolerance)).length : null,
+    };
+}
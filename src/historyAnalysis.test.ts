@@ -0,0 +1,31 @@
+import { RoundData } from './components/Stats';
+import { angleHistogram, bucketErrorsByAngle, rollingAverage } from './historyAnalysis';
+
+const round = (guess: number, actual: number): RoundData => ({
+  guess,
+  actual,
+  diff: Math.abs(guess - actual),
+  score: 0,
+  isEasy: false,
+  seed: 0,
+});
+
+test('rollingAverage averages over a trailing window', () => {
+  expect(rollingAverage([2, 4, 6, 8], 2)).toEqual([2, 3, 5, 7]);
+  expect(rollingAverage([])).toEqual([]);
+});
+
+test('bucketErrorsByAngle reports the signed bias per angle bucket', () => {
+  const history = [round(50, 20), round(40, 20), round(150, 170), round(90, 180)];
+  const buckets = bucketErrorsByAngle(history, 180, 30);
+
+  expect(buckets).toHaveLength(6);
+  expect(buckets[0]).toMatchObject({ label: '0–30°', count: 2, meanSignedError: 25, meanAbsError: 25 });
+  expect(buckets[5]).toMatchObject({ count: 2, meanSignedError: -55 });
+  expect(buckets[2]).toMatchObject({ count: 0, meanSignedError: null });
+});
+
+test('angleHistogram counts angles per bin', () => {
+  const bins = angleHistogram([0, 5, 10, 89.9, 90], 90, 30);
+  expect(bins.map(b => [b.from, b.to, b.count])).toEqual([[0, 30, 3], [30, 60, 0], [60, 90, 2]]);
+});
@@ -0,0 +1,63 @@
+import { RoundData } from './components/Stats';
+
+// --- History Analysis ---
+// Series derived from a list of rounds, used by the Stats charts.
+
+export const ROLLING_WINDOW = 5;
+export const ANGLE_BUCKET_SIZE = 30;
+
+// Average of the last `window` values at each position (fewer at the start).
+export function rollingAverage(values: number[], window: number = ROLLING_WINDOW): number[] {
+    return values.map((_, i) => {
+        const slice = values.slice(Math.max(0, i - window + 1), i + 1);
+        return slice.reduce((acc, v) => acc + v, 0) / slice.length;
+    });
+}
+
+export interface HistogramBin {
+    from: number;
+    to: number;
+    count: number;
+}
+
+// Counts of angles per bin over [0, maxAngle]; maxAngle itself falls in the last bin.
+export function angleHistogram(angles: number[], maxAngle: number = 180, binSize: number = 10): HistogramBin[] {
+    const bins: HistogramBin[] = [];
+    for (let from = 0; from < maxAngle; from += binSize) {
+        bins.push({ from, to: Math.min(maxAngle, from + binSize), count: 0 });
+    }
+    angles.forEach(angle => {
+        const index = Math.min(bins.length - 1, Math.max(0, Math.floor(angle / binSize)));
+        bins[index].count++;
+    });
+    return bins;
+}
+
+export interface AngleBucket {
+    label: string;
+    from: number;
+    to: number;
+    count: number;
+    // Mean of guess - actual: positive means guessing too wide, negative too narrow.
+    meanSignedError: number | null;
+    meanAbsError: number | null;
+}
+
+export function bucketErrorsByAngle(history: RoundData[], maxAngle: number = 180, bucketSize: number = ANGLE_BUCKET_SIZE): AngleBucket[] {
+    const buckets: AngleBucket[] = [];
+    for (let from = 0; from < maxAngle; from += bucketSize) {
+        const to = Math.min(maxAngle, from + bucketSize);
+        const isLast = to === maxAngle;
+        const rounds = history.filter(r => r.actual >= from && (r.actual < to || (isLast && r.actual <= to)));
+        const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null);
+        buckets.push({
+            label: `${from}–${to}°`,
+            from,
+            to,
+            count: rounds.length,
+            meanSignedError: mean(rounds.map(r => r.guess - r.actual)),
+            meanAbsError: mean(rounds.map(r => r.diff)),
+        });
+    }
+    return buckets;
+}
@@ -0,0 +1,149 @@
+import { AppSettings } from './App';
+import { exportHistoryCsv, exportHistoryJson, HistoryImportError, parseHistoryCsv, parseHistoryJson } from './historyExport';
+import { GameSession } from './sessionStore';
+
+const settings: AppSettings = {
+  isDarkMode: true,
+  isUnitaryMode: true,
+  acuteAnglesOnly: false,
+  isEasyInterval: true,
+  innerProduct: 'l2',
+  isVectorMode: false,
+  vectorDimension: 3,
+  difficulty: 'standard',
+  gameMode: 'endless',
+  streakTolerance: 20,
+  players: [],
+  isPlotInteractive: false,
+  isLineStyled: false,
+  isSonified: false,
+  scoring: 'cubic',
+  isIntervalGuess: false,
+  lineThickness: 3,
+  func1Color: '#dc3232',
+  func2Color: '#3264dc',
+};
+
+const session: GameSession = {
+  id: 'abc-123',
+  startedAt: Date.UTC(2024, 0, 2, 3, 4, 5),
+  settings,
+  dailyKey: null,
+  rounds: [
+    { guess: 40, actual: 42.5, diff: 2.5, score: 95.5, isEasy: false, seed: 7, f1_expr: 'sin(x)', f2_expr: '(x ^ 2, 1)', f1_tex: '\\sin\\left(x\\right)', interval: [-1, 1], scoring: 'cubic' },
+    { guess: 90, actual: 90.2, diff: 0.2, score: 99.5, isEasy: true, seed: 8, guessRange: [85, 95] },
+  ],
+  totalScore: 195,
+};
+
+test('JSON export round-trips', () => {
+  const imported = parseHistoryJson(exportHistoryJson([session], settings), settings);
+  expect(imported).toEqual([session]);
+});
+
+test('CSV export round-trips the rules and rounds', () => {
+  const csv = exportHistoryCsv([session]);
+  expect(csv.split('\n')).toHaveLength(3);
+  expect(csv).toContain('"(x ^ 2, 1)"');
+
+  const [imported] = parseHistoryCsv(csv, { ...settings, isUnitaryMode: false });
+  // TeX is not part of the CSV; it can be regenerated from the expressions.
+  expect(imported.rounds).toEqual([{ ...session.rounds[0], f1_tex: undefined }, session.rounds[1]]);
+  expect(imported.settings.isUnitaryMode).toBe(true);
+  expect(imported.startedAt).toBe(session.startedAt);
+});
+
+test('rejects files that are not history exports', () => {
+  expect(() => parseHistoryJson('{"sessions": []}', settings)).toThrow(HistoryImportError);
+  expect(() => parseHistoryJson('not json', settings)).toThrow('not valid JSON');
+  expect(() => parseHistoryCsv('a,b,c\n1,2,3', settings)).toThrow('CSV header');
+});
+
+test('reports where a session is invalid', () => {
+  const broken = JSON.parse(exportHistoryJson([session], settings));
+  broken.sessions[0].rounds[1].guess = 'ninety';
+  expect(() => parseHistoryJson(JSON.stringify(broken), settings)).toThrow('Session 1, round 2: "guess" must be a number');
+
+  broken.sessions[0].rounds[1].guess = 90;
+  broken.sessions[0].rounds[0].interval = [1, -1];
+  expect(() => parseHistoryJson(JSON.stringify(broken), settings)).toThrow('"interval" must be an increasing pair');
+});
+
+test('sessions exported before inner products were selectable are L² sessions', () => {
+  const legacyCsv = exportHistoryCsv([session]).split('\n').map(line => line.replace(/(,[^,]*){11}$/, '')).join('\n');
+  const [imported] = parseHistoryCsv(legacyCsv, { ...settings, innerProduct: 'sobolev' });
+  expect(imported.settings.innerProduct).toBe('l2');
+
+  const hermite = parseHistoryCsv(exportHistoryCsv([{ ...session, settings: { ...settings, innerProduct: 'hermite' } }]), settings);
+  expect(hermite[0].settings.innerProduct).toBe('hermite');
+});
+
+test('sessions keep their scoring strategy, which was cubic before it was selectable', () => {
+  const gaussian = { ...session, settings: { ...settings, scoring: 'gaussian' as const }, rounds: [{ ...session.rounds[0], scoring: 'gaussian' as const }] };
+  const [fromCsv] = parseHistoryCsv(exportHistoryCsv([gaussian]), settings);
+  expect(fromCsv.settings.scoring).toBe('gaussian');
+  expect(fromCsv.rounds[0].scoring).toBe('gaussian');
+
+  const { scoring, ...legacySettings } = settings;
+  const legacySession = { ...session, settings: legacySettings as AppSettings };
+  const [fromJson] = parseHistoryJson(exportHistoryJson([legacySession], settings), { ...settings, scoring: 'linear' });
+  expect(fromJson.settings.scoring).toBe('cubic');
+
+  const broken = JSON.parse(exportHistoryJson([session], settings));
+  broken.sessions[0].rounds[0].scoring = 'quartic';
+  expect(() => parseHistoryJson(JSON.stringify(broken), settings)).toThrow('unknown scoring "quartic"');
+});
+
+test('sessions keep whether guesses were intervals', () => {
+  const intervalSession = { ...session, settings: { ...settings, isIntervalGuess: true } };
+  const [fromCsv] = parseHistoryCsv(exportHistoryCsv([intervalSession]), settings);
+  expect(fromCsv.settings.isIntervalGuess).toBe(true);
+
+  // Files from before the column existed only have guess ranges in interval sessions.
+  const legacyCsv = exportHistoryCsv([{ ...session, rounds: [session.rounds[1]] }]).split('\n').map(line => line.replace(/(,[^,]*){2}$/, '')).join('\n');
+  expect(parseHistoryCsv(legacyCsv, settings)[0].settings.isIntervalGuess).toBe(true);
+
+  const broken = JSON.parse(exportHistoryJson([session], settings));
+  broken.sessions[0].settings.isIntervalGuess = 'yes';
+  expect(() => parseHistoryJson(JSON.stringify(broken), settings)).toThrow('"settings.isIntervalGuess" must be a boolean');
+  broken.sessions[0].settings.isIntervalGuess = false;
+  broken.sessions[0].settings.players = [1, 2];
+  expect(() => parseHistoryJson(JSON.stringify(broken), settings)).toThrow('"settings.players" must be a list of names');
+});
+
+test('settings of the wrong type keep the current value', () => {
+  const broken = JSON.parse(exportHistoryJson([session], settings));
+  Object.assign(broken.sessions[0].settings, { lineThickness: 'thick', func1Color: { r: 255 }, func2Color: 'url(evil)', isDarkMode: 1, isSonified: true });
+  const [imported] = parseHistoryJson(JSON.stringify(broken), settings);
+  expect(imported.settings).toMatchObject({ lineThickness: 3, func1Color: '#dc3232', func2Color: '#3264dc', isDarkMode: true, isSonified: true });
+});
+
+test('hot-seat sessions keep their player', () => {
+  const playerSession = { ...session, player: 'Ann' };
+  expect(parseHistoryCsv(exportHistoryCsv([playerSession]), settings)[0].player).toBe('Ann');
+  expect(parseHistoryJson(exportHistoryJson([playerSession], settings), settings)[0].player).toBe('Ann');
+  expect(parseHistoryCsv(exportHistoryCsv([session]), settings)[0]).not.toHaveProperty('player');
+
+  const broken = JSON.parse(exportHistoryJson([playerSession], settings));
+  broken.sessions[0].player = 7;
+  expect(() => parseHistoryJson(JSON.stringify(broken), settings)).toThrow('"player" must be a string');
+});
+
+test('expressions are not exported as spreadsheet formulas', () => {
+  const negated = { ...session, rounds: [{ ...session.rounds[0], f1_expr: '-(sin(x))', f2_expr: '+x' }] };
+  const csv = exportHistoryCsv([negated]);
+  expect(csv).toContain(",'-(sin(x)),'+x,");
+  expect(parseHistoryCsv(csv, settings)[0].rounds[0]).toMatchObject({ f1_expr: '-(sin(x))', f2_expr: '+x' });
+});
+
+test('vector sessions keep their dimension', () => {
+  const vectorSession = { ...session, settings: { ...settings, isVectorMode: true, vectorDimension: 7 } };
+  const [fromCsv] = parseHistoryCsv(exportHistoryCsv([vectorSession]), settings);
+  expect(fromCsv.settings).toMatchObject({ isVectorMode: true, vectorDimension: 7 });
+
+  // Sessions from before vector mode existed were played with functions, whatever the current settings say.
+  const { isVectorMode, ...legacySettings } = settings;
+  const legacySession = { ...session, settings: legacySettings as AppSettings };
+  const [fromJson] = parseHistoryJson(exportHistoryJson([legacySession], settings), { ...settings, isVectorMode: true });
+  expect(fromJson.settings.isVectorMode).toBe(false);
+});
@@ -0,0 +1,360 @@
+import { AppSettings } from './App';
+import { RoundData } from './components/Stats';
+import { GameSession } from './sessionStore';
+import { describeMode } from './modes';
+import { INNER_PRODUCTS, DEFAULT_INNER_PRODUCT } from './innerProducts';
+import { clampDimension, MIN_DIMENSION, MAX_DIMENSION } from './vectors';
+import { DIFFICULTY_LEVELS, DEFAULT_DIFFICULTY } from './difficulty';
+import { GAME_MODES, DEFAULT_GAME_MODE, DEFAULT_STREAK_TOLERANCE } from './gameModes';
+import { SCORING_STRATEGIES, DEFAULT_SCORING } from './scoring';
+
+// --- History Import/Export ---
+// Versioned JSON keeps everything needed to re-render each round's plot (expressions plus
+// interval). CSV is a flat, one-row-per-round view for spreadsheets; importing it restores the
+// rules of each session but not its cosmetic settings.
+
+export const HISTORY_FORMAT = 'angulario-history';
+export const HISTORY_VERSION = 1;
+
+export interface HistoryExport {
+    format: typeof HISTORY_FORMAT;
+    version: number;
+    exportedAt: string;
+    settings: AppSettings;
+    sessions: GameSession[];
+}
+
+export class HistoryImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'HistoryImportError';
+    }
+}
+
+// --- Export ---
+export function exportHistoryJson(sessions: GameSession[], settings: AppSettings): string {
+    const data: HistoryExport = {
+        format: HISTORY_FORMAT,
+        version: HISTORY_VERSION,
+        exportedAt: new Date().toISOString(),
+        settings,
+        sessions: sessions.filter(s => s.rounds.length > 0),
+    };
+    return JSON.stringify(data, null, 2);
+}
+
+const CSV_COLUMNS = [
+    'session_id', 'started_at', 'daily_key', 'mode', 'is_unitary_mode', 'acute_angles_only', 'is_easy_interval',
+    'round', 'guess', 'actual', 'diff', 'score', 'is_easy', 'seed', 'f1', 'f2', 'interval_start', 'interval_end',
+    'inner_product', 'vector_dimension', 'difficulty', 'level', 'game_mode', 'streak_tolerance', 'time_bonus',
+    'guess_low', 'guess_high', 'scoring', 'is_interval_guess', 'player',
+] as const;
+
+// Files from older versions lack the columns that were added at the end later on.
+const MIN_CSV_COLUMNS = CSV_COLUMNS.indexOf('inner_product');
+
+function escapeCsvField(value: string): string {
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Spreadsheets run cells starting with one of these as formulas; expressions such as -(x^2) are
+// quoted so they stay text. The quote is dropped again on import.
+const FORMULA_PREFIX = /^[=+\-@]/;
+const quoteExpression = (expr: string) => (FORMULA_PREFIX.test(expr) ? `'${expr}` : expr);
+const unquoteExpression = (field: string) => (field.startsWith("'") ? field.slice(1) : field);
+
+export function exportHistoryCsv(sessions: GameSession[]): string {
+    const rows = sessions.flatMap(session => session.rounds.map((round, index) => [
+        session.id,
+        new Date(session.startedAt).toISOString(),
+        session.dailyKey ?? '',
+        describeMode(session.settings, session.dailyKey),
+        String(session.settings.isUnitaryMode),
+        String(session.settings.acuteAnglesOnly),
+        String(session.settings.isEasyInterval),
+        String(index + 1),
+        String(round.guess),
+        String(round.actual),
+        String(round.diff),
+        String(round.score),
+        String(round.isEasy),
+        String(round.seed),
+        quoteExpression(round.f1_expr ?? ''),
+        quoteExpression(round.f2_expr ?? ''),
+        round.interval ? String(round.interval[0]) : '',
+        round.interval ? String(round.interval[1]) : '',
+        session.settings.innerProduct ?? DEFAULT_INNER_PRODUCT,
+        session.settings.isVectorMode ? String(session.settings.vectorDimension) : '',
+        session.settings.difficulty ?? DEFAULT_DIFFICULTY,
+        round.level ?? '',
+        session.settings.gameMode ?? DEFAULT_GAME_MODE,
+        String(session.settings.streakTolerance ?? DEFAULT_STREAK_TOLERANCE),
+        round.timeBonus !== undefined ? String(round.timeBonus) : '',
+        round.guessRange ? String(round.guessRange[0]) : '',
+        round.guessRange ? String(round.guessRange[1]) : '',
+        round.scoring ?? '',
+        String(session.settings.isIntervalGuess ?? false),
+        session.player ?? '',
+    ]));
+    return [CSV_COLUMNS as readonly string[], ...rows].map(row => row.map(escapeCsvField).join(',')).join('\n');
+}
+
+// --- Validation ---
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+const isLevelId = (value: unknown): boolean => DIFFICULTY_LEVELS.some(level => level.id === value);
+const isScoringId = (value: unknown): boolean => typeof value === 'string' && value in SCORING_STRATEGIES;
+
+function validateRound(raw: unknown, where: string): RoundData {
+    if (!isObject(raw)) throw new HistoryImportError(`${where} is not an object`);
+    for (const key of ['guess', 'actual', 'diff', 'score', 'seed']) {
+        if (!isNumber(raw[key])) throw new HistoryImportError(`${where}: "${key}" must be a number`);
+    }
+    if (typeof raw.isEasy !== 'boolean') throw new HistoryImportError(`${where}: "isEasy" must be a boolean`);
+
+    const round: RoundData = {
+        guess: raw.guess as number,
+        actual: raw.actual as number,
+        diff: raw.diff as number,
+        score: raw.score as number,
+        isEasy: raw.isEasy,
+        seed: raw.seed as number,
+    };
+    if (raw.f1_expr !== undefined || raw.f2_expr !== undefined || raw.interval !== undefined) {
+        const { f1_expr, f2_expr, interval } = raw;
+        if (typeof f1_expr !== 'string' || typeof f2_expr !== 'string') {
+            throw new HistoryImportError(`${where}: "f1_expr" and "f2_expr" must be strings`);
+        }
+        if (!Array.isArray(interval) || interval.length !== 2 || !interval.every(isNumber) || interval[0] >= interval[1]) {
+            throw new HistoryImportError(`${where}: "interval" must be an increasing pair of numbers`);
+        }
+        Object.assign(round, { f1_expr, f2_expr, interval: [interval[0], interval[1]] });
+    }
+    if (raw.timeBonus !== undefined) {
+        if (!isNumber(raw.timeBonus)) throw new HistoryImportError(`${where}: "timeBonus" must be a number`);
+        round.timeBonus = raw.timeBonus;
+    }
+    if (raw.guessRange !== undefined) {
+        const { guessRange } = raw;
+        if (!Array.isArray(guessRange) || guessRange.length !== 2 || !guessRange.every(isNumber) || guessRange[0] > guessRange[1]) {
+            throw new HistoryImportError(`${where}: "guessRange" must be an ordered pair of numbers`);
+        }
+        round.guessRange = [guessRange[0], guessRange[1]];
+    }
+    if (raw.scoring !== undefined) {
+        if (!isScoringId(raw.scoring)) throw new HistoryImportError(`${where}: unknown scoring "${String(raw.scoring)}"`);
+        round.scoring = raw.scoring as RoundData['scoring'];
+    }
+    if (raw.level !== undefined) {
+        if (!isLevelId(raw.level)) throw new HistoryImportError(`${where}: unknown difficulty level "${String(raw.level)}"`);
+        round.level = raw.level as RoundData['level'];
+    }
+    for (const key of ['f1_tex', 'f2_tex'] as const) {
+        if (raw[key] === undefined) continue;
+        if (typeof raw[key] !== 'string') throw new HistoryImportError(`${where}: "${key}" must be a string`);
+        round[key] = raw[key] as string;
+    }
+    return round;
+}
+
+// Settings without rules of their own (mostly display ones) are only taken over with the type the
+// app expects; anything else keeps the current value.
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+function isValidSetting(key: keyof AppSettings, value: unknown, baseSettings: AppSettings): boolean {
+    if (typeof value !== typeof baseSettings[key]) return false;
+    if (typeof value === 'number') return isFinite(value);
+    if (key === 'func1Color' || key === 'func2Color') return HEX_COLOR.test(value as string);
+    return true;
+}
+
+function validateSettings(raw: unknown, where: string, baseSettings: AppSettings): AppSettings {
+    if (!isObject(raw)) throw new HistoryImportError(`${where}: "settings" is not an object`);
+    for (const key of ['isUnitaryMode', 'acuteAnglesOnly', 'isEasyInterval']) {
+        if (typeof raw[key] !== 'boolean') throw new HistoryImportError(`${where}: "settings.${key}" must be a boolean`);
+    }
+    // Sessions without an inner product were played before it was selectable, i.e. in L².
+    const innerProduct = raw.innerProduct ?? DEFAULT_INNER_PRODUCT;
+    if (typeof innerProduct !== 'string' || !(innerProduct in INNER_PRODUCTS)) {
+        throw new HistoryImportError(`${where}: unknown inner product "${String(innerProduct)}"`);
+    }
+    const isVectorMode = raw.isVectorMode ?? false;
+    if (typeof isVectorMode !== 'boolean') throw new HistoryImportError(`${where}: "settings.isVectorMode" must be a boolean`);
+    if (isVectorMode && !(isNumber(raw.vectorDimension) && raw.vectorDimension === clampDimension(raw.vectorDimension))) {
+        throw new HistoryImportError(`${where}: "settings.vectorDimension" must be an integer from ${MIN_DIMENSION} to ${MAX_DIMENSION}`);
+    }
+    const difficulty = raw.difficulty ?? DEFAULT_DIFFICULTY;
+    if (difficulty !== 'auto' && !isLevelId(difficulty)) {
+        throw new HistoryImportError(`${where}: unknown difficulty "${String(difficulty)}"`);
+    }
+    const gameMode = raw.gameMode ?? DEFAULT_GAME_MODE;
+    if (typeof gameMode !== 'string' || !(gameMode in GAME_MODES)) throw new HistoryImportError(`${where}: unknown game mode "${String(gameMode)}"`);
+    const streakTolerance = raw.streakTolerance ?? DEFAULT_STREAK_TOLERANCE;
+    if (!isNumber(streakTolerance)) throw new HistoryImportError(`${where}: "settings.streakTolerance" must be a number`);
+    // Sessions without a scoring strategy were played before it was selectable, i.e. cubic.
+    const scoring = raw.scoring ?? DEFAULT_SCORING;
+    if (!isScoringId(scoring)) throw new HistoryImportError(`${where}: unknown scoring "${String(scoring)}"`);
+    // Sessions from before interval guesses and hot-seat play were solo point-guess sessions.
+    const isIntervalGuess = raw.isIntervalGuess ?? false;
+    if (typeof isIntervalGuess !== 'boolean') throw new HistoryImportError(`${where}: "settings.isIntervalGuess" must be a boolean`);
+    const players = raw.players ?? [];
+    if (!Array.isArray(players) || !players.every(name => typeof name === 'string')) {
+        throw new HistoryImportError(`${where}: "settings.players" must be a list of names`);
+    }
+    const known = (Object.keys(baseSettings) as (keyof AppSettings)[])
+        .filter(key => key in raw && isValidSetting(key, raw[key], baseSettings))
+        .map(key => [key, raw[key]]);
+    return {
+        ...baseSettings,
+        ...Object.fromEntries(known),
+        innerProduct,
+        isVectorMode,
+        difficulty: difficulty as AppSettings['difficulty'],
+        gameMode: gameMode as AppSettings['gameMode'],
+        streakTolerance,
+        scoring: scoring as AppSettings['scoring'],
+        isIntervalGuess,
+        players,
+    };
+}
+
+function validateSession(raw: unknown, where: string, baseSettings: AppSettings): GameSession {
+    if (!isObject(raw)) throw new HistoryImportError(`${where} is not an object`);
+    if (typeof raw.id !== 'string' || raw.id === '') throw new HistoryImportError(`${where}: "id" must be a non-empty string`);
+    if (!isNumber(raw.startedAt)) throw new HistoryImportError(`${where}: "startedAt" must be a timestamp`);
+    if (raw.dailyKey !== null && typeof raw.dailyKey !== 'string') throw new HistoryImportError(`${where}: "dailyKey" must be a string or null`);
+    if (raw.player !== undefined && typeof raw.player !== 'string') throw new HistoryImportError(`${where}: "player" must be a string`);
+    if (!Array.isArray(raw.rounds)) throw new HistoryImportError(`${where}: "rounds" must be an array`);
+
+    const rounds = raw.rounds.map((round, i) => validateRound(round, `${where}, round ${i + 1}`));
+    return {
+        id: raw.id,
+        startedAt: raw.startedAt,
+        settings: validateSettings(raw.settings, where, baseSettings),
+        dailyKey: raw.dailyKey as string | null,
+        ...(typeof raw.player === 'string' && { player: raw.player }),
+        rounds,
+        totalScore: rounds.reduce((acc, r) => acc + r.score, 0),
+    };
+}
+
+// --- Import ---
+export function parseHistoryJson(text: string, baseSettings: AppSettings): GameSession[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new HistoryImportError('File is not valid JSON');
+    }
+    if (!isObject(data) || data.format !== HISTORY_FORMAT) throw new HistoryImportError('File is not an Angulário history export');
+    if (!isNumber(data.version) || data.version > HISTORY_VERSION) {
+        throw new HistoryImportError(`Unsupported history version ${String(data.version)}`);
+    }
+    if (!Array.isArray(data.sessions)) throw new HistoryImportError('"sessions" must be an array');
+    return data.sessions.map((session, i) => validateSession(session, `Session ${i + 1}`, baseSettings));
+}
+
+function parseCsvRows(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(f => f !== ''));
+}
+
+export function parseHistoryCsv(text: string, baseSettings: AppSettings): GameSession[] {
+    const [header, ...rows] = parseCsvRows(text);
+    if (!header || header.length < MIN_CSV_COLUMNS || header.length > CSV_COLUMNS.length || header.some((column, i) => column !== CSV_COLUMNS[i])) {
+        throw new HistoryImportError(`CSV header must be: ${CSV_COLUMNS.join(',')}`);
+    }
+
+    const sessions = new Map<string, Record<string, unknown>>();
+    rows.forEach((fields, i) => {
+        const where = `CSV line ${i + 2}`;
+        if (fields.length !== header.length) throw new HistoryImportError(`${where} has ${fields.length} fields, expected ${header.length}`);
+        const get = (column: typeof CSV_COLUMNS[number]) => fields[CSV_COLUMNS.indexOf(column)];
+        const toBoolean = (column: typeof CSV_COLUMNS[number]) => {
+            const value = get(column);
+            if (value !== 'true' && value !== 'false') throw new HistoryImportError(`${where}: "${column}" must be true or false`);
+            return value === 'true';
+        };
+
+        const id = get('session_id');
+        if (!sessions.has(id)) {
+            sessions.set(id, {
+                id,
+                startedAt: Date.parse(get('started_at')),
+                dailyKey: get('daily_key') || null,
+                ...(get('player') && { player: get('player') }),
+                settings: {
+                    isUnitaryMode: toBoolean('is_unitary_mode'),
+                    acuteAnglesOnly: toBoolean('acute_angles_only'),
+                    isEasyInterval: toBoolean('is_easy_interval'),
+                    innerProduct: get('inner_product') || undefined,
+                    ...(get('vector_dimension') && { isVectorMode: true, vectorDimension: Number(get('vector_dimension')) }),
+                    difficulty: get('difficulty') || undefined,
+                    gameMode: get('game_mode') || undefined,
+                    streakTolerance: get('streak_tolerance') ? Number(get('streak_tolerance')) : undefined,
+                    // Each round records its strategy, and a session is played under one.
+                    scoring: get('scoring') || undefined,
+                    // Files without the column only have guess ranges in interval sessions.
+                    isIntervalGuess: get('is_interval_guess') ? toBoolean('is_interval_guess') : get('guess_low') !== '',
+                },
+                rounds: [],
+            });
+        }
+        const hasExpressions = get('f1') !== '' || get('f2') !== '';
+        (sessions.get(id)!.rounds as unknown[]).push({
+            guess: Number(get('guess')),
+            actual: Number(get('actual')),
+            diff: Number(get('diff')),
+            score: Number(get('score')),
+            isEasy: toBoolean('is_easy'),
+            seed: Number(get('seed')),
+            ...(get('level') && { level: get('level') }),
+            ...(get('time_bonus') && { timeBonus: Number(get('time_bonus')) }),
+            ...(get('guess_low') && { guessRange: [Number(get('guess_low')), Number(get('guess_high'))] }),
+            ...(get('scoring') && { scoring: get('scoring') }),
+            ...(hasExpressions && {
+                f1_expr: unquoteExpression(get('f1')),
+                f2_expr: unquoteExpression(get('f2')),
+                interval: [Number(get('interval_start')), Number(get('interval_end'))],
+            }),
+        });
+    });
+
+    return Array.from(sessions.values()).map(session => validateSession(session, `Session ${String(session.id)}`, baseSettings));
+}
+
+export function parseHistoryFile(fileName: string, text: string, baseSettings: AppSettings): GameSession[] {
+    return fileName.toLowerCase().endsWith('.csv') ? parseHistoryCsv(text, baseSettings) : parseHistoryJson(text, baseSettings);
+}
@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react';
+
+// Milliseconds left until `deadline` (a Date.now() timestamp), updated every `interval` ms.
+// Returns null without a deadline and stops at 0.
+export const useCountdown = (deadline: number | null, interval: number = 200) => {
+  const [timeLeft, setTimeLeft] = useState<number | null>(deadline === null ? null : Math.max(0, deadline - Date.now()));
+
+  useEffect(() => {
+    if (deadline === null) {
+      setTimeLeft(null);
+      return;
+    }
+
+    const tick = () => {
+      const left = Math.max(0, deadline - Date.now());
+      setTimeLeft(left);
+      if (left === 0) clearInterval(timer);
+    };
+    const timer = setInterval(tick, interval);
+    tick();
+
+    return () => clearInterval(timer);
+  }, [deadline, interval]);
+
+  return timeLeft;
+};
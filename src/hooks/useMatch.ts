@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { Match, MatchState } from '../multiplayer/match';
+
+// The match's current state, re-rendering on every change. Null without a match.
+export const useMatch = (match: Match | null): MatchState | null => {
+  const [state, setState] = useState<MatchState | null>(match?.getState() ?? null);
+
+  useEffect(() => {
+    setState(match?.getState() ?? null);
+    return match?.subscribe(setState);
+  }, [match]);
+
+  return state;
+};
@@ -0,0 +1,56 @@
+import React, { useCallback, useEffect, useId, useRef } from 'react';
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), summary, [tabindex]:not([tabindex="-1"])';
+
+const focusableIn = (element: HTMLElement): HTMLElement[] =>
+  Array.from(element.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(el => el.offsetParent !== null || el === document.activeElement);
+
+// Dialog behaviour for a modal's content box: focus moves into it on open and back to whatever
+// had it on close, Tab cycles within it, and Escape closes it. Spread `dialogProps` on the content
+// element and `titleProps` on its heading. Keys are handled on the dialog itself (rather than the
+// window) so a modal opened from inside another only closes the innermost one.
+export const useModal = (isOpen: boolean, onClose: () => void) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const titleId = useId();
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    ref.current?.focus();
+    return () => previous?.focus();
+  }, [isOpen]);
+
+  const onKeyDown = useCallback((e: React.KeyboardEvent) => {
+    const dialog = ref.current;
+    if (!dialog) return;
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      onCloseRef.current();
+      return;
+    }
+    if (e.key !== 'Tab') return;
+    e.stopPropagation();
+    const focusable = focusableIn(dialog);
+    if (focusable.length === 0) {
+      e.preventDefault();
+      return;
+    }
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    const active = document.activeElement;
+    if (e.shiftKey && (active === first || active === dialog)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && active === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  }, []);
+
+  return {
+    dialogProps: { ref, role: 'dialog', 'aria-modal': true, 'aria-labelledby': titleId, tabIndex: -1, onKeyDown },
+    titleProps: { id: titleId },
+  };
+};
@@ -0,0 +1,72 @@
+import { renderHook, waitFor } from '@testing-library/react';
+import { generateRound } from '../roundEngine';
+import { createRoundWorker } from '../worker/createRoundWorker';
+import { GenerateRoundRequest } from '../worker/roundProtocol';
+import { RoundRequest, useRoundGenerator } from './useRoundGenerator';
+
+jest.mock('../worker/createRoundWorker', () => ({ createRoundWorker: jest.fn() }));
+
+// Stands in for the round worker; the test decides when (and how) it answers.
+class FakeWorker {
+  posted: GenerateRoundRequest[] = [];
+  onmessage: ((e: { data: unknown }) => void) | null = null;
+  onmessageerror: (() => void) | null = null;
+  onerror: ((e: Partial<ErrorEvent>) => void) | null = null;
+  terminate = jest.fn();
+  postMessage(request: GenerateRoundRequest) {
+    this.posted.push(request);
+  }
+  reply(request: GenerateRoundRequest) {
+    const { round, plot } = generateRound(request.rules, request.history, request.seed);
+    this.onmessage!({ data: { type: 'round', requestId: request.requestId, round, plot } });
+  }
+}
+
+const rules = { isUnitaryMode: false, acuteAnglesOnly: false, isEasyInterval: false, innerProduct: 'l2' as const, isVectorMode: true, vectorDimension: 3, difficulty: 'standard' as const };
+const request = (seed: number): RoundRequest => ({ rules, history: [], seed });
+
+let worker: FakeWorker;
+
+beforeEach(() => {
+  (global as unknown as { Worker: unknown }).Worker = FakeWorker;
+  (createRoundWorker as jest.Mock).mockImplementation(() => (worker = new FakeWorker()));
+});
+
+afterEach(() => {
+  delete (global as unknown as { Worker?: unknown }).Worker;
+});
+
+test('matches responses to requests by id', async () => {
+  const { result } = renderHook(() => useRoundGenerator());
+  const first = result.current.sampleRound(request(1));
+  const second = result.current.sampleRound(request(2));
+  await waitFor(() => expect(worker.posted).toHaveLength(2));
+
+  worker.reply(worker.posted[1]);
+  worker.reply(worker.posted[0]);
+  expect((await first).round.seed).toBe(1);
+  expect((await second).round.seed).toBe(2);
+});
+
+test('a crashed worker fails the rounds it was generating, and later rounds are generated on the main thread', async () => {
+  const { result } = renderHook(() => useRoundGenerator());
+  const pending = result.current.sampleRound(request(1));
+  await waitFor(() => expect(worker.posted).toHaveLength(1));
+
+  worker.onerror!({ message: 'out of memory' });
+  await expect(pending).rejects.toThrow('out of memory');
+  expect(worker.terminate).toHaveBeenCalled();
+
+  const payload = await result.current.sampleRound(request(2));
+  expect(payload).toEqual(generateRound(rules, [], 2));
+  expect(worker.posted).toHaveLength(1);
+});
+
+test('an unreadable response fails every pending round', async () => {
+  const { result } = renderHook(() => useRoundGenerator());
+  const rounds = [result.current.sampleRound(request(1)), result.current.sampleRound(request(2))];
+  await waitFor(() => expect(worker.posted).toHaveLength(2));
+
+  worker.onmessageerror!();
+  for (const round of rounds) await expect(round).rejects.toThrow('could not be read');
+});
@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { generateRound, RoundPayload } from '../roundEngine';
+import { GenerateRoundRequest, RoundWorkerResponse } from '../worker/roundProtocol';
+
+export type RoundRequest = Omit<GenerateRoundRequest, 'type' | 'requestId'>;
+
+type PendingRequest = {
+  resolve: (payload: RoundPayload) => void;
+  reject: (error: Error) => void;
+};
+
+const requestKey = (request: RoundRequest) => JSON.stringify(request);
+
+// Generates rounds in a Web Worker so the spinner keeps spinning on slow machines. Without worker
+// support (e.g. under Jest) rounds are generated on the main thread instead.
+export const useRoundGenerator = () => {
+  const workerRef = useRef<Promise<Worker | null> | null>(null);
+  const pendingRef = useRef(new Map<number, PendingRequest>());
+  const nextRequestIdRef = useRef(0);
+  const prefetchedRef = useRef<{ key: string; payload: Promise<RoundPayload> } | null>(null);
+
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return;
+    const pending = pendingRef.current;
+    const rejectAll = (error: Error) => {
+      pending.forEach(request => request.reject(error));
+      pending.clear();
+    };
+
+    const workerPromise = import('../worker/createRoundWorker')
+      .then(({ createRoundWorker }) => {
+        const worker = createRoundWorker();
+        worker.onmessage = (e: MessageEvent<RoundWorkerResponse>) => {
+          const response = e.data;
+          const request = pending.get(response.requestId);
+          if (!request) return;
+          pending.delete(response.requestId);
+          if (response.type === 'round') {
+            request.resolve({ round: response.round, plot: response.plot });
+          } else {
+            request.reject(new Error(response.message));
+          }
+        };
+        // A response that cannot be read has lost its request id, so every request fails.
+        worker.onmessageerror = () => rejectAll(new Error('The round generator sent a round that could not be read'));
+        // The worker failed to load or crashed: later rounds are generated on the main thread.
+        worker.onerror = (e: ErrorEvent) => {
+          console.error("Round worker failed, generating on the main thread", e.message);
+          worker.terminate();
+          if (workerRef.current === workerPromise) workerRef.current = Promise.resolve(null);
+          rejectAll(new Error(`The round generator failed${e.message ? `: ${e.message}` : ''}`));
+        };
+        return worker;
+      })
+      .catch(error => {
+        console.error("Failed to start the round worker, generating on the main thread", error);
+        return null;
+      });
+    workerRef.current = workerPromise;
+
+    return () => {
+      workerRef.current = null;
+      prefetchedRef.current = null;
+      workerPromise.then(worker => worker?.terminate());
+      rejectAll(new Error('Round generator was shut down'));
+    };
+  }, []);
+
+  const generateOnMainThread = (request: RoundRequest) =>
+    new Promise<RoundPayload>((resolve, reject) => {
+      // Give the spinner a chance to render before blocking the thread.
+      setTimeout(() => {
+        try {
+          resolve(generateRound(request.rules, request.history, request.seed, request.focus));
+        } catch (error) {
+          reject(error);
+        }
+      }, 50);
+    });
+
+  const generate = useCallback(async (request: RoundRequest): Promise<RoundPayload> => {
+    const worker = await workerRef.current;
+    if (!worker) return generateOnMainThread(request);
+
+    const requestId = nextRequestIdRef.current++;
+    return new Promise<RoundPayload>((resolve, reject) => {
+      pendingRef.current.set(requestId, { resolve, reject });
+      worker.postMessage({ type: 'generate', requestId, ...request });
+    });
+  }, []);
+
+  // Returns the pre-generated round if it was prefetched with the same request.
+  const requestRound = useCallback((request: RoundRequest): Promise<RoundPayload> => {
+    const prefetched = prefetchedRef.current;
+    prefetchedRef.current = null;
+    if (prefetched && prefetched.key === requestKey(request)) return prefetched.payload;
+    return generate(request);
+  }, [generate]);
+
+  const prefetchRound = useCallback((request: RoundRequest) => {
+    const payload = generate(request);
+    payload.catch(() => undefined); // Errors surface once the round is actually requested.
+    prefetchedRef.current = { key: requestKey(request), payload };
+  }, [generate]);
+
+  // `sampleRound` bypasses the prefetch slot, e.g. for generating rounds that are never played.
+  return useMemo(() => ({ requestRound, prefetchRound, sampleRound: generate }), [requestRound, prefetchRound, generate]);
+};
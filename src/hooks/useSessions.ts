@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import { GameSession, loadSessions, saveSession, saveSessions } from '../sessionStore';
+
+// Keeps the persisted sessions in memory and writes every update back to storage.
+export const useSessions = () => {
+  const [sessions, setSessions] = useState<GameSession[]>([]);
+  // Whether the stored sessions have been read (or failed to), so derived state such as the auto
+  // difficulty level can be trusted.
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSessions()
+      .then(loaded => {
+        if (cancelled) return;
+        // Keep anything recorded while loading; it is newer than what was stored.
+        setSessions(prev => {
+          const ids = new Set(prev.map(s => s.id));
+          return [...loaded.filter(s => !ids.has(s.id)), ...prev];
+        });
+      })
+      .catch(error => console.error("Failed to load sessions", error))
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const recordSession = useCallback((session: GameSession) => {
+    setSessions(prev => [...prev.filter(s => s.id !== session.id), session]);
+    saveSession(session).catch(error => console.error("Failed to save session", error));
+  }, []);
+
+  // Merges imported sessions into the local history; sessions with a known id are replaced.
+  const importSessions = useCallback((imported: GameSession[]) => {
+    const ids = new Set(imported.map(s => s.id));
+    setSessions(prev => [...prev.filter(s => !ids.has(s.id)), ...imported].sort((a, b) => a.startedAt - b.startedAt));
+    return saveSessions(imported);
+  }, []);
+
+  return { sessions, isLoaded, recordSession, importSessions };
+};
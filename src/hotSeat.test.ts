@@ -0,0 +1,67 @@
+import { AppSettings } from './App';
+import { RoundData } from './components/Stats';
+import { GAME_MODES } from './gameModes';
+import { createPlayerRecords, isHotSeat, isHotSeatGameOver, MAX_PLAYERS, rankPlayers, recordRound, resizePlayers, toPlayerSessions } from './hotSeat';
+
+const round = (diff: number, score = 100 - diff): RoundData => ({ guess: 0, actual: diff, diff, score, isEasy: false, seed: 0 });
+
+describe('players', () => {
+  test('two or more players make a hot-seat game', () => {
+    expect(isHotSeat([])).toBe(false);
+    expect(isHotSeat(['Ann'])).toBe(false);
+    expect(isHotSeat(['Ann', 'Bob'])).toBe(true);
+  });
+
+  test('resizing keeps names and fills empty seats', () => {
+    expect(resizePlayers(['Ann', 'Bob'], 3)).toEqual(['Ann', 'Bob', 'Player 3']);
+    expect(resizePlayers(['Ann', 'Bob', 'Cy'], 2)).toEqual(['Ann', 'Bob']);
+    expect(resizePlayers([], 20)).toHaveLength(MAX_PLAYERS);
+  });
+
+  test('blank names fall back to the seat', () => {
+    expect(createPlayerRecords(['Ann', '  ']).map(r => r.name)).toEqual(['Ann', 'Player 2']);
+  });
+});
+
+describe('recordRound', () => {
+  test('keeps each player\'s history and score separate', () => {
+    const records = recordRound(recordRound(createPlayerRecords(['Ann', 'Bob']), [round(5), round(30)]), [round(10), round(2)]);
+    expect(records[0].history.map(r => r.diff)).toEqual([5, 10]);
+    expect(records[1].history.map(r => r.diff)).toEqual([30, 2]);
+    expect(records.map(r => r.totalScore)).toEqual([185, 168]);
+  });
+});
+
+describe('isHotSeatGameOver', () => {
+  test('a match ends once everybody has played its rounds', () => {
+    let records = createPlayerRecords(['Ann', 'Bob']);
+    for (let i = 0; i < 9; i++) records = recordRound(records, [round(1), round(1)]);
+    expect(isHotSeatGameOver(GAME_MODES.match, records, 20)).toBe(false);
+    expect(isHotSeatGameOver(GAME_MODES.match, recordRound(records, [round(1), round(1)]), 20)).toBe(true);
+  });
+
+  test('a streak duel ends when anybody misses', () => {
+    const records = recordRound(createPlayerRecords(['Ann', 'Bob']), [round(5), round(15)]);
+    expect(isHotSeatGameOver(GAME_MODES.streak, records, 20)).toBe(false);
+    expect(isHotSeatGameOver(GAME_MODES.streak, recordRound(records, [round(5), round(25)]), 20)).toBe(true);
+    expect(isHotSeatGameOver(GAME_MODES.endless, recordRound(records, [round(90), round(90)]), 20)).toBe(false);
+  });
+});
+
+describe('rankPlayers', () => {
+  test('orders by total score and shares ranks on ties', () => {
+    const records = recordRound(createPlayerRecords(['Ann', 'Bob', 'Cy']), [round(50), round(10), round(10)]);
+    expect(rankPlayers(records).map(({ record, rank }) => [record.name, rank])).toEqual([['Bob', 1], ['Cy', 1], ['Ann', 3]]);
+  });
+});
+
+describe('toPlayerSessions', () => {
+  test('stores each player\'s rounds as a session of their own', () => {
+    const records = recordRound(recordRound(createPlayerRecords(['Ann', 'Bob']), [round(5), round(30)]), [round(10), round(2)]);
+    const session = { id: 'game', startedAt: 1, settings: {} as AppSettings, dailyKey: null };
+    const sessions = toPlayerSessions(session, records);
+    expect(sessions.map(s => [s.id, s.player, s.totalScore])).toEqual([['game-1', 'Ann', 185], ['game-2', 'Bob', 168]]);
+    expect(sessions[1].rounds).toBe(records[1].history);
+    expect(sessions.every(s => s.startedAt === 1 && s.dailyKey === null)).toBe(true);
+  });
+});
@@ -0,0 +1,79 @@
+import { RoundData } from './components/Stats';
+import { GameModeDefinition, isMiss } from './gameModes';
+import { ScoringStrategyId } from './scoring';
+import { GameSession } from './sessionStore';
+
+// --- Hot-Seat ---
+// Several players share one screen: everybody guesses the same round in turn, and each player's
+// rounds and score are kept separately. A single player is the normal solo game.
+
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 8;
+
+export interface PlayerGuess {
+    // Index into the player list.
+    player: number;
+    guess: number;
+    diff: number;
+    score: number;
+    timeBonus?: number;
+    guessRange?: [number, number];
+    scoring?: ScoringStrategyId;
+}
+
+export interface PlayerRecord {
+    name: string;
+    history: RoundData[];
+    totalScore: number;
+}
+
+export const defaultPlayerName = (index: number) => `Player ${index + 1}`;
+
+export const isHotSeat = (players: string[]) => players.length >= MIN_PLAYERS;
+
+// Resizes the player list, keeping existing names and naming new players by their seat.
+export function resizePlayers(players: string[], count: number): string[] {
+    const size = Math.min(MAX_PLAYERS, Math.max(0, Math.round(count)));
+    return Array.from({ length: size }, (_, i) => players[i] ?? defaultPlayerName(i));
+}
+
+export function createPlayerRecords(players: string[]): PlayerRecord[] {
+    return players.map((name, i) => ({ name: name.trim() || defaultPlayerName(i), history: [], totalScore: 0 }));
+}
+
+// Adds every player's round (in seat order, matching `rounds`) to their own record.
+export function recordRound(records: PlayerRecord[], rounds: RoundData[]): PlayerRecord[] {
+    return records.map((record, i) => ({
+        ...record,
+        history: [...record.history, rounds[i]],
+        totalScore: record.totalScore + rounds[i].score,
+    }));
+}
+
+// Each player's rounds are stored as a session of their own, so they count towards the stats,
+// the export and the leaderboard like a solo game.
+export function toPlayerSessions(session: Pick<GameSession, 'id' | 'startedAt' | 'settings' | 'dailyKey'>, records: PlayerRecord[]): GameSession[] {
+    return records.map((record, i) => ({
+        ...session,
+        id: `${session.id}-${i + 1}`,
+        player: record.name,
+        rounds: record.history,
+        totalScore: record.totalScore,
+    }));
+}
+
+// A match ends after its rounds; a streak duel ends as soon as anybody misses.
+export function isHotSeatGameOver(mode: GameModeDefinition, records: PlayerRecord[], streakTolerance: number): boolean {
+    const roundsPlayed = records[0]?.history.length ?? 0;
+    if (mode.rounds !== undefined && roundsPlayed >= mode.rounds) return true;
+    if (mode.endsOnMiss && roundsPlayed > 0) {
+        return records.some(record => isMiss(record.history[record.history.length - 1].diff, streakTolerance));
+    }
+    return false;
+}
+
+// Players by total score, best first. Players on the same score share a rank.
+export function rankPlayers(records: PlayerRecord[]): { record: PlayerRecord, rank: number }[] {
+    const sorted = [...records].sort((a, b) => b.totalScore - a.totalScore);
+    return sorted.map(record => ({ record, rank: sorted.findIndex(r => r.totalScore === record.totalScore) + 1 }));
+}
@@ -0,0 +1,55 @@
+// --- Inner Products ---
+// The geometry the angle is measured in. Weighted L² products multiply the integrand by a weight
+// function; the Sobolev H¹ product also compares the derivatives of f and g.
+
+export type InnerProductId = 'l2' | 'chebyshev' | 'laguerre' | 'hermite' | 'sobolev';
+
+export interface InnerProductDefinition {
+    id: InnerProductId;
+    label: string;
+    // Definition of <f, g> for the Info modal.
+    tex: string;
+    weight?: (x: number) => number;
+    usesDerivatives?: boolean;
+    // Where the weight is defined; rounds are played on exactly this interval.
+    domain?: [number, number];
+}
+
+export const DEFAULT_INNER_PRODUCT: InnerProductId = 'l2';
+
+export const INNER_PRODUCTS: Record<InnerProductId, InnerProductDefinition> = {
+    l2: {
+        id: 'l2',
+        label: 'L² (Legendre)',
+        tex: '\\langle f, g \\rangle = \\int_a^b f(x) g(x) \\mathrm dx',
+    },
+    chebyshev: {
+        id: 'chebyshev',
+        label: 'Chebyshev',
+        tex: '\\langle f, g \\rangle = \\int_{-1}^1 \\frac{f(x) g(x)}{\\sqrt{1 - x^2}} \\mathrm dx',
+        weight: x => 1 / Math.sqrt(1 - x * x),
+        domain: [-1, 1],
+    },
+    laguerre: {
+        id: 'laguerre',
+        label: 'Laguerre',
+        tex: '\\langle f, g \\rangle = \\int_a^b f(x) g(x) e^{-x} \\mathrm dx',
+        weight: x => Math.exp(-x),
+    },
+    hermite: {
+        id: 'hermite',
+        label: 'Hermite',
+        tex: '\\langle f, g \\rangle = \\int_a^b f(x) g(x) e^{-x^2} \\mathrm dx',
+        weight: x => Math.exp(-x * x),
+    },
+    sobolev: {
+        id: 'sobolev',
+        label: 'Sobolev H¹',
+        tex: '\\langle f, g \\rangle = \\int_a^b \\left( f(x) g(x) + f\'(x) g\'(x) \\right) \\mathrm dx',
+        usesDerivatives: true,
+    },
+};
+
+export function getInnerProduct(id: InnerProductId | undefined): InnerProductDefinition {
+    return INNER_PRODUCTS[id ?? DEFAULT_INNER_PRODUCT] ?? INNER_PRODUCTS[DEFAULT_INNER_PRODUCT];
+}
@@ -0,0 +1,65 @@
+import { computeCalibration, intervalScore, parseGuessRange, parsePartialRange, scoreInterval, INTERVAL_SCORE_SCALE } from './intervalGuess';
+
+describe('intervalScore', () => {
+  test('is the width when the angle is inside', () => {
+    expect(intervalScore(50, 70, 60)).toBe(20);
+    expect(intervalScore(50, 70, 50)).toBe(20);
+  });
+
+  test('charges 2/α per degree outside the range', () => {
+    // α = 0.2, so each degree outside costs 10.
+    expect(intervalScore(50, 70, 75)).toBeCloseTo(20 + 50);
+    expect(intervalScore(50, 70, 40)).toBeCloseTo(20 + 100);
+  });
+
+  test('rewards stating the honest 80% range over a narrower or wider one', () => {
+    // Uniform belief over [0, 100]: the honest 80% range is [10, 90].
+    const expected = (low: number, high: number) => {
+      let total = 0;
+      for (let x = 0; x <= 100; x += 0.5) total += intervalScore(low, high, x);
+      return total;
+    };
+    expect(expected(10, 90)).toBeLessThan(expected(20, 80));
+    expect(expected(10, 90)).toBeLessThan(expected(0, 100));
+  });
+});
+
+describe('scoreInterval', () => {
+  test('scores linearly in the interval score and records the midpoint as the guess', () => {
+    const { guess, diff, score } = scoreInterval(50, 70, 65);
+    expect(guess).toBe(60);
+    expect(diff).toBe(5);
+    expect(score).toBeCloseTo(100 * (1 - 20 / INTERVAL_SCORE_SCALE));
+  });
+
+  test('never goes below zero', () => {
+    expect(scoreInterval(0, 10, 180).score).toBe(0);
+  });
+});
+
+describe('parseGuessRange', () => {
+  test('orders the bounds and needs both of them', () => {
+    expect(parseGuessRange('70', '50')).toEqual([50, 70]);
+    expect(parseGuessRange('50', '')).toBeNull();
+  });
+
+  test('draws a single typed bound as an empty range', () => {
+    expect(parsePartialRange(['', '40'])).toEqual([40, 40]);
+    expect(parsePartialRange(['', ''])).toBeNull();
+  });
+});
+
+describe('computeCalibration', () => {
+  test('counts hits per width bucket and skips point guesses', () => {
+    const buckets = computeCalibration([
+      { actual: 60, guessRange: [55, 62] },
+      { actual: 60, guessRange: [61, 68] },
+      { actual: 60, guessRange: [30, 90] },
+      { actual: 60 },
+    ]);
+    expect(buckets).toEqual([
+      { minWidth: 0, maxWidth: 10, rounds: 2, hits: 1 },
+      { minWidth: 40, maxWidth: 80, rounds: 1, hits: 1 },
+    ]);
+  });
+});
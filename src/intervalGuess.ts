@@ -0,0 +1,77 @@
+import { RoundData } from './components/Stats';
+
+// --- Interval Guessing ---
+// Instead of a single angle the player states a range they are 80% sure contains the true angle.
+// Ranges are scored with the interval score of Gneiting & Raftery (2007): the width of the range,
+// plus 2/α times how far the true angle falls outside it. It is a proper scoring rule, so the best
+// strategy in the long run is to state one's honest 80% range (α = 0.2): too narrow and the misses
+// cost more than the width saves, too wide and the width costs more than it buys.
+
+export const INTERVAL_COVERAGE = 0.8;
+const ALPHA = 1 - INTERVAL_COVERAGE;
+
+// An interval score this large (e.g. the whole 0°-180° range, twice) is worth no points. Below
+// that, points fall linearly with the interval score. The floor at 0 caps the cost of a wild miss,
+// so strictly speaking the points are not a proper scoring rule; the interval score itself is.
+export const INTERVAL_SCORE_SCALE = 360;
+
+// Width buckets for the calibration table, in degrees (each bucket runs up to the next bound).
+export const CALIBRATION_WIDTHS = [0, 10, 20, 40, 80];
+
+export function intervalScore(low: number, high: number, actual: number): number {
+    const below = Math.max(0, low - actual);
+    const above = Math.max(0, actual - high);
+    return (high - low) + (2 / ALPHA) * (below + above);
+}
+
+// The midpoint stands in as the point guess, so the usual error statistics still apply.
+export function scoreInterval(low: number, high: number, actual: number): { guess: number, diff: number, score: number } {
+    const guess = (low + high) / 2;
+    const score = 100 * Math.max(0, 1 - intervalScore(low, high, actual) / INTERVAL_SCORE_SCALE);
+    return { guess, diff: Math.abs(actual - guess), score };
+}
+
+// Orders the two typed bounds; returns null unless both are numbers.
+export function parseGuessRange(low: string, high: string): [number, number] | null {
+    if (low === '' || high === '') return null;
+    const a = Number(low);
+    const b = Number(high);
+    if (isNaN(a) || isNaN(b)) return null;
+    return a <= b ? [a, b] : [b, a];
+}
+
+// For drawing a range while it is being typed: a single bound is drawn as an empty range.
+export function parsePartialRange([low, high]: [string, string]): [number, number] | null {
+    if (low === '' && high === '') return null;
+    return parseGuessRange(low === '' ? high : low, high === '' ? low : high);
+}
+
+export const isInside = ([low, high]: [number, number], actual: number) => actual >= low && actual <= high;
+
+// --- Calibration ---
+export interface CalibrationBucket {
+    // Range of interval widths in the bucket; `maxWidth` is null for the last, open-ended bucket.
+    minWidth: number;
+    maxWidth: number | null;
+    rounds: number;
+    hits: number;
+}
+
+// How often the true angle fell inside the stated range, for ranges of similar width. A calibrated
+// player hits about INTERVAL_COVERAGE of the time in every bucket.
+export function computeCalibration(history: Pick<RoundData, 'actual' | 'guessRange'>[]): CalibrationBucket[] {
+    const buckets: CalibrationBucket[] = CALIBRATION_WIDTHS.map((minWidth, i) => ({
+        minWidth,
+        maxWidth: CALIBRATION_WIDTHS[i + 1] ?? null,
+        rounds: 0,
+        hits: 0,
+    }));
+    for (const { actual, guessRange } of history) {
+        if (!guessRange) continue;
+        const width = guessRange[1] - guessRange[0];
+        const bucket = buckets.find(b => width >= b.minWidth && (b.maxWidth === null || width < b.maxWidth))!;
+        bucket.rounds++;
+        if (isInside(guessRange, actual)) bucket.hits++;
+    }
+    return buckets.filter(b => b.rounds > 0);
+}
@@ -0,0 +1,72 @@
+import { createLocalLeaderboardStore, createMemoryLeaderboardStore, insertEntry, LEADERBOARD_SIZE, LeaderboardEntry, MIN_AVERAGED_ROUNDS } from './leaderboard';
+
+const entry = (id: string, score: number, overrides: Partial<LeaderboardEntry> = {}): LeaderboardEntry => ({
+  id,
+  name: `Player ${id}`,
+  modeKey: 'plain-any-easy',
+  modeLabel: 'Easy Interval',
+  score,
+  rounds: 5,
+  playedAt: 1000,
+  ...overrides,
+});
+
+describe('insertEntry', () => {
+  test('ranks by score, then by who got there first', () => {
+    const { board } = insertEntry([entry('a', 300), entry('b', 200, { playedAt: 500 })], entry('c', 200));
+    expect(board.map(e => e.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  test('a session keeps a single entry as its score grows', () => {
+    const { board, rank } = insertEntry([entry('a', 300), entry('b', 200)], entry('b', 400));
+    expect(board.map(e => e.id)).toEqual(['b', 'a']);
+    expect(rank).toBe(1);
+  });
+
+  test('keeps only the top entries', () => {
+    const full = Array.from({ length: LEADERBOARD_SIZE }, (_, i) => entry(`e${i}`, 100 + i));
+    expect(insertEntry(full, entry('low', 50)).rank).toBeNull();
+    const { board, rank } = insertEntry(full, entry('high', 1000));
+    expect(board).toHaveLength(LEADERBOARD_SIZE);
+    expect(rank).toBe(1);
+    expect(board.some(e => e.id === 'e0')).toBe(false);
+  });
+
+  test('open-ended sessions rank by their average, once they are long enough', () => {
+    const averaged = (id: string, score: number, rounds: number) => entry(id, score, { rounds, isAveraged: true });
+    const { board } = insertEntry([averaged('long', 1500, 20)], averaged('short', 900, MIN_AVERAGED_ROUNDS));
+    expect(board.map(e => e.id)).toEqual(['short', 'long']);
+    expect(insertEntry(board, averaged('lucky', 500, MIN_AVERAGED_ROUNDS - 1))).toEqual({ board, rank: null });
+  });
+
+  test('a board ranked by averages drops the totals it held before', () => {
+    const { board } = insertEntry([entry('a', 3000)], entry('b', 900, { rounds: MIN_AVERAGED_ROUNDS, isAveraged: true }));
+    expect(board.map(e => e.id)).toEqual(['b']);
+  });
+});
+
+describe('LeaderboardStore', () => {
+  test('never mixes modes', async () => {
+    const store = createMemoryLeaderboardStore();
+    await store.submit(entry('a', 300));
+    await store.submit(entry('b', 900, { modeKey: 'unitary-any-easy', modeLabel: 'Unitary, Easy Interval' }));
+    expect((await store.getTop('plain-any-easy')).map(e => e.id)).toEqual(['a']);
+    expect((await store.getTop('unitary-any-easy')).map(e => e.id)).toEqual(['b']);
+    expect(await store.getTop('unknown')).toEqual([]);
+    expect(await store.getModes()).toEqual({ 'plain-any-easy': 'Easy Interval', 'unitary-any-easy': 'Unitary, Easy Interval' });
+  });
+
+  test('a session is only ever filed under one mode', async () => {
+    const store = createMemoryLeaderboardStore();
+    await store.submit(entry('a', 300));
+    await store.submit(entry('a', 400, { modeKey: 'plain-any-easy-expert', modeLabel: 'Easy Interval, Expert' }));
+    expect(await store.getTop('plain-any-easy')).toEqual([]);
+    expect(await store.getModes()).toEqual({ 'plain-any-easy-expert': 'Easy Interval, Expert' });
+  });
+
+  test('the local store persists across instances', async () => {
+    localStorage.clear();
+    expect(await createLocalLeaderboardStore().submit(entry('a', 300))).toBe(1);
+    expect(await createLocalLeaderboardStore().getTop('plain-any-easy')).toEqual([entry('a', 300)]);
+  });
+});
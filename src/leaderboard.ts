@@ -0,0 +1,104 @@
+// --- Leaderboards ---
+// The best sessions per mode (see modes.ts), so scores played under different rules are never
+// ranked against each other. Storage sits behind LeaderboardStore so a remote backend can replace
+// the local one without touching the UI.
+
+export interface LeaderboardEntry {
+    // The session the score belongs to; a session has at most one entry, updated as it goes on.
+    id: string;
+    name: string;
+    modeKey: string;
+    // Human-readable description of the mode, kept so boards can be listed without the rules.
+    modeLabel: string;
+    score: number;
+    rounds: number;
+    playedAt: number;
+    // Open-ended modes rank the average score per round instead of the total, which would only
+    // reward the longest session.
+    isAveraged?: boolean;
+}
+
+export interface LeaderboardStore {
+    // Best entries for the mode, highest score first.
+    getTop(modeKey: string): Promise<LeaderboardEntry[]>;
+    // Modes with at least one entry, keyed by mode key, with their labels.
+    getModes(): Promise<Record<string, string>>;
+    // Records (or updates) the entry, removing the session from any other board it was filed under.
+    // Resolves to its 1-based rank, or null if it didn't make the board.
+    submit(entry: LeaderboardEntry): Promise<number | null>;
+}
+
+export const LEADERBOARD_SIZE = 10;
+// An average over a handful of lucky rounds doesn't make the board.
+export const MIN_AVERAGED_ROUNDS = 10;
+export const DEFAULT_PLAYER_NAME = 'Player';
+const LOCAL_STORAGE_KEY = 'angulario-leaderboard';
+const PLAYER_NAME_KEY = 'angulario-player-name';
+
+export const rankingScore = (entry: LeaderboardEntry): number => (entry.isAveraged ? entry.score / entry.rounds : entry.score);
+
+// Higher scores first; ties go to whoever got there first.
+const byRank = (a: LeaderboardEntry, b: LeaderboardEntry) => rankingScore(b) - rankingScore(a) || a.playedAt - b.playedAt;
+
+// Inserts the entry into a board, replacing an older entry for the same session, and trims it.
+// Totals and averages are not comparable, so a board only keeps entries ranked like the new one.
+export function insertEntry(board: LeaderboardEntry[], entry: LeaderboardEntry, size = LEADERBOARD_SIZE): { board: LeaderboardEntry[], rank: number | null } {
+    const others = board.filter(e => e.id !== entry.id && !e.isAveraged === !entry.isAveraged);
+    if (entry.isAveraged && entry.rounds < MIN_AVERAGED_ROUNDS) return { board: others, rank: null };
+    const ranked = [...others, entry].sort(byRank).slice(0, size);
+    const index = ranked.findIndex(e => e.id === entry.id);
+    return { board: ranked, rank: index === -1 ? null : index + 1 };
+}
+
+type Boards = Record<string, LeaderboardEntry[]>;
+
+function boardsStore(read: () => Boards, write: (boards: Boards) => void): LeaderboardStore {
+    return {
+        async getTop(modeKey) {
+            return read()[modeKey] ?? [];
+        },
+        async getModes() {
+            const boards = read();
+            return Object.fromEntries(
+                Object.entries(boards).filter(([, board]) => board.length > 0).map(([key, board]) => [key, board[0].modeLabel])
+            );
+        },
+        async submit(entry) {
+            const boards = Object.fromEntries(
+                Object.entries(read()).map(([key, board]) => [key, board.filter(e => e.id !== entry.id)])
+            );
+            const { board, rank } = insertEntry(boards[entry.modeKey] ?? [], entry);
+            write({ ...boards, [entry.modeKey]: board });
+            return rank;
+        },
+    };
+}
+
+// In-memory store, used in tests and wherever nothing should persist.
+export function createMemoryLeaderboardStore(): LeaderboardStore {
+    let boards: Boards = {};
+    return boardsStore(() => boards, updated => {
+        boards = updated;
+    });
+}
+
+export function createLocalLeaderboardStore(storage: Storage = localStorage): LeaderboardStore {
+    return boardsStore(() => {
+        try {
+            const saved = storage.getItem(LOCAL_STORAGE_KEY);
+            return saved ? JSON.parse(saved) : {};
+        } catch (error) {
+            console.error("Failed to parse leaderboard from localStorage", error);
+            return {};
+        }
+    }, boards => storage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(boards)));
+}
+
+// --- Player Name ---
+export function loadPlayerName(): string {
+    return localStorage.getItem(PLAYER_NAME_KEY) || DEFAULT_PLAYER_NAME;
+}
+
+export function savePlayerName(name: string): void {
+    localStorage.setItem(PLAYER_NAME_KEY, name);
+}
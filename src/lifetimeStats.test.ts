@@ -0,0 +1,74 @@
+import { AppSettings } from './App';
+import { RoundData } from './components/Stats';
+import { computeLifetimeStats } from './lifetimeStats';
+import { getModeKey } from './modes';
+import { GameSession } from './sessionStore';
+
+const settings: AppSettings = {
+  isDarkMode: false,
+  isUnitaryMode: false,
+  acuteAnglesOnly: false,
+  isEasyInterval: true,
+  innerProduct: 'l2',
+  isVectorMode: false,
+  vectorDimension: 3,
+  difficulty: 'standard',
+  gameMode: 'endless',
+  streakTolerance: 20,
+  players: [],
+  isPlotInteractive: false,
+  isLineStyled: false,
+  isSonified: false,
+  scoring: 'cubic',
+  isIntervalGuess: false,
+  lineThickness: 3,
+  func1Color: '#dc3232',
+  func2Color: '#3264dc',
+};
+
+const modeKey = getModeKey(settings, null);
+
+const round = (score: number, diff: number): RoundData => ({ guess: 0, actual: diff, diff, score, isEasy: false, seed: 0 });
+
+const session = (id: string, scores: number[], overrides: Partial<GameSession> = {}): GameSession => ({
+  id,
+  startedAt: 0,
+  settings,
+  dailyKey: null,
+  rounds: scores.map((score, i) => round(score, 10 + i)),
+  totalScore: scores.reduce((a, b) => a + b, 0),
+  ...overrides,
+});
+
+test('counts rounds and sessions, ignoring empty sessions', () => {
+  const stats = computeLifetimeStats([session('a', [50, 60]), session('b', [])], modeKey);
+  expect(stats.totalRounds).toBe(2);
+  expect(stats.totalSessions).toBe(1);
+});
+
+test('the best session is the best average over sessions long enough to count', () => {
+  const short = session('short', [100, 100]);
+  const good = session('good', [80, 80, 80, 80, 80]);
+  const long = session('long', Array(20).fill(60));
+  expect(computeLifetimeStats([short, good, long], modeKey).bestSession?.id).toBe('good');
+});
+
+test('the best session is only taken from the given mode', () => {
+  const good = session('good', [80, 80, 80, 80, 80]);
+  const linear = session('linear', [95, 95, 95, 95, 95], { settings: { ...settings, scoring: 'linear' } });
+  expect(computeLifetimeStats([good, linear], modeKey).bestSession?.id).toBe('good');
+  expect(computeLifetimeStats([good, linear], getModeKey(linear.settings, null)).bestSession?.id).toBe('linear');
+});
+
+test('keeps separate records per mode', () => {
+  const acute = session('acute', [90, 90, 90, 90, 90], { settings: { ...settings, acuteAnglesOnly: true } });
+  const daily = session('daily', [40], { dailyKey: '2024-01-01' });
+  const stats = computeLifetimeStats([session('plain', [70]), acute, daily], modeKey);
+
+  expect(stats.records.map(r => r.label).sort()).toEqual(['Acute, Easy Interval', 'Daily 2024-01-01', 'Easy Interval']);
+  const acuteRecord = stats.records.find(r => r.label === 'Acute, Easy Interval')!;
+  expect(acuteRecord.bestAvgScore).toBe(90);
+  expect(acuteRecord.bestSessionScore).toBe(450);
+  expect(acuteRecord.bestDiff).toBe(10);
+  expect(stats.records.find(r => r.label === 'Daily 2024-01-01')!.bestAvgScore).toBeNull();
+});
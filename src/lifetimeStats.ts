@@ -0,0 +1,68 @@
+import { GameSession } from './sessionStore';
+import { getModeKey, describeMode } from './modes';
+
+// --- Lifetime Statistics ---
+// Aggregates over every persisted session. Averages are only considered for records once a
+// session is long enough that a single lucky guess does not dominate it, and only compared
+// within a mode: scores under different rules or scoring strategies don't measure the same thing.
+
+export const MIN_ROUNDS_FOR_RECORD = 5;
+
+export interface ModeRecord {
+    modeKey: string;
+    label: string;
+    sessions: number;
+    rounds: number;
+    bestSessionScore: number;
+    bestAvgScore: number | null;
+    bestDiff: number;
+}
+
+export interface LifetimeStats {
+    totalRounds: number;
+    totalSessions: number;
+    // The best session of the mode the stats were computed for.
+    bestSession: GameSession | null;
+    records: ModeRecord[];
+}
+
+export const sessionAverageScore = (session: GameSession) => session.totalScore / session.rounds.length;
+
+export function computeLifetimeStats(sessions: GameSession[], modeKey: string): LifetimeStats {
+    const played = sessions.filter(s => s.rounds.length > 0);
+    const eligible = played.filter(s => s.rounds.length >= MIN_ROUNDS_FOR_RECORD && getModeKey(s.settings, s.dailyKey) === modeKey);
+
+    const bestSession = eligible.reduce<GameSession | null>(
+        (best, s) => (best === null || sessionAverageScore(s) > sessionAverageScore(best) ? s : best),
+        null
+    );
+
+    const recordsByMode = new Map<string, ModeRecord>();
+    played.forEach(session => {
+        const modeKey = getModeKey(session.settings, session.dailyKey);
+        const record = recordsByMode.get(modeKey) ?? {
+            modeKey,
+            label: describeMode(session.settings, session.dailyKey),
+            sessions: 0,
+            rounds: 0,
+            bestSessionScore: 0,
+            bestAvgScore: null,
+            bestDiff: Infinity,
+        };
+        record.sessions += 1;
+        record.rounds += session.rounds.length;
+        record.bestSessionScore = Math.max(record.bestSessionScore, session.totalScore);
+        if (session.rounds.length >= MIN_ROUNDS_FOR_RECORD) {
+            record.bestAvgScore = Math.max(record.bestAvgScore ?? 0, sessionAverageScore(session));
+        }
+        record.bestDiff = Math.min(record.bestDiff, ...session.rounds.map(r => r.diff));
+        recordsByMode.set(modeKey, record);
+    });
+
+    return {
+        totalRounds: played.reduce((acc, s) => acc + s.rounds.length, 0),
+        totalSessions: played.length,
+        bestSession,
+        records: Array.from(recordsByMode.values()).sort((a, b) => b.rounds - a.rounds),
+    };
+}
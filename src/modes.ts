@@ -0,0 +1,64 @@
+import { RoundRules } from './roundEngine';
+import { DEFAULT_INNER_PRODUCT, getInnerProduct } from './innerProducts';
+import { DEFAULT_DIFFICULTY, DifficultySetting, getDifficultyLevel } from './difficulty';
+import { DEFAULT_GAME_MODE, GameModeId, getGameMode } from './gameModes';
+import { DEFAULT_SCORING, ScoringStrategyId, getScoringStrategy } from './scoring';
+
+// --- Modes ---
+// A "mode" is the combination of rules that decides how hard a round is and how a session ends.
+// Results are only ever compared within the same mode.
+
+// Sessions store the player's settings, which hold the difficulty setting rather than a level.
+export type ModeRules = Omit<RoundRules, 'difficulty'> & { difficulty?: DifficultySetting; gameMode?: GameModeId; streakTolerance?: number; isIntervalGuess?: boolean; scoring?: ScoringStrategyId };
+
+export function getModeKey(rules: ModeRules, dailyKey: string | null = null): string {
+    if (dailyKey) return `daily-${dailyKey}`;
+    const gameMode = rules.gameMode ?? DEFAULT_GAME_MODE;
+    // Scores are only comparable under the same scoring rule; interval guesses have their own.
+    const scoring = rules.scoring ?? DEFAULT_SCORING;
+    const key = rules.isIntervalGuess ? `interval-${getRulesKey(rules)}`
+        : scoring !== DEFAULT_SCORING ? `${scoring}-${getRulesKey(rules)}` : getRulesKey(rules);
+    if (gameMode === DEFAULT_GAME_MODE) return key;
+    // A streak's length depends on how far off a guess may be.
+    return gameMode === 'streak' ? `${gameMode}${rules.streakTolerance}-${key}` : `${gameMode}-${key}`;
+}
+
+function getRulesKey(rules: ModeRules): string {
+    const flags = [
+        rules.isUnitaryMode ? 'unitary' : 'plain',
+        rules.acuteAnglesOnly ? 'acute' : 'any',
+    ];
+    // Vectors have no interval or inner product to choose.
+    if (rules.isVectorMode) return [...flags, `vector${rules.vectorDimension}`].join('-');
+
+    // Sessions recorded before inner products and difficulty levels existed have neither, and
+    // were played in L² at the standard level; their keys stay as they were.
+    const innerProduct = rules.innerProduct ?? DEFAULT_INNER_PRODUCT;
+    const difficulty = rules.difficulty ?? DEFAULT_DIFFICULTY;
+    return [
+        ...flags,
+        rules.isEasyInterval ? 'easy' : 'random',
+        innerProduct !== DEFAULT_INNER_PRODUCT && innerProduct,
+        difficulty !== DEFAULT_DIFFICULTY && difficulty,
+    ].filter(Boolean).join('-');
+}
+
+export function describeMode(rules: ModeRules, dailyKey: string | null = null): string {
+    if (dailyKey) return `Daily ${dailyKey}`;
+    const gameMode = getGameMode(rules.gameMode);
+    const flags = [
+        gameMode.id !== DEFAULT_GAME_MODE && (gameMode.id === 'streak' ? `${gameMode.label} (±${rules.streakTolerance}°)` : gameMode.label),
+        rules.isIntervalGuess ? 'Intervals' : (rules.scoring ?? DEFAULT_SCORING) !== DEFAULT_SCORING && `${getScoringStrategy(rules.scoring).label} Scoring`,
+        rules.isUnitaryMode && 'Unitary',
+        rules.acuteAnglesOnly && 'Acute',
+        ...(rules.isVectorMode
+            ? [`Vectors (n = ${rules.vectorDimension})`]
+            : [
+                rules.isEasyInterval && 'Easy Interval',
+                (rules.innerProduct ?? DEFAULT_INNER_PRODUCT) !== DEFAULT_INNER_PRODUCT && getInnerProduct(rules.innerProduct).label,
+                rules.difficulty === 'auto' ? 'Auto Difficulty'
+                    : (rules.difficulty ?? DEFAULT_DIFFICULTY) !== DEFAULT_DIFFICULTY && getDifficultyLevel(rules.difficulty).label,
+            ]),
+    ].filter(Boolean);
+    return flags.length > 0 ? flags.join(', ') : 'Standard';
+}
@@ -0,0 +1,152 @@
+import { acceptGuessInput, generateRound, RoundRules } from '../roundEngine';
+import { createHostMatch, createPeerMatch, HostMatch, Match, MatchPhase } from './match';
+import { parseMessage, PROTOCOL_VERSION, ProtocolError, serializeMessage } from './protocol';
+import { createLoopbackPair } from './transport';
+import { getScoringStrategy, ScoringStrategyId } from '../scoring';
+
+const rules = { isUnitaryMode: false, acuteAnglesOnly: false, isEasyInterval: false, innerProduct: 'l2' as const, isVectorMode: true, vectorDimension: 3, difficulty: 'standard' as const };
+
+const untilPhase = (match: Match, phase: MatchPhase) => new Promise<void>(resolve => {
+  if (match.getState().phase === phase) return resolve();
+  const unsubscribe = match.subscribe(state => {
+    if (state.phase === phase) {
+      unsubscribe();
+      resolve();
+    }
+  });
+});
+
+function connect(rounds = 2, guessTimeMs = 1000, scoring?: ScoringStrategyId, hostRules: RoundRules = rules): { host: HostMatch, peer: Match } {
+  const [hostEnd, peerEnd] = createLoopbackPair();
+  const host = createHostMatch(hostEnd, {
+    name: 'Ann',
+    rules: hostRules,
+    rounds,
+    scoring,
+    generate: async request => generateRound(request.rules, request.history, request.seed),
+    startDelayMs: 0,
+    guessTimeMs,
+  });
+  const peer = createPeerMatch(peerEnd, 'Bob');
+  return { host, peer };
+}
+
+describe('protocol', () => {
+  test('messages survive a round trip', () => {
+    const message = { type: 'hello' as const, version: PROTOCOL_VERSION, name: 'Bob' };
+    expect(parseMessage(serializeMessage(message))).toEqual(message);
+  });
+
+  test('rejects malformed messages', () => {
+    expect(() => parseMessage('not json')).toThrow(ProtocolError);
+    expect(() => parseMessage('{"type":"dance"}')).toThrow(ProtocolError);
+    expect(() => parseMessage('{"type":"guess","roundNumber":1,"guess":"45"}')).toThrow(ProtocolError);
+    expect(() => parseMessage(`{"type":"hello","version":${PROTOCOL_VERSION + 1},"name":"Bob"}`)).toThrow(/version/);
+    expect(() => parseMessage('{"type":"welcome","players":[],"seat":1,"rounds":5}')).toThrow(/rules/);
+  });
+
+  test('rounds must not carry the angle or what it can be recomputed from', () => {
+    const round = { interval: [1, 1], isEasy: false };
+    const message = { type: 'round', roundNumber: 1, round, plot: { x_values: [1], y1_values: [1], y2_values: [2] }, startsInMs: 0, guessTimeMs: 1000 };
+    expect(parseMessage(JSON.stringify(message))).toEqual(message);
+    for (const leak of [{ angle: 42 }, { seed: 1 }, { f1_expr: '[1]', f2_expr: '[2]' }]) {
+      expect(() => parseMessage(JSON.stringify({ ...message, round: { ...round, ...leak } }))).toThrow(/angle/);
+    }
+  });
+});
+
+describe('match over a loopback transport', () => {
+  test('both players see the same round and the results together', async () => {
+    const { host, peer } = connect();
+    await Promise.all([untilPhase(host, 'lobby'), untilPhase(peer, 'lobby')]);
+    expect(peer.getState().players.map(p => p.name)).toEqual(['Ann', 'Bob']);
+    expect(peer.getState().seat).toBe(1);
+
+    await host.startRound();
+    await Promise.all([untilPhase(host, 'guessing'), untilPhase(peer, 'guessing')]);
+    expect(peer.getState().round).toEqual(host.getState().round);
+    expect(peer.getState().plot).toEqual(host.getState().plot);
+    expect(peer.getState().round).not.toHaveProperty('angle');
+    expect(peer.getState().round).not.toHaveProperty('f1_expr');
+
+    host.submitGuess(30);
+    expect(host.getState().phase).toBe('waiting');
+    expect(host.getState().reveal).toBeNull(); // Nothing is revealed until everybody has guessed.
+    peer.submitGuess(60);
+    await Promise.all([untilPhase(host, 'revealed'), untilPhase(peer, 'revealed')]);
+
+    expect(peer.getState().reveal).toEqual(host.getState().reveal);
+    expect(peer.getState().reveal!.round.f1_expr).toEqual(expect.any(String));
+    const { guesses } = host.getState().reveal!;
+    expect(guesses.map(g => g.guess)).toEqual([30, 60]);
+    expect(peer.getState().players.map(p => p.totalScore)).toEqual(guesses.map(g => g.score));
+    host.close();
+  });
+
+  test('a player who runs out of time scores nothing', async () => {
+    const { host, peer } = connect(1, 50);
+    await untilPhase(host, 'lobby');
+    await host.startRound();
+    await untilPhase(host, 'guessing');
+    host.submitGuess(90);
+    await Promise.all([untilPhase(host, 'finished'), untilPhase(peer, 'finished')]);
+    expect(host.getState().reveal!.guesses[1]).toEqual({ player: 1, guess: null, diff: null, score: 0 });
+    expect(peer.getState().players[1].totalScore).toBe(0);
+  });
+
+  test('only one round is started at a time', async () => {
+    const { host } = connect();
+    await untilPhase(host, 'lobby');
+    const first = host.startRound();
+    await expect(host.startRound()).rejects.toThrow(/already/);
+    await first;
+    expect(host.getState().roundNumber).toBe(1);
+    host.close();
+  });
+
+  test('a guess outside the rules counts as no guess', async () => {
+    const { host, peer } = connect(1, 50);
+    await Promise.all([untilPhase(host, 'lobby'), untilPhase(peer, 'lobby')]);
+    await host.startRound();
+    await untilPhase(peer, 'guessing');
+    peer.submitGuess(-1000);
+    host.submitGuess(90);
+    await untilPhase(host, 'finished');
+    expect(host.getState().reveal!.guesses[1]).toEqual({ player: 1, guess: null, diff: null, score: 0 });
+  });
+
+  test("guesses are scored with the host's strategy", async () => {
+    const { host, peer } = connect(1, 1000, 'linear');
+    await Promise.all([untilPhase(host, 'lobby'), untilPhase(peer, 'lobby')]);
+    await host.startRound();
+    await untilPhase(peer, 'guessing');
+    host.submitGuess(30);
+    peer.submitGuess(60);
+    await untilPhase(peer, 'finished');
+    const { angle, guesses } = peer.getState().reveal!;
+    expect(guesses.map(g => g.score)).toEqual([30, 60].map(guess => getScoringStrategy('linear').score(guess, angle)));
+  });
+
+  test("the peer guesses by the host's rules, not its own", async () => {
+    const { host, peer } = connect(1, 1000, undefined, { ...rules, acuteAnglesOnly: true });
+    await untilPhase(peer, 'lobby');
+    expect(peer.getState().rules).toEqual({ acuteAnglesOnly: true });
+    // What the match input lets the peer type, whatever its own settings say.
+    expect(acceptGuessInput('150', peer.getState().rules)).toBeNull();
+    expect(acceptGuessInput('80', peer.getState().rules)).toBe('80');
+
+    const wide = connect(1, 1000);
+    await untilPhase(wide.peer, 'lobby');
+    expect(acceptGuessInput('150', wide.peer.getState().rules)).toBe('150');
+    host.close();
+    wide.host.close();
+  });
+
+  test('leaving ends the match for the other side', async () => {
+    const { host, peer } = connect();
+    await untilPhase(peer, 'lobby');
+    peer.close();
+    await untilPhase(host, 'disconnected');
+    await expect(host.startRound()).rejects.toThrow();
+  });
+});
@@ -0,0 +1,294 @@
+import { RoundData } from '../components/Stats';
+import { maxGuess, PlotData, RoundPayload, RoundRules, scoreGuess } from '../roundEngine';
+import { RoundRequest } from '../hooks/useRoundGenerator';
+import { randomSeed } from '../random';
+import { ScoringStrategyId } from '../scoring';
+import { GuessRules, HiddenRound, hideRound, HostMessage, MatchPlayer, PeerMessage, PROTOCOL_VERSION, RevealedGuess, RevealedRound, revealRound } from './protocol';
+import { Transport } from './transport';
+
+// --- Matches ---
+// A head-to-head match between the host (seat 0) and one peer (seat 1). The host runs the match:
+// it generates the rounds, keeps the clock and scores the guesses. Both sides expose the same
+// MatchState, so the UI does not care which side it is on. Times in the state are local clock times.
+
+export type MatchPhase =
+    | 'connecting' // Waiting for the other side to say hello.
+    | 'lobby' // Connected; waiting for the host to start the first round.
+    | 'countdown' // A round has been sent and is about to be shown.
+    | 'guessing'
+    | 'waiting' // Guessed (or ran out of time); waiting for the reveal.
+    | 'revealed'
+    | 'finished' // The last round has been revealed.
+    | 'disconnected';
+
+export interface MatchReveal {
+    angle: number;
+    round: RevealedRound;
+    guesses: RevealedGuess[];
+}
+
+export interface MatchState {
+    phase: MatchPhase;
+    seat: number;
+    players: MatchPlayer[];
+    rounds: number;
+    // The host's; the peer learns them when it is welcomed.
+    rules: GuessRules;
+    roundNumber: number;
+    round: HiddenRound | null;
+    plot: PlotData | null;
+    startsAt: number | null;
+    deadline: number | null;
+    reveal: MatchReveal | null;
+}
+
+export interface Match {
+    getState(): MatchState;
+    subscribe(listener: (state: MatchState) => void): () => void;
+    submitGuess(guess: number): void;
+    close(): void;
+}
+
+export interface HostMatch extends Match {
+    // Generates and sends the next round. Only valid in the lobby or after a reveal.
+    startRound(): Promise<void>;
+}
+
+export interface HostMatchOptions {
+    name: string;
+    rules: RoundRules;
+    rounds: number;
+    // The host's scoring strategy applies to both players.
+    scoring?: ScoringStrategyId;
+    generate: (request: RoundRequest) => Promise<RoundPayload>;
+    startDelayMs?: number;
+    guessTimeMs?: number;
+}
+
+export const MATCH_START_DELAY_MS = 3000;
+export const MATCH_GUESS_TIME_MS = 30_000;
+// Guesses sent just before the deadline are still accepted while they travel.
+const LATE_GUESS_GRACE_MS = 500;
+
+function createMatchState(initial: MatchState) {
+    let state = initial;
+    const listeners = new Set<(state: MatchState) => void>();
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    return {
+        get: () => state,
+        update(patch: Partial<MatchState>) {
+            state = { ...state, ...patch };
+            listeners.forEach(listener => listener(state));
+        },
+        subscribe(listener: (state: MatchState) => void) {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        schedule(delayMs: number, callback: () => void) {
+            const timer = setTimeout(() => {
+                timers.delete(timer);
+                callback();
+            }, Math.max(0, delayMs));
+            timers.add(timer);
+        },
+        clearTimers() {
+            timers.forEach(clearTimeout);
+            timers.clear();
+        },
+    };
+}
+
+const initialState = (seat: number): MatchState => ({
+    phase: 'connecting',
+    seat,
+    players: [],
+    rounds: 0,
+    rules: { acuteAnglesOnly: false },
+    roundNumber: 0,
+    round: null,
+    plot: null,
+    startsAt: null,
+    deadline: null,
+    reveal: null,
+});
+
+// Shows the round once the countdown is over, and stops taking guesses at the deadline.
+function showRound(match: ReturnType<typeof createMatchState>, roundNumber: number, startsInMs: number, guessTimeMs: number) {
+    const startsAt = Date.now() + startsInMs;
+    match.schedule(startsInMs, () => {
+        if (match.get().roundNumber === roundNumber && match.get().phase === 'countdown') match.update({ phase: 'guessing' });
+    });
+    match.schedule(startsInMs + guessTimeMs, () => {
+        if (match.get().roundNumber === roundNumber && match.get().phase === 'guessing') match.update({ phase: 'waiting' });
+    });
+    return { startsAt, deadline: startsAt + guessTimeMs };
+}
+
+function disconnect(match: ReturnType<typeof createMatchState>) {
+    match.clearTimers();
+    if (match.get().phase !== 'finished') match.update({ phase: 'disconnected' });
+}
+
+// --- Host ---
+export function createHostMatch(transport: Transport, options: HostMatchOptions): HostMatch {
+    const { startDelayMs = MATCH_START_DELAY_MS, guessTimeMs = MATCH_GUESS_TIME_MS } = options;
+    const rules: GuessRules = { acuteAnglesOnly: options.rules.acuteAnglesOnly };
+    const match = createMatchState({ ...initialState(0), players: [{ name: options.name, totalScore: 0 }], rounds: options.rounds, rules });
+    const send = (message: HostMessage) => transport.send(message);
+    const history: Pick<RoundData, 'isEasy'>[] = [];
+    let angle = 0;
+    let revealed: RevealedRound | null = null;
+    let guesses = new Map<number, number>();
+    // Set while a round is being generated, so a second click cannot start another one.
+    let isStarting = false;
+
+    const reveal = () => {
+        const state = match.get();
+        if (state.phase === 'revealed' || state.phase === 'finished' || state.phase === 'disconnected') return;
+        const round = revealed!;
+        const revealedGuesses: RevealedGuess[] = state.players.map((_, player) => {
+            const guess = guesses.get(player);
+            if (guess === undefined) return { player, guess: null, diff: null, score: 0 };
+            const { diff, score } = scoreGuess(guess, angle, options.scoring);
+            return { player, guess, diff, score };
+        });
+        const players = state.players.map((p, i) => ({ ...p, totalScore: p.totalScore + revealedGuesses[i].score }));
+        const isLast = state.roundNumber >= state.rounds;
+        send({ type: 'reveal', roundNumber: state.roundNumber, angle, round, guesses: revealedGuesses, players });
+        if (isLast) send({ type: 'finish', players });
+        match.update({ phase: isLast ? 'finished' : 'revealed', players, reveal: { angle, round, guesses: revealedGuesses } });
+    };
+
+    const acceptGuess = (player: number, roundNumber: number, guess: number) => {
+        const state = match.get();
+        if (roundNumber !== state.roundNumber || guesses.has(player)) return;
+        if (state.phase !== 'guessing' && state.phase !== 'waiting') return;
+        if (state.deadline !== null && Date.now() > state.deadline + LATE_GUESS_GRACE_MS) return;
+        // The peer's input box is not to be trusted; an out-of-range guess counts as no guess.
+        if (!(guess >= 0 && guess <= maxGuess(rules))) return;
+        guesses.set(player, guess);
+        if (guesses.size === state.players.length) reveal();
+    };
+
+    const stopListening = transport.onMessage((message: PeerMessage | HostMessage) => {
+        if (message.type === 'hello') {
+            if (match.get().phase !== 'connecting') return;
+            const players = [...match.get().players, { name: message.name, totalScore: 0 }];
+            send({ type: 'welcome', players, seat: 1, rounds: options.rounds, rules });
+            match.update({ phase: 'lobby', players });
+        } else if (message.type === 'guess') {
+            acceptGuess(1, message.roundNumber, message.guess);
+        } else if (message.type === 'bye') {
+            disconnect(match);
+        }
+    });
+    const stopClosing = transport.onClose(() => disconnect(match));
+
+    return {
+        getState: match.get,
+        subscribe: match.subscribe,
+        async startRound() {
+            const { phase, roundNumber } = match.get();
+            if (phase !== 'lobby' && phase !== 'revealed') throw new Error(`Cannot start a round while ${phase}`);
+            if (isStarting) throw new Error('A round is already being started');
+            isStarting = true;
+            let payload: RoundPayload;
+            try {
+                payload = await options.generate({ rules: options.rules, history: [...history], seed: randomSeed() });
+            } finally {
+                isStarting = false;
+            }
+            const { round, plot } = payload;
+            if (match.get().phase === 'disconnected') return;
+            history.push({ isEasy: round.isEasy });
+            angle = round.angle;
+            revealed = revealRound(round);
+            guesses = new Map();
+
+            const next = roundNumber + 1;
+            const hidden = hideRound(round);
+            send({ type: 'round', roundNumber: next, round: hidden, plot, startsInMs: startDelayMs, guessTimeMs });
+            const { startsAt, deadline } = showRound(match, next, startDelayMs, guessTimeMs);
+            match.update({ phase: 'countdown', roundNumber: next, round: hidden, plot, startsAt, deadline, reveal: null });
+            // Reveal whatever has come in once late guesses can no longer arrive.
+            match.schedule(startDelayMs + guessTimeMs + LATE_GUESS_GRACE_MS, () => {
+                if (match.get().roundNumber === next) reveal();
+            });
+        },
+        submitGuess(guess) {
+            if (match.get().phase !== 'guessing') return;
+            match.update({ phase: 'waiting' });
+            acceptGuess(0, match.get().roundNumber, guess);
+        },
+        close() {
+            stopListening();
+            stopClosing();
+            match.clearTimers();
+            try {
+                send({ type: 'bye' });
+            } catch (error) {
+                // Already closed.
+            }
+            transport.close();
+            disconnect(match);
+        },
+    };
+}
+
+// --- Peer ---
+export function createPeerMatch(transport: Transport, name: string): Match {
+    const match = createMatchState(initialState(1));
+    const send = (message: PeerMessage) => transport.send(message);
+
+    const stopListening = transport.onMessage((message: PeerMessage | HostMessage) => {
+        switch (message.type) {
+            case 'welcome':
+                match.update({ phase: 'lobby', players: message.players, seat: message.seat, rounds: message.rounds, rules: message.rules });
+                break;
+            case 'round': {
+                const { startsAt, deadline } = showRound(match, message.roundNumber, message.startsInMs, message.guessTimeMs);
+                match.update({ phase: 'countdown', roundNumber: message.roundNumber, round: message.round, plot: message.plot, startsAt, deadline, reveal: null });
+                break;
+            }
+            case 'reveal':
+                if (message.roundNumber !== match.get().roundNumber) break;
+                match.update({ phase: 'revealed', players: message.players, reveal: { angle: message.angle, round: message.round, guesses: message.guesses } });
+                break;
+            case 'finish':
+                match.clearTimers();
+                match.update({ phase: 'finished', players: message.players });
+                break;
+            case 'bye':
+                disconnect(match);
+                break;
+        }
+    });
+    const stopClosing = transport.onClose(() => disconnect(match));
+
+    send({ type: 'hello', version: PROTOCOL_VERSION, name });
+
+    return {
+        getState: match.get,
+        subscribe: match.subscribe,
+        submitGuess(guess) {
+            const { phase, roundNumber } = match.get();
+            if (phase !== 'guessing') return;
+            send({ type: 'guess', roundNumber, guess });
+            match.update({ phase: 'waiting' });
+        },
+        close() {
+            stopListening();
+            stopClosing();
+            match.clearTimers();
+            try {
+                send({ type: 'bye' });
+            } catch (error) {
+                // Already closed.
+            }
+            transport.close();
+            disconnect(match);
+        },
+    };
+}
@@ -0,0 +1,217 @@
+import { IRoundData, PlotData, RoundRules } from '../roundEngine';
+
+// --- Match Protocol ---
+// Messages exchanged between the host and a peer over a data channel. The host generates every
+// round and scores every guess; peers only display what they are sent. The angle, the functions
+// and the seed they came from are held back until the reveal. The plot samples are not, and an
+// angle can be estimated from them, so matches still rely on both players playing fair.
+
+export const PROTOCOL_VERSION = 3;
+
+// What is held back until the reveal: the angle, and anything it can be recomputed from exactly.
+type RevealedKey = 'seed' | 'f1_str' | 'f2_str' | 'f1_expr' | 'f2_expr';
+const REVEALED_KEYS: RevealedKey[] = ['seed', 'f1_str', 'f2_str', 'f1_expr', 'f2_expr'];
+
+// A round as sent to peers before the reveal, and the rest of it as sent with the reveal.
+export type HiddenRound = Omit<IRoundData, 'angle' | 'breakdown' | RevealedKey>;
+export type RevealedRound = Pick<IRoundData, RevealedKey>;
+
+// The host's rules for what counts as a guess. They apply to both players, whatever the peer's own settings.
+export type GuessRules = Pick<RoundRules, 'acuteAnglesOnly'>;
+
+export interface MatchPlayer {
+    name: string;
+    totalScore: number;
+}
+
+export interface RevealedGuess {
+    // Index into the match's player list; a guess of null means the player ran out of time.
+    player: number;
+    guess: number | null;
+    diff: number | null;
+    score: number;
+}
+
+// Peer -> host: sent once the channel opens.
+export interface HelloMessage {
+    type: 'hello';
+    version: number;
+    name: string;
+}
+
+// Host -> peer: the players in seat order, the peer's own seat, the match length and the guess rules.
+export interface WelcomeMessage {
+    type: 'welcome';
+    players: MatchPlayer[];
+    seat: number;
+    rounds: number;
+    rules: GuessRules;
+}
+
+// Host -> peer: the next round, shown once `startsInMs` have passed. Guesses are accepted for
+// `guessTimeMs` after that.
+export interface RoundMessage {
+    type: 'round';
+    roundNumber: number;
+    round: HiddenRound;
+    plot: PlotData;
+    startsInMs: number;
+    guessTimeMs: number;
+}
+
+// Peer -> host.
+export interface GuessMessage {
+    type: 'guess';
+    roundNumber: number;
+    guess: number;
+}
+
+// Host -> peer: everybody's guesses, once all are in or the time is up.
+export interface RevealMessage {
+    type: 'reveal';
+    roundNumber: number;
+    angle: number;
+    round: RevealedRound;
+    guesses: RevealedGuess[];
+    players: MatchPlayer[];
+}
+
+// Host -> peer: the match is over (after the last reveal).
+export interface FinishMessage {
+    type: 'finish';
+    players: MatchPlayer[];
+}
+
+// Either side, when leaving.
+export interface ByeMessage {
+    type: 'bye';
+}
+
+export type PeerMessage = HelloMessage | GuessMessage | ByeMessage;
+export type HostMessage = WelcomeMessage | RoundMessage | RevealMessage | FinishMessage | ByeMessage;
+export type MatchMessage = PeerMessage | HostMessage;
+
+export class ProtocolError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProtocolError';
+    }
+}
+
+// --- Validation ---
+// Messages arrive from another browser, so their shape is checked rather than trusted.
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+const isNumberArray = (value: unknown): value is (number | null)[] => Array.isArray(value) && value.every(v => v === null || isNumber(v));
+
+function checkPlayers(raw: unknown): MatchPlayer[] {
+    if (!Array.isArray(raw) || !raw.every(p => isObject(p) && typeof p.name === 'string' && isNumber(p.totalScore))) {
+        throw new ProtocolError('"players" must be a list of names and scores');
+    }
+    return raw as MatchPlayer[];
+}
+
+function checkRound(raw: unknown): HiddenRound {
+    if (!isObject(raw)) throw new ProtocolError('"round" must be an object');
+    if (!Array.isArray(raw.interval) || raw.interval.length !== 2 || !raw.interval.every(isNumber)) {
+        throw new ProtocolError('"round.interval" must be a pair of numbers');
+    }
+    if (['angle', 'breakdown', ...REVEALED_KEYS].some(key => key in raw)) throw new ProtocolError('"round" must not give away the angle');
+    return raw as unknown as HiddenRound;
+}
+
+function checkRevealedRound(raw: unknown): RevealedRound {
+    if (!isObject(raw)) throw new ProtocolError('"round" must be an object');
+    for (const key of ['f1_str', 'f2_str', 'f1_expr', 'f2_expr']) {
+        if (typeof raw[key] !== 'string') throw new ProtocolError(`"round.${key}" must be a string`);
+    }
+    if (!isNumber(raw.seed)) throw new ProtocolError('"round.seed" must be a number');
+    return raw as unknown as RevealedRound;
+}
+
+function checkPlot(raw: unknown): PlotData {
+    if (!isObject(raw) || !isNumberArray(raw.x_values) || !isNumberArray(raw.y1_values) || !isNumberArray(raw.y2_values)) {
+        throw new ProtocolError('"plot" must hold the sampled values');
+    }
+    return raw as unknown as PlotData;
+}
+
+function checkGuesses(raw: unknown): RevealedGuess[] {
+    const isGuess = (g: unknown) => isObject(g) && isNumber(g.player) && isNumber(g.score)
+        && (g.guess === null || isNumber(g.guess)) && (g.diff === null || isNumber(g.diff));
+    if (!Array.isArray(raw) || !raw.every(isGuess)) throw new ProtocolError('"guesses" must be a list of guesses');
+    return raw as RevealedGuess[];
+}
+
+export function parseMessage(data: string): MatchMessage {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(data);
+    } catch (error) {
+        throw new ProtocolError('Message is not valid JSON');
+    }
+    if (!isObject(raw)) throw new ProtocolError('Message is not an object');
+
+    switch (raw.type) {
+        case 'hello':
+            if (raw.version !== PROTOCOL_VERSION) throw new ProtocolError(`Unsupported protocol version ${String(raw.version)}`);
+            if (typeof raw.name !== 'string') throw new ProtocolError('"name" must be a string');
+            return { type: 'hello', version: raw.version, name: raw.name };
+        case 'welcome':
+            if (!isNumber(raw.seat) || !isNumber(raw.rounds)) throw new ProtocolError('"seat" and "rounds" must be numbers');
+            if (!isObject(raw.rules) || typeof raw.rules.acuteAnglesOnly !== 'boolean') {
+                throw new ProtocolError('"rules.acuteAnglesOnly" must be a boolean');
+            }
+            return {
+                type: 'welcome',
+                players: checkPlayers(raw.players),
+                seat: raw.seat,
+                rounds: raw.rounds,
+                rules: { acuteAnglesOnly: raw.rules.acuteAnglesOnly },
+            };
+        case 'round':
+            if (!isNumber(raw.roundNumber) || !isNumber(raw.startsInMs) || !isNumber(raw.guessTimeMs)) {
+                throw new ProtocolError('"roundNumber", "startsInMs" and "guessTimeMs" must be numbers');
+            }
+            return {
+                type: 'round',
+                roundNumber: raw.roundNumber,
+                round: checkRound(raw.round),
+                plot: checkPlot(raw.plot),
+                startsInMs: raw.startsInMs,
+                guessTimeMs: raw.guessTimeMs,
+            };
+        case 'guess':
+            if (!isNumber(raw.roundNumber) || !isNumber(raw.guess)) throw new ProtocolError('"roundNumber" and "guess" must be numbers');
+            return { type: 'guess', roundNumber: raw.roundNumber, guess: raw.guess };
+        case 'reveal':
+            if (!isNumber(raw.roundNumber) || !isNumber(raw.angle)) throw new ProtocolError('"roundNumber" and "angle" must be numbers');
+            return {
+                type: 'reveal',
+                roundNumber: raw.roundNumber,
+                angle: raw.angle,
+                round: checkRevealedRound(raw.round),
+                guesses: checkGuesses(raw.guesses),
+                players: checkPlayers(raw.players),
+            };
+        case 'finish':
+            return { type: 'finish', players: checkPlayers(raw.players) };
+        case 'bye':
+            return { type: 'bye' };
+        default:
+            throw new ProtocolError(`Unknown message type "${String(raw.type)}"`);
+    }
+}
+
+export const serializeMessage = (message: MatchMessage): string => JSON.stringify(message);
+
+export function hideRound(round: IRoundData): HiddenRound {
+    const { angle, breakdown, seed, f1_str, f2_str, f1_expr, f2_expr, ...hidden } = round;
+    return hidden;
+}
+
+export function revealRound(round: IRoundData): RevealedRound {
+    const { seed, f1_str, f2_str, f1_expr, f2_expr } = round;
+    return { seed, f1_str, f2_str, f1_expr, f2_expr };
+}
@@ -0,0 +1,111 @@
+import { createDataChannelTransport, Transport } from './transport';
+
+// --- Signalling ---
+// There is no server to introduce the players, so the WebRTC offer and answer are exchanged by hand:
+// the host copies an invite code to the peer, and the peer copies a reply code back. ICE candidates
+// are gathered up front and bundled into the codes, so each side pastes exactly one code.
+
+const ICE_SERVERS: RTCIceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
+const CHANNEL_LABEL = 'angulario-match';
+const ICE_GATHERING_TIMEOUT_MS = 5000;
+
+export class SignallingError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SignallingError';
+    }
+}
+
+export function encodeSignal(description: RTCSessionDescriptionInit): string {
+    return btoa(JSON.stringify({ type: description.type, sdp: description.sdp }));
+}
+
+export function decodeSignal(code: string, expectedType: RTCSdpType): RTCSessionDescriptionInit {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(atob(code.trim()));
+    } catch (error) {
+        throw new SignallingError('That code is not valid. Make sure it was copied completely.');
+    }
+    const description = parsed as RTCSessionDescriptionInit;
+    if (typeof description !== 'object' || description === null || typeof description.sdp !== 'string') {
+        throw new SignallingError('That code is not valid. Make sure it was copied completely.');
+    }
+    if (description.type !== expectedType) {
+        throw new SignallingError(expectedType === 'offer' ? 'That is a reply code, not an invite code.' : 'That is an invite code, not a reply code.');
+    }
+    return description;
+}
+
+// Resolves once every ICE candidate is in the local description (or gathering takes too long).
+function gatherCandidates(connection: RTCPeerConnection): Promise<void> {
+    if (connection.iceGatheringState === 'complete') return Promise.resolve();
+    return new Promise(resolve => {
+        const timeout = setTimeout(resolve, ICE_GATHERING_TIMEOUT_MS);
+        connection.addEventListener('icegatheringstatechange', () => {
+            if (connection.iceGatheringState === 'complete') {
+                clearTimeout(timeout);
+                resolve();
+            }
+        });
+    });
+}
+
+function openTransport(channel: RTCDataChannel): Promise<Transport> {
+    return new Promise((resolve, reject) => {
+        const transport = createDataChannelTransport(channel);
+        if (channel.readyState === 'open') {
+            resolve(transport);
+            return;
+        }
+        channel.addEventListener('open', () => resolve(transport), { once: true });
+        channel.addEventListener('error', () => reject(new SignallingError('The connection failed.')), { once: true });
+    });
+}
+
+export interface HostSignalling {
+    inviteCode: string;
+    // Completes the connection with the peer's reply code.
+    accept(replyCode: string): Promise<Transport>;
+    close(): void;
+}
+
+export async function createInvite(): Promise<HostSignalling> {
+    const connection = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+    const channel = connection.createDataChannel(CHANNEL_LABEL);
+    await connection.setLocalDescription(await connection.createOffer());
+    await gatherCandidates(connection);
+
+    return {
+        inviteCode: encodeSignal(connection.localDescription!),
+        async accept(replyCode) {
+            await connection.setRemoteDescription(decodeSignal(replyCode, 'answer'));
+            return openTransport(channel);
+        },
+        close: () => connection.close(),
+    };
+}
+
+export interface PeerSignalling {
+    replyCode: string;
+    // Resolves once the host has pasted the reply code.
+    connected: Promise<Transport>;
+    close(): void;
+}
+
+export async function acceptInvite(inviteCode: string): Promise<PeerSignalling> {
+    const offer = decodeSignal(inviteCode, 'offer');
+    const connection = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+    const channel = new Promise<RTCDataChannel>(resolve => {
+        connection.ondatachannel = e => resolve(e.channel);
+    });
+    await connection.setRemoteDescription(offer);
+    await connection.setLocalDescription(await connection.createAnswer());
+    await gatherCandidates(connection);
+
+    return {
+        replyCode: encodeSignal(connection.localDescription!),
+        connected: channel.then(openTransport),
+        close: () => connection.close(),
+    };
+}
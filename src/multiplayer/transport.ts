@@ -0,0 +1,81 @@
+import { MatchMessage, parseMessage, ProtocolError, serializeMessage } from './protocol';
+
+// --- Transports ---
+// A transport carries match messages between two players. Matches only ever talk to this
+// interface, so they run the same over a WebRTC data channel and over the in-process loopback.
+
+export interface Transport {
+    send(message: MatchMessage): void;
+    // Returns a function that removes the handler.
+    onMessage(handler: (message: MatchMessage) => void): () => void;
+    onClose(handler: () => void): () => void;
+    close(): void;
+}
+
+// Keeps a set of handlers; calling the returned function removes the handler again.
+function handlerSet<T extends unknown[]>() {
+    const handlers = new Set<(...args: T) => void>();
+    return {
+        add(handler: (...args: T) => void) {
+            handlers.add(handler);
+            return () => {
+                handlers.delete(handler);
+            };
+        },
+        emit(...args: T) {
+            handlers.forEach(handler => handler(...args));
+        },
+    };
+}
+
+// Two connected transports in the same process. Messages go through the same serialisation as
+// the real channel and are delivered asynchronously, like they would be over the network.
+export function createLoopbackPair(): [Transport, Transport] {
+    const ends = [0, 1].map(() => ({ messages: handlerSet<[MatchMessage]>(), closes: handlerSet<[]>(), isOpen: true }));
+
+    const connect = (self: typeof ends[number], other: typeof ends[number]): Transport => ({
+        send(message) {
+            if (!self.isOpen) throw new Error('Transport is closed');
+            const data = serializeMessage(message);
+            setTimeout(() => {
+                if (other.isOpen) other.messages.emit(parseMessage(data));
+            }, 0);
+        },
+        onMessage: handler => self.messages.add(handler),
+        onClose: handler => self.closes.add(handler),
+        close() {
+            if (!self.isOpen) return;
+            self.isOpen = false;
+            other.isOpen = false;
+            setTimeout(() => {
+                self.closes.emit();
+                other.closes.emit();
+            }, 0);
+        },
+    });
+
+    return [connect(ends[0], ends[1]), connect(ends[1], ends[0])];
+}
+
+export function createDataChannelTransport(channel: RTCDataChannel): Transport {
+    const messages = handlerSet<[MatchMessage]>();
+    const closes = handlerSet<[]>();
+
+    channel.onmessage = (e: MessageEvent) => {
+        try {
+            messages.emit(parseMessage(String(e.data)));
+        } catch (error) {
+            // A malformed message is dropped rather than ending the match.
+            if (error instanceof ProtocolError) console.warn("Ignoring malformed match message", error.message);
+            else throw error;
+        }
+    };
+    channel.onclose = () => closes.emit();
+
+    return {
+        send: message => channel.send(serializeMessage(message)),
+        onMessage: handler => messages.add(handler),
+        onClose: handler => closes.add(handler),
+        close: () => channel.close(),
+    };
+}
@@ -0,0 +1,53 @@
+import { describePlot, sameSignShare, sampleTable, summarizeCurve } from './plotDescription';
+import { vectorPlot } from './roundEngine';
+
+describe('summarizeCurve', () => {
+  test('finds the range and counts sign changes, skipping gaps and zeros', () => {
+    expect(summarizeCurve([1, 0, -2, null, -1, 3])).toEqual({ min: -2, max: 3, zeroCrossings: 2 });
+  });
+
+  test('returns null for a curve with no defined samples', () => {
+    expect(summarizeCurve([null, null])).toBeNull();
+  });
+});
+
+describe('sameSignShare', () => {
+  test('counts the samples where both curves agree in sign', () => {
+    expect(sameSignShare([1, 1, -1, -1], [1, -1, -1, 1])).toBe(0.5);
+  });
+
+  test('ignores samples where either curve is zero or undefined', () => {
+    expect(sameSignShare([1, 0, null, 2], [1, 5, 5, 3])).toBe(1);
+    expect(sameSignShare([0], [1])).toBeNull();
+  });
+});
+
+describe('describePlot', () => {
+  test('describes a pair of functions by range, sign changes and sign agreement', () => {
+    const xs = [-1, -0.5, 0, 0.5, 1];
+    const description = describePlot({ x_values: xs, y1_values: xs, y2_values: xs.map(x => x * x) });
+    expect(description).toContain('Functions f and g on [-1, 1].');
+    expect(description).toContain('f ranges from -1 to 1 and changes sign once.');
+    expect(description).toContain('g ranges from 0 to 1 and never changes sign.');
+    expect(description).toContain('same sign over 50% of the interval');
+  });
+
+  test('lists the entries of short vectors', () => {
+    const description = describePlot(vectorPlot([1, -2, 3], [4, 5, 6]));
+    expect(description).toContain('Vectors u and v with 3 entries.');
+    expect(description).toContain('u = (1, -2, 3).');
+    expect(description).toContain('same sign in 67% of the entries');
+  });
+});
+
+describe('sampleTable', () => {
+  test('samples evenly, including both ends', () => {
+    const xs = Array.from({ length: 201 }, (_, i) => i / 100 - 1);
+    const rows = sampleTable({ x_values: xs, y1_values: xs, y2_values: xs }, 5);
+    expect(rows.map(row => row.x)).toEqual([-1, -0.5, 0, 0.5, 1]);
+  });
+
+  test('keeps every vector entry', () => {
+    expect(sampleTable(vectorPlot([1, 2, 3], [4, 5, 6]), 2)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,83 @@
+import { PlotData } from './roundEngine';
+
+// --- Text Alternative ---
+// What a sighted player reads off the plot, in words: where each curve lies, how often it
+// crosses zero, and how much of the interval the two share a sign (which is what pushes the
+// angle below or above 90°). Used as the chart's accessible name and fallback content.
+
+export interface CurveSummary {
+    min: number;
+    max: number;
+    zeroCrossings: number;
+}
+
+export interface TableRow {
+    x: number;
+    y1: number | null;
+    y2: number | null;
+}
+
+const TABLE_ROWS = 11;
+const MAX_LISTED_ENTRIES = 10;
+
+const format = (x: number): string => String(Number(x.toFixed(2)));
+
+// Gaps (null samples) are skipped; a crossing is a sign change between consecutive defined samples.
+export function summarizeCurve(ys: (number | null)[]): CurveSummary | null {
+    const defined = ys.filter((y): y is number => y !== null && isFinite(y));
+    if (defined.length === 0) return null;
+    let zeroCrossings = 0;
+    let lastSign = 0;
+    for (const y of defined) {
+        const sign = Math.sign(y);
+        if (sign === 0) continue;
+        if (lastSign !== 0 && sign !== lastSign) zeroCrossings++;
+        lastSign = sign;
+    }
+    return { min: Math.min(...defined), max: Math.max(...defined), zeroCrossings };
+}
+
+// The fraction of samples, among those where both are defined and non-zero, where the two agree in sign.
+export function sameSignShare(y1: (number | null)[], y2: (number | null)[]): number | null {
+    let both = 0;
+    let same = 0;
+    y1.forEach((a, i) => {
+        const b = y2[i];
+        if (a === null || b === null || a === 0 || b === 0) return;
+        both++;
+        if (Math.sign(a) === Math.sign(b)) same++;
+    });
+    return both === 0 ? null : same / both;
+}
+
+function describeCurve(name: string, ys: (number | null)[], isDiscrete: boolean): string {
+    const summary = summarizeCurve(ys);
+    if (!summary) return `${name} is undefined everywhere.`;
+    if (isDiscrete && ys.length <= MAX_LISTED_ENTRIES) return `${name} = (${ys.map(y => (y === null ? '?' : format(y))).join(', ')}).`;
+    const crossings = summary.zeroCrossings === 0 ? 'never changes sign'
+        : summary.zeroCrossings === 1 ? 'changes sign once' : `changes sign ${summary.zeroCrossings} times`;
+    return `${name} ranges from ${format(summary.min)} to ${format(summary.max)} and ${crossings}.`;
+}
+
+export function describePlot(plot: PlotData): string {
+    const { x_values: xs, y1_values: y1, y2_values: y2, isDiscrete = false } = plot;
+    if (xs.length === 0) return 'Empty plot.';
+    const [f, g] = isDiscrete ? ['u', 'v'] : ['f', 'g'];
+    const intro = isDiscrete
+        ? `Vectors ${f} and ${g} with ${xs.length} entries.`
+        : `Functions ${f} and ${g} on [${format(xs[0])}, ${format(xs[xs.length - 1])}].`;
+    const share = sameSignShare(y1, y2);
+    const agreement = share === null ? '' : isDiscrete
+        ? ` ${f} and ${g} have the same sign in ${Math.round(share * 100)}% of the entries.`
+        : ` ${f} and ${g} have the same sign over ${Math.round(share * 100)}% of the interval.`;
+    return `${intro} ${describeCurve(f, y1, isDiscrete)} ${describeCurve(g, y2, isDiscrete)}${agreement}`;
+}
+
+// Every entry of a vector, or evenly spaced samples of a pair of functions.
+export function sampleTable(plot: PlotData, rows = TABLE_ROWS): TableRow[] {
+    const n = plot.x_values.length;
+    const indices = plot.isDiscrete || n <= rows
+        ? plot.x_values.map((_, i) => i)
+        : Array.from({ length: rows }, (_, k) => Math.round(k * (n - 1) / (rows - 1)));
+    return indices.map(i => ({ x: plot.x_values[i], y1: plot.y1_values[i], y2: plot.y2_values[i] }));
+}
@@ -0,0 +1,79 @@
+import { buildOverlay, panRange, signedArea, zoomRange } from './plotOverlays';
+import { samplePlot, vectorPlot } from './roundEngine';
+import { math } from './gameLogic';
+import { compileFunction } from './compiledFunction';
+import { INNER_PRODUCTS } from './innerProducts';
+
+const fn = (expression: string) => compileFunction(math.parse(expression));
+
+describe('signedArea', () => {
+  test('integrates sampled curves with the trapezoidal rule', () => {
+    expect(signedArea([0, 1, 2], [0, 1, 2])).toBeCloseTo(2);
+    expect(signedArea([0, 1, 2], [-1, -1, -1])).toBeCloseTo(-2);
+  });
+
+  test('skips gaps', () => {
+    expect(signedArea([0, 1, 2, 3], [1, null, 1, 1])).toBeCloseTo(1);
+  });
+});
+
+describe('buildOverlay', () => {
+  const plot = samplePlot(fn('x'), fn('x^2 + 1'), [-1, 1]);
+
+  test('the product area is the L² inner product', () => {
+    const [product] = buildOverlay(plot, 'product');
+    expect(product.label).toBe('f·g');
+    expect(product.area).toBeCloseTo(0, 3); // x³ + x is odd.
+  });
+
+  test('the squares are the squared norms', () => {
+    const [f2, g2] = buildOverlay(plot, 'squares');
+    expect(f2.area).toBeCloseTo(2 / 3, 3);
+    expect(g2.area).toBeCloseTo(2 / 5 + 4 / 3 + 2, 2);
+  });
+
+  test('multiplies in the weight', () => {
+    const [product] = buildOverlay(samplePlot(fn('1'), fn('1'), [0, 1]), 'product', { ...INNER_PRODUCTS.l2, weight: x => 2 * x });
+    expect(product.label).toBe('w·f·g');
+    expect(product.area).toBeCloseTo(1, 3);
+  });
+
+  test('leaves out samples where the weight is infinite and takes the areas from the quadrature', () => {
+    const chebyshev = samplePlot(fn('1'), fn('x'), [-1, 1]);
+    const [f2, g2] = buildOverlay(chebyshev, 'squares', INNER_PRODUCTS.chebyshev, { innerProduct: 0, normF1: Math.sqrt(Math.PI), normF2: Math.sqrt(Math.PI / 2) });
+    expect(f2.values[0]).toBeNull();
+    expect(f2.values.slice(1, -1).every(value => value !== null && isFinite(value))).toBe(true);
+    expect(f2.area).toBeCloseTo(Math.PI);
+    expect(g2.area).toBeCloseTo(Math.PI / 2);
+  });
+
+  test('only shows the L² part of the Sobolev product', () => {
+    const [product] = buildOverlay(plot, 'product', INNER_PRODUCTS.sobolev, { innerProduct: 42, normF1: 1, normF2: 1 });
+    expect(product.label).toBe('f·g (L² part)');
+    expect(product.area).toBeCloseTo(0, 3);
+  });
+
+  test('is empty when switched off or for vectors', () => {
+    expect(buildOverlay(plot, 'none')).toEqual([]);
+    expect(buildOverlay(vectorPlot([1, 2], [3, 4]), 'product')).toEqual([]);
+  });
+});
+
+describe('zoom and pan', () => {
+  const full: [number, number] = [-10, 10];
+
+  test('zooming keeps the point under the cursor in place', () => {
+    const [min, max] = zoomRange(full, full, 5, 0.5);
+    expect([min, max]).toEqual([-2.5, 7.5]);
+  });
+
+  test('never zooms out past the full range', () => {
+    expect(zoomRange([-5, 5], full, 0, 10)).toEqual(full);
+  });
+
+  test('panning stops at the edges', () => {
+    expect(panRange([-5, 5], full, 3)).toEqual([-2, 8]);
+    expect(panRange([-5, 5], full, 100)).toEqual([0, 10]);
+    expect(panRange([-5, 5], full, -100)).toEqual([-10, 0]);
+  });
+});
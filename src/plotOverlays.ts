@@ -0,0 +1,90 @@
+import { PlotData } from './roundEngine';
+import { AngleBreakdown } from './gameLogic';
+import { InnerProductDefinition } from './innerProducts';
+
+// --- Overlays ---
+// Shaded curves that make the integrals behind the angle visible: f·g, whose signed area is
+// ⟨f, g⟩, and f², g², whose areas are the squared norms. With a weighted inner product the
+// weight is multiplied in, so the areas are exactly the integrals being compared. The Sobolev
+// product's f′g′ term has no curve of its own, so its overlays only show the L² part.
+
+export type OverlayId = 'none' | 'product' | 'squares';
+
+export interface OverlayCurve {
+    label: string;
+    // Which function's colour the curve is drawn in; the product gets a colour of its own.
+    color: 'func1' | 'func2' | 'product';
+    values: (number | null)[];
+    area: number;
+}
+
+// Samples where the weight blows up (the Chebyshev weight at ±1) are left out as gaps.
+const multiply = (a: (number | null)[], b: (number | null)[], xs: number[], weight?: (x: number) => number) =>
+    a.map((value, i) => {
+        if (value === null || b[i] === null) return null;
+        const product = value * b[i]! * (weight ? weight(xs[i]) : 1);
+        return isFinite(product) ? product : null;
+    });
+
+// Trapezoidal area under the sampled curve. Gaps (null samples) contribute nothing.
+export function signedArea(xs: number[], ys: (number | null)[]): number {
+    let area = 0;
+    for (let i = 1; i < xs.length; i++) {
+        const a = ys[i - 1];
+        const b = ys[i];
+        if (a === null || b === null) continue;
+        area += (xs[i] - xs[i - 1]) * (a + b) / 2;
+    }
+    return area;
+}
+
+// The areas are the round's integrals where known, since the quadrature is far more accurate than
+// the plot samples (and copes with singular weights); otherwise they are estimated from the samples.
+export type OverlayIntegrals = Pick<AngleBreakdown, 'innerProduct' | 'normF1' | 'normF2'>;
+
+export function buildOverlay(plot: PlotData, overlay: OverlayId, innerProduct?: InnerProductDefinition, integrals?: OverlayIntegrals): OverlayCurve[] {
+    if (overlay === 'none' || plot.isDiscrete) return [];
+    const xs = plot.x_values;
+    const weight = innerProduct?.weight;
+    const w = weight ? 'w·' : '';
+    const suffix = innerProduct?.usesDerivatives ? ' (L² part)' : '';
+    // The round's integrals include the derivative term, which the curves leave out.
+    const known = innerProduct?.usesDerivatives ? undefined : integrals;
+    const curve = (label: string, color: OverlayCurve['color'], values: (number | null)[], area?: number): OverlayCurve =>
+        ({ label: `${label}${suffix}`, color, values, area: area ?? signedArea(xs, values) });
+
+    if (overlay === 'product') {
+        return [curve(`${w}f·g`, 'product', multiply(plot.y1_values, plot.y2_values, xs, weight), known?.innerProduct)];
+    }
+    return [
+        curve(`${w}f²`, 'func1', multiply(plot.y1_values, plot.y1_values, xs, weight), known && known.normF1 ** 2),
+        curve(`${w}g²`, 'func2', multiply(plot.y2_values, plot.y2_values, xs, weight), known && known.normF2 ** 2),
+    ];
+}
+
+// --- Zoom and Pan ---
+// The visible x range, kept inside the full range of the plot.
+
+export type Range = [number, number];
+
+// Smallest visible share of the full range.
+const MIN_ZOOM_SHARE = 0.02;
+
+function clampRange([min, max]: Range, [fullMin, fullMax]: Range): Range {
+    const width = Math.min(max - min, fullMax - fullMin);
+    const start = Math.min(Math.max(min, fullMin), fullMax - width);
+    return [start, start + width];
+}
+
+// Zooms by `factor` (< 1 zooms in) around `centre`, keeping the point under the cursor in place.
+export function zoomRange(range: Range, full: Range, centre: number, factor: number): Range {
+    const minWidth = (full[1] - full[0]) * MIN_ZOOM_SHARE;
+    const width = Math.max(minWidth, (range[1] - range[0]) * factor);
+    const share = (centre - range[0]) / (range[1] - range[0]);
+    const min = centre - share * width;
+    return clampRange([min, min + width], full);
+}
+
+export function panRange(range: Range, full: Range, delta: number): Range {
+    return clampRange([range[0] + delta, range[1] + delta], full);
+}
@@ -0,0 +1,80 @@
+import { integrate } from './quadrature';
+
+// Composite Simpson's rule, as an independent reference for smooth integrands.
+function simpson(func: (x: number) => number, a: number, b: number, n = 2000): number {
+  const h = (b - a) / n;
+  let sum = func(a) + func(b);
+  for (let i = 1; i < n; i++) sum += func(a + i * h) * (i % 2 === 1 ? 4 : 2);
+  return (sum * h) / 3;
+}
+
+describe('integrate', () => {
+  test('matches known integrals', () => {
+    expect(integrate(x => x * x, 0, 1).value).toBeCloseTo(1 / 3, 12);
+    expect(integrate(Math.sin, 0, Math.PI).value).toBeCloseTo(2, 10);
+    expect(integrate(Math.exp, -1, 2).value).toBeCloseTo(Math.exp(2) - Math.exp(-1), 10);
+    expect(integrate(x => x, 1, 1)).toEqual({ value: 0, errorEstimate: 0, converged: true, singularities: [] });
+  });
+
+  test('handles cube roots, whose derivative blows up at 0', () => {
+    // ∫ cbrt(x)² over [-1, 1] is 2 · 3/5.
+    expect(integrate(x => Math.cbrt(x) ** 2, -1, 1).value).toBeCloseTo(6 / 5, 7);
+    // Substituting x = t³: ∫ sin(t) 3t² dt, with antiderivative 3(2t sin t − (t² − 2) cos t).
+    const antiderivative = (t: number) => 3 * (2 * t * Math.sin(t) - (t * t - 2) * Math.cos(t));
+    const { value, converged } = integrate(x => Math.sin(Math.cbrt(x)), -1, 2);
+    expect(converged).toBe(true);
+    expect(value).toBeCloseTo(antiderivative(Math.cbrt(2)) - antiderivative(-1), 7);
+  });
+
+  test('handles exp(1/(x² + 1))', () => {
+    const func = (x: number) => Math.exp(1 / (x * x + 1));
+    expect(integrate(func, -1, 1).value).toBeCloseTo(simpson(func, -1, 1), 8);
+    expect(integrate(func, -5, 5).value).toBeCloseTo(simpson(func, -5, 5), 8);
+  });
+
+  test('the error estimate covers the actual error', () => {
+    const cases: [(x: number) => number, number, number, number][] = [
+      [Math.sqrt, 0, 1, 2 / 3],
+      [Math.log, 0, 1, -1],
+      [x => 1 / Math.sqrt(Math.abs(x)), -1, 1, 4],
+    ];
+    for (const [func, a, b, exact] of cases) {
+      const { value, errorEstimate, converged } = integrate(func, a, b);
+      expect(converged).toBe(true);
+      expect(Math.abs(value - exact)).toBeLessThanOrEqual(errorEstimate);
+    }
+  });
+
+  test('stops at the requested tolerance, and says when it could not reach it', () => {
+    const loose = integrate(Math.sqrt, 0, 1, { absTolerance: 0, relTolerance: 1e-3 });
+    const tight = integrate(Math.sqrt, 0, 1);
+    expect(loose.converged).toBe(true);
+    expect(loose.errorEstimate).toBeLessThanOrEqual(1e-3 * loose.value);
+    expect(tight.errorEstimate).toBeLessThan(loose.errorEstimate);
+
+    const truncated = integrate(Math.sqrt, 0, 1, { maxSubdivisions: 2 });
+    expect(truncated.converged).toBe(false);
+    expect(truncated.singularities).toEqual([]);
+    expect(truncated.value).toBeCloseTo(2 / 3, 3);
+  });
+
+  test('reports where the integral does not exist', () => {
+    const pole = integrate(x => 1 / x, -1, 1);
+    expect(pole.value).toBeNaN();
+    expect(pole.errorEstimate).toBe(Infinity);
+    expect(pole.converged).toBe(false);
+    expect(pole.singularities).toHaveLength(1);
+    expect(pole.singularities[0]).toBeCloseTo(0, 9);
+
+    const doublePole = integrate(x => 1 / (x - 0.5) ** 2, 0, 1);
+    expect(doublePole.singularities.map(x => x.toFixed(6))).toEqual(['0.500000']);
+  });
+
+  test('treats values that are not real numbers as undefined', () => {
+    const { singularities, value } = integrate(x => (x < 0.25 || x > 0.75 ? 1 : NaN), 0, 1, { maxSubdivisions: 20 });
+    expect(value).toBeNaN();
+    expect(singularities).toHaveLength(1);
+    expect(singularities[0]).toBeGreaterThan(0.25);
+    expect(singularities[0]).toBeLessThan(0.75);
+  });
+});
@@ -0,0 +1,155 @@
+// --- Adaptive Gauss–Kronrod Quadrature ---
+// Globally adaptive G7/K15 integration (in the spirit of QUADPACK's QAG). The interval is split
+// where the Kronrod/Gauss disagreement is largest until the total error estimate is below the
+// tolerance. Nodes never touch the endpoints, so integrable endpoint singularities are fine;
+// segments that keep producing non-finite values or refuse to converge before shrinking to
+// nothing are reported as singular points instead of being silently summed into the result.
+
+export interface IntegrationOptions {
+    absTolerance?: number;
+    relTolerance?: number;
+    maxSubdivisions?: number;
+}
+
+export interface IntegrationResult {
+    value: number;
+    errorEstimate: number;
+    converged: boolean;
+    // Points where the integrand is undefined or the integral does not appear to exist.
+    singularities: number[];
+}
+
+interface Segment {
+    a: number;
+    b: number;
+    value: number;
+    error: number;
+    isDefined: boolean;
+}
+
+// Kronrod nodes (positive half, descending) and weights; the odd-indexed nodes plus the centre
+// are the 7-point Gauss nodes.
+const XGK = [
+    0.991455371120812639206854697526329, 0.949107912342758524526189684047851,
+    0.864864423359769072789712788640926, 0.741531185599394439863864773280788,
+    0.586087235467691130294144845693013, 0.405845151377397166906606412076961,
+    0.207784955007898467600689403773245, 0.000000000000000000000000000000000,
+];
+const WGK = [
+    0.022935322010529224963732008058970, 0.063092092629978553290700663189204,
+    0.104790010322250183839876322541518, 0.140653259715525918745189590510238,
+    0.169004726639267902826583426598550, 0.190350578064785409913256402421014,
+    0.204432940075298892414161999234649, 0.209482141084727828012999174891714,
+];
+const WG = [
+    0.129484966168869693270611432679082, 0.279705391489276667901467771423780,
+    0.381830050505118944950369775488975, 0.417959183673469387755102040816327,
+];
+
+const DEFAULT_OPTIONS: Required<IntegrationOptions> = {
+    absTolerance: 1e-10,
+    relTolerance: 1e-8,
+    maxSubdivisions: 200,
+};
+
+// Largest error (relative to the integral) a segment may still carry once it has shrunk to nothing.
+const SETTLE_TOLERANCE = 1e-6;
+
+function gaussKronrod(func: (x: number) => number, a: number, b: number): Segment {
+    const centre = (a + b) / 2;
+    const halfLength = (b - a) / 2;
+
+    const fCentre = func(centre);
+    let resultKronrod = fCentre * WGK[7];
+    let resultGauss = fCentre * WG[3];
+    let isDefined = Number.isFinite(fCentre);
+
+    for (let j = 0; j < 7; j++) {
+        const dx = halfLength * XGK[j];
+        const pairSum = func(centre - dx) + func(centre + dx);
+        if (!Number.isFinite(pairSum)) isDefined = false;
+        resultKronrod += WGK[j] * pairSum;
+        if (j % 2 === 1) resultGauss += WG[(j - 1) / 2] * pairSum;
+    }
+
+    return {
+        a,
+        b,
+        value: resultKronrod * halfLength,
+        error: Math.abs((resultKronrod - resultGauss) * halfLength),
+        isDefined,
+    };
+}
+
+export function integrate(
+    func: (x: number) => number,
+    a: number,
+    b: number,
+    options: IntegrationOptions = {}
+): IntegrationResult {
+    const { absTolerance, relTolerance, maxSubdivisions } = { ...DEFAULT_OPTIONS, ...options };
+    if (a === b) return { value: 0, errorEstimate: 0, converged: true, singularities: [] };
+
+    // Anything that is not a finite real number (mathjs may hand back Complex values) counts as undefined.
+    const safeFunc = (x: number) => {
+        const y = func(x);
+        return typeof y === 'number' ? y : NaN;
+    };
+
+    const minWidth = Math.abs(b - a) * 1e-12;
+    // Segments still being refined, and those that shrank to nothing around an integrable singularity.
+    const segments: Segment[] = [gaussKronrod(safeFunc, a, b)];
+    const settled: Segment[] = [];
+    const singularities: number[] = [];
+    const sum = (list: Segment[], key: 'value' | 'error') => list.reduce((acc, s) => acc + s[key], 0);
+    const totalValue = () => sum(segments, 'value') + sum(settled, 'value');
+    const isWithinTolerance = () =>
+        segments.every(s => s.isDefined) && sum(segments, 'error') <= Math.max(absTolerance, relTolerance * Math.abs(totalValue()));
+
+    for (let i = 0; i < maxSubdivisions && segments.length > 0 && !isWithinTolerance(); i++) {
+        // Refine the worst segment: undefined values first, then the largest error.
+        let worstIndex = 0;
+        for (let j = 1; j < segments.length; j++) {
+            const current = segments[j];
+            const worst = segments[worstIndex];
+            if ((!current.isDefined && worst.isDefined) || (current.isDefined === worst.isDefined && current.error > worst.error)) {
+                worstIndex = j;
+            }
+        }
+        const worst = segments[worstIndex];
+
+        if (Math.abs(worst.b - worst.a) < minWidth) {
+            segments.splice(worstIndex, 1);
+            if (worst.isDefined && worst.error <= SETTLE_TOLERANCE * Math.max(1, Math.abs(totalValue()))) {
+                // The contribution vanishes as the segment shrinks: an integrable singularity.
+                settled.push(worst);
+                continue;
+            }
+            // Cannot be resolved any further: this is where the integrand blows up.
+            singularities.push((worst.a + worst.b) / 2);
+            break;
+        }
+
+        const mid = (worst.a + worst.b) / 2;
+        segments.splice(worstIndex, 1, gaussKronrod(safeFunc, worst.a, mid), gaussKronrod(safeFunc, mid, worst.b));
+    }
+
+    // Runs of segments that are still undefined after running out of subdivisions are singular too.
+    if (singularities.length === 0) {
+        const sorted = [...segments].sort((s, t) => s.a - t.a);
+        for (let j = 0; j < sorted.length; j++) {
+            if (sorted[j].isDefined) continue;
+            const runStart = sorted[j].a;
+            while (j + 1 < sorted.length && !sorted[j + 1].isDefined) j++;
+            singularities.push((runStart + sorted[j].b) / 2);
+        }
+    }
+
+    const allDefined = singularities.length === 0 && segments.every(s => s.isDefined);
+    return {
+        value: allDefined ? totalValue() : NaN,
+        errorEstimate: allDefined ? sum(segments, 'error') + sum(settled, 'error') : Infinity,
+        converged: allDefined && isWithinTolerance(),
+        singularities,
+    };
+}
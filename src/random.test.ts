@@ -0,0 +1,60 @@
+import { createRng, hashSeed, pick, randomInt, randomSeed, shuffle } from './random';
+
+const take = (rng: () => number, n: number) => Array.from({ length: n }, rng);
+
+describe('createRng', () => {
+  test('the same seed gives the same sequence', () => {
+    expect(take(createRng(42), 20)).toEqual(take(createRng(42), 20));
+  });
+
+  test('different seeds give different sequences', () => {
+    expect(take(createRng(1), 5)).not.toEqual(take(createRng(2), 5));
+  });
+
+  test('values lie in [0, 1) and spread over it', () => {
+    const values = take(createRng(7), 10_000);
+    expect(values.every(v => v >= 0 && v < 1)).toBe(true);
+    const mean = values.reduce((acc, v) => acc + v, 0) / values.length;
+    expect(mean).toBeCloseTo(0.5, 1);
+  });
+
+  test('seeds are taken as 32-bit unsigned integers', () => {
+    expect(take(createRng(-1), 5)).toEqual(take(createRng(2 ** 32 - 1), 5));
+  });
+});
+
+describe('hashSeed', () => {
+  test('is the 32-bit FNV-1a hash', () => {
+    expect(hashSeed('')).toBe(0x811C9DC5);
+    expect(hashSeed('a')).toBe(0xE40C292C);
+    expect(hashSeed('foobar')).toBe(0xBF9CF968);
+  });
+
+  test('tells apart strings that differ in a single character', () => {
+    expect(hashSeed('2024-06-01:3')).not.toBe(hashSeed('2024-06-01:4'));
+  });
+});
+
+test('randomSeed is a 32-bit unsigned integer', () => {
+  const seed = randomSeed();
+  expect(Number.isInteger(seed)).toBe(true);
+  expect(seed).toBeGreaterThanOrEqual(0);
+  expect(seed).toBeLessThan(2 ** 32);
+});
+
+describe('helpers', () => {
+  test('randomInt, pick and shuffle stay within their input', () => {
+    const rng = createRng(3);
+    const ints = Array.from({ length: 200 }, () => randomInt(rng, 6));
+    expect(new Set(ints)).toEqual(new Set([0, 1, 2, 3, 4, 5]));
+    expect(['a', 'b', 'c']).toContain(pick(rng, ['a', 'b', 'c']));
+  });
+
+  test('shuffle permutes a copy, reproducibly', () => {
+    const items = [1, 2, 3, 4, 5, 6, 7, 8];
+    const shuffled = shuffle(createRng(9), items);
+    expect(items).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect([...shuffled].sort()).toEqual(items);
+    expect(shuffle(createRng(9), items)).toEqual(shuffled);
+  });
+});
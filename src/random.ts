@@ -0,0 +1,50 @@
+// --- Seedable Pseudo-Random Number Generation ---
+// Every random decision in round generation goes through an `Rng` so that a round can be
+// replayed from its seed, and so that everyone playing the daily challenge gets the same rounds.
+
+export type Rng = () => number;
+
+// mulberry32: tiny, fast and good enough for picking functions and intervals.
+export function createRng(seed: number): Rng {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// FNV-1a hash, used to turn strings such as "2024-06-01:3" into 32-bit seeds.
+export function hashSeed(value: string): number {
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// Integer in [0, n)
+export function randomInt(rng: Rng, n: number): number {
+    return Math.floor(rng() * n);
+}
+
+export function pick<T>(rng: Rng, items: readonly T[]): T {
+    return items[randomInt(rng, items.length)];
+}
+
+// Fisher–Yates shuffle on a copy of the input.
+export function shuffle<T>(rng: Rng, items: readonly T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = randomInt(rng, i + 1);
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
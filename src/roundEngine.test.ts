@@ -0,0 +1,181 @@
+import * as gameLogic from './gameLogic';
+import { math } from './gameLogic';
+import { compileFunction } from './compiledFunction';
+import { createRng } from './random';
+import { classifyExpressions } from './training';
+import {
+  acceptGuessInput,
+  generateRound,
+  isEasyAngle,
+  MAX_GENERATION_ATTEMPTS,
+  pickInterval,
+  rescalePair,
+  RoundGenerationError,
+  scoreGuess,
+  shouldRejectEasyAngle,
+  TIME_BONUS_MAX,
+  TIME_BONUS_WINDOW_MS,
+  timeBonusFor,
+} from './roundEngine';
+
+const fn = (expression: string) => compileFunction(math.parse(expression));
+
+const rules = { isUnitaryMode: false, acuteAnglesOnly: false, isEasyInterval: false, innerProduct: 'l2' as const, isVectorMode: false, vectorDimension: 3, difficulty: 'standard' as const };
+
+describe('scoreGuess', () => {
+  test('a perfect guess scores 100', () => {
+    expect(scoreGuess(42, 42)).toEqual({ diff: 0, score: 100 });
+  });
+
+  test('follows the cubic curve', () => {
+    const { diff, score } = scoreGuess(30, 120);
+    expect(diff).toBe(90);
+    expect(score).toBeCloseTo(100 * 0.5 ** 3);
+  });
+
+  test('is symmetric and never negative', () => {
+    expect(scoreGuess(10, 40).score).toBeCloseTo(scoreGuess(70, 40).score);
+    expect(scoreGuess(0, 180).score).toBe(0);
+  });
+
+  test('scores with the given strategy', () => {
+    expect(scoreGuess(30, 120, 'linear')).toEqual({ diff: 90, score: 50 });
+    expect(scoreGuess(30, 120, 'cubic').score).toBeCloseTo(scoreGuess(30, 120).score);
+  });
+});
+
+describe('timeBonusFor', () => {
+  test('an instant guess earns the full bonus on top of the base score', () => {
+    expect(timeBonusFor(60, 0)).toBeCloseTo(60 * TIME_BONUS_MAX);
+  });
+
+  test('the bonus shrinks linearly and is gone after the window', () => {
+    expect(timeBonusFor(100, TIME_BONUS_WINDOW_MS / 2)).toBeCloseTo(100 * TIME_BONUS_MAX / 2);
+    expect(timeBonusFor(100, TIME_BONUS_WINDOW_MS * 2)).toBe(0);
+  });
+});
+
+describe('acceptGuessInput', () => {
+  test('accepts values up to 180 degrees', () => {
+    expect(acceptGuessInput('180', rules)).toBe('180');
+    expect(acceptGuessInput('', rules)).toBe('');
+  });
+
+  test('rejects out-of-range and non-numeric values', () => {
+    expect(acceptGuessInput('181', rules)).toBeNull();
+    expect(acceptGuessInput('-1', rules)).toBeNull();
+    expect(acceptGuessInput('abc', rules)).toBeNull();
+  });
+
+  test('clamps at 90 degrees in acute mode', () => {
+    expect(acceptGuessInput('90', { acuteAnglesOnly: true })).toBe('90');
+    expect(acceptGuessInput('91', { acuteAnglesOnly: true })).toBeNull();
+  });
+});
+
+describe('pickInterval', () => {
+  test('uses [-1, 1] for the easy interval', () => {
+    expect(pickInterval({ ...rules, isEasyInterval: true }, createRng(1))).toEqual([-1, 1]);
+  });
+
+  test('plays on the domain of the Chebyshev weight', () => {
+    expect(pickInterval({ ...rules, innerProduct: 'chebyshev' }, createRng(1))).toEqual([-1, 1]);
+  });
+
+  test('picks ordered, non-empty integer intervals within [-5, 5]', () => {
+    const rng = createRng(7);
+    for (let i = 0; i < 100; i++) {
+      const [a, b] = pickInterval(rules, rng);
+      expect(a).toBeLessThan(b);
+      expect(a).toBeGreaterThanOrEqual(-5);
+      expect(b).toBeLessThanOrEqual(5);
+    }
+  });
+});
+
+describe('rescalePair', () => {
+  test('leaves comparable functions alone', () => {
+    const { k } = rescalePair(fn('x'), fn('3x'), [-1, 1]);
+    expect(k).toBe(1);
+  });
+
+  test('scales up the smaller function when the ratio exceeds 5', () => {
+    const { f1, f2, k } = rescalePair(fn('x'), fn('12x'), [-1, 1]);
+    expect(k).toBe(3);
+    expect(f1.evaluate(1)).toBeCloseTo(3);
+    expect(f2.evaluate(1)).toBeCloseTo(12);
+  });
+});
+
+describe('easy-angle rejection', () => {
+  test('recognises angles near 0, 90 and 180 degrees', () => {
+    expect(isEasyAngle(0.5)).toBe(true);
+    expect(isEasyAngle(89.2)).toBe(true);
+    expect(isEasyAngle(179.5)).toBe(true);
+    expect(isEasyAngle(45)).toBe(false);
+  });
+
+  test('rejects an easy angle only if one of the last 5 rounds was easy', () => {
+    const easyThenHard = [{ isEasy: true }, ...Array(5).fill({ isEasy: false })];
+    expect(shouldRejectEasyAngle(true, [])).toBe(false);
+    expect(shouldRejectEasyAngle(true, [{ isEasy: false }, { isEasy: true }])).toBe(true);
+    expect(shouldRejectEasyAngle(true, easyThenHard)).toBe(false);
+    expect(shouldRejectEasyAngle(false, [{ isEasy: true }])).toBe(false);
+  });
+});
+
+describe('generateRound', () => {
+  test('explains the angle, including any rescaling of the pair', () => {
+    const rounds = Array.from({ length: 10 }, (_, seed) => generateRound(rules, [], seed).round);
+    for (const { angle, breakdown } of rounds) {
+      expect(Math.acos(breakdown!.cosTheta) * (180 / Math.PI)).toBeCloseTo(angle, 6);
+    }
+    const factors = rounds.flatMap(({ breakdown }) => (breakdown!.rescale ? [breakdown!.rescale.factor] : []));
+    expect(factors.every(k => k > 1)).toBe(true);
+  });
+
+  test('is reproducible from its seed', () => {
+    const first = generateRound(rules, [], 1234);
+    const second = generateRound(rules, [], 1234);
+    expect(second).toEqual(first);
+  });
+
+  test('never produces an easy angle right after an easy round', () => {
+    const history = [{ isEasy: true }];
+    for (let seed = 0; seed < 10; seed++) {
+      expect(generateRound({ ...rules, isEasyInterval: true }, history, seed).round.isEasy).toBe(false);
+    }
+  });
+
+  test('respects acute mode', () => {
+    for (let seed = 0; seed < 10; seed++) {
+      expect(generateRound({ ...rules, acuteAnglesOnly: true }, [], seed).round.angle).toBeLessThanOrEqual(90);
+    }
+  });
+
+  test('spreads angles over the whole range', () => {
+    const angles = Array.from({ length: 30 }, (_, seed) => generateRound(rules, [], seed).round.angle);
+    for (const [from, to] of [[0, 60], [60, 120], [120, 180]]) {
+      expect(angles.filter(angle => angle >= from && angle <= to).length).toBeGreaterThanOrEqual(4);
+    }
+  });
+
+  test('aims at a training focus', () => {
+    for (const family of ['trig', 'exp', 'composed'] as const) {
+      for (let seed = 0; seed < 3; seed++) {
+        const { round } = generateRound(rules, [], seed, { from: 30, to: 60, family });
+        // Factors are rounded, so the angle lands near the range rather than exactly in it.
+        expect(round.angle).toBeGreaterThan(25);
+        expect(round.angle).toBeLessThan(65);
+        expect(classifyExpressions(round.f1_expr, round.f2_expr)).toBe(family);
+      }
+    }
+  });
+
+  test('gives up after a bounded number of attempts', () => {
+    const aim = jest.spyOn(gameLogic, 'aimAtAngle').mockReturnValue(null);
+    expect(() => generateRound(rules, [], 1)).toThrow(RoundGenerationError);
+    expect(aim).toHaveBeenCalledTimes(MAX_GENERATION_ATTEMPTS);
+    aim.mockRestore();
+  });
+});
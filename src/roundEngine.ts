@@ -0,0 +1,273 @@
+import { AppSettings } from './App';
+import { RoundData } from './components/Stats';
+import { getNewFunctions, calculateAngle, aimAtAngle, AngleBreakdown } from './gameLogic';
+import { CompiledFunction, compileFunction, scaleFunction, linspace, sampleFunction } from './compiledFunction';
+import { Rng, createRng, randomInt } from './random';
+import { getInnerProduct } from './innerProducts';
+import { DifficultyLevelId, getDifficultyLevel, sampleTargetAngle } from './difficulty';
+import { calculateVectorAngle, clampDimension, formatVector, generateVectorPair, vectorToTex } from './vectors';
+import { DEFAULT_SCORING, ScoringStrategyId, getScoringStrategy } from './scoring';
+import { RoundFocus, classifyExpressions, focusLevel } from './training';
+
+// --- Round Engine ---
+// The rules of the game, free of React so they can be unit tested and run inside the round worker.
+
+// Unlike the setting, the rules carry the resolved difficulty level (never 'auto').
+export type RoundRules = Pick<AppSettings, 'isUnitaryMode' | 'acuteAnglesOnly' | 'isEasyInterval' | 'innerProduct' | 'isVectorMode' | 'vectorDimension'> & {
+    difficulty: DifficultyLevelId;
+};
+
+export type PlotData = {
+    x_values: number[];
+    y1_values: (number | null)[];
+    y2_values: (number | null)[];
+    // Vector components, drawn as stems at x = 1..n instead of a curve.
+    isDiscrete?: boolean;
+};
+
+export interface IRoundData {
+    angle: number;
+    f1_str: string;
+    f2_str: string;
+    isEasy: boolean;
+    seed: number;
+    // Parseable mathjs expressions of the plotted functions, and the interval they live on.
+    // In vector mode these are the vectors as arrays, living on [1, n].
+    f1_expr: string;
+    f2_expr: string;
+    interval: [number, number];
+    level?: DifficultyLevelId;
+    breakdown?: RoundBreakdown;
+}
+
+// The angle's breakdown, plus the rescaling done before it was computed.
+export type RoundBreakdown = AngleBreakdown & {
+    rescale?: { factor: number, target: 'f1' | 'f2' };
+};
+
+export interface RoundPayload {
+    round: IRoundData;
+    plot: PlotData;
+}
+
+export const PLOT_SAMPLES = 200;
+
+// Angles this close to 0°, 90° or 180° are "easy" and may not show up twice within RECENT_ROUNDS.
+export const EASY_ANGLES = [0, 90, 180];
+export const EASY_ANGLE_TOLERANCE = 1.0;
+export const RECENT_ROUNDS = 5;
+
+// A function more than this many times larger than the other gets the other one scaled up.
+export const MAX_AMPLITUDE_RATIO = 5;
+
+// Candidates tried before giving up on a round. Far more than valid rules ever need.
+export const MAX_GENERATION_ATTEMPTS = 100;
+
+export class RoundGenerationError extends Error {
+    constructor(attempts: number, lastRejection: string) {
+        super(`No valid round found in ${attempts} attempts (last rejected: ${lastRejection})`);
+        this.name = 'RoundGenerationError';
+    }
+}
+
+// --- Intervals ---
+// Weights that only exist on a fixed domain (Chebyshev) always play on that domain.
+export function pickInterval(rules: RoundRules, rng: Rng): [number, number] {
+    const { domain } = getInnerProduct(rules.innerProduct);
+    if (domain) return [domain[0], domain[1]];
+    if (rules.isEasyInterval) return [-1, 1];
+    const [lo, hi] = getDifficultyLevel(rules.difficulty).intervalRange;
+    let a, b;
+    do {
+        a = randomInt(rng, hi - lo + 1) + lo;
+        b = randomInt(rng, hi - lo + 1) + lo;
+    } while (a === b);
+    return [Math.min(a, b), Math.max(a, b)];
+}
+
+// --- Rescaling ---
+const maxAbsFinite = (ys: Float64Array): number => {
+    let max = -Infinity;
+    ys.forEach(y => {
+        if (isFinite(y)) max = Math.max(max, Math.abs(y));
+    });
+    return max;
+};
+
+export interface RescaledPair {
+    f1: CompiledFunction;
+    f2: CompiledFunction;
+    // The factor applied to the smaller function, or 1 if the pair was left alone.
+    k: number;
+    scaled: 'f1' | 'f2' | null;
+}
+
+// Scales up the smaller function when one dwarfs the other, so both are visible on the same plot.
+export function rescalePair(f1: CompiledFunction, f2: CompiledFunction, interval: [number, number]): RescaledPair {
+    const x_vals_for_scaling = linspace(interval[0], interval[1], 100);
+    const max_abs_y1 = maxAbsFinite(sampleFunction(f1, x_vals_for_scaling));
+    const max_abs_y2 = maxAbsFinite(sampleFunction(f2, x_vals_for_scaling));
+    if (max_abs_y1 > 0 && max_abs_y2 > 0) {
+        const ratio = max_abs_y1 > max_abs_y2 ? max_abs_y1 / max_abs_y2 : max_abs_y2 / max_abs_y1;
+        if (ratio > MAX_AMPLITUDE_RATIO) {
+            const k = Math.ceil(ratio / MAX_AMPLITUDE_RATIO);
+            return max_abs_y1 > max_abs_y2
+                ? { f1, f2: scaleFunction(f2, k), k, scaled: 'f2' }
+                : { f1: scaleFunction(f1, k), f2, k, scaled: 'f1' };
+        }
+    }
+    return { f1, f2, k: 1, scaled: null };
+}
+
+// --- Easy-Angle Rejection ---
+export function isEasyAngle(angle: number): boolean {
+    return EASY_ANGLES.some(easy => Math.abs(angle - easy) < EASY_ANGLE_TOLERANCE);
+}
+
+// An easy angle is only allowed if none of the recent rounds was easy.
+export function shouldRejectEasyAngle(angleIsEasy: boolean, history: Pick<RoundData, 'isEasy'>[]): boolean {
+    return angleIsEasy && history.slice(-RECENT_ROUNDS).some(round => round.isEasy);
+}
+
+// --- Scoring ---
+export function maxGuess(rules: Pick<RoundRules, 'acuteAnglesOnly'>): number {
+    return rules.acuteAnglesOnly ? 90 : 180;
+}
+
+// Returns the accepted input, or null if the typed value is not a valid guess and should be ignored.
+export function acceptGuessInput(value: string, rules: Pick<RoundRules, 'acuteAnglesOnly'>): string | null {
+    if (value === '') return '';
+    const numValue = Number(value);
+    if (!isNaN(numValue) && numValue >= 0 && numValue <= maxGuess(rules)) return value;
+    return null;
+}
+
+export function scoreGuess(guess: number, actual: number, scoring: ScoringStrategyId = DEFAULT_SCORING): { diff: number, score: number } {
+    const diff = Math.abs(actual - guess);
+    return { diff, score: getScoringStrategy(scoring).score(guess, actual) };
+}
+
+// Timed modes add up to TIME_BONUS_MAX of the base score for guesses made within
+// TIME_BONUS_WINDOW_MS, shrinking linearly with the time taken.
+export const TIME_BONUS_MAX = 0.5;
+export const TIME_BONUS_WINDOW_MS = 10_000;
+
+export function timeBonusFor(baseScore: number, elapsedMs: number): number {
+    const speed = Math.max(0, 1 - elapsedMs / TIME_BONUS_WINDOW_MS);
+    return baseScore * TIME_BONUS_MAX * speed;
+}
+
+// --- Round Generation ---
+// A focus (training mode) replaces the level's target angles with its angle range and restricts the
+// functions to its family. Vector rounds cannot be aimed and ignore it.
+
+export function generateRound(rules: RoundRules, history: Pick<RoundData, 'isEasy'>[], seed: number, focus?: RoundFocus): RoundPayload {
+    if (rules.isVectorMode) return generateVectorRound(rules, history, seed);
+    const rng = createRng(seed);
+    const level = getDifficultyLevel(rules.difficulty);
+    const functionLevel = focus ? focusLevel(level, focus.family) : level;
+
+    let lastRejection = '';
+    for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+        const targetAngle = focus ? focus.from + rng() * (focus.to - focus.from) : sampleTargetAngle(level, maxGuess(rules), rng);
+        const interval = pickInterval(rules, rng);
+        const funcs = getNewFunctions(interval, rng, functionLevel);
+        const aimed = aimAtAngle(compileFunction(funcs.f1), compileFunction(funcs.f2), targetAngle, interval, rules.innerProduct);
+        if (!aimed) {
+            lastRejection = `cannot aim at ${targetAngle.toFixed(1)}°`;
+            continue;
+        }
+        const { f1, f2, k, scaled } = rescalePair(aimed.f1, aimed.f2, interval);
+
+        const { angle, f1_final, f2_final, breakdown, rejection } = calculateAngle(f1, f2, rules.isUnitaryMode, interval, rules.acuteAnglesOnly, rules.innerProduct);
+
+        // --- VALIDATION ---
+        if (angle === null || isNaN(angle)) {
+            lastRejection = rejection ?? 'no angle';
+            continue;
+        }
+
+        // Functions of a single family always make a pair of that family; mixing them is left to chance.
+        if (focus?.family === 'composed' && classifyExpressions(f1_final.node.toString(), f2_final.node.toString()) !== 'composed') {
+            lastRejection = 'not composed';
+            continue;
+        }
+
+        const angleIsEasy = isEasyAngle(angle);
+        if (shouldRejectEasyAngle(angleIsEasy, history)) {
+            lastRejection = `easy angle ${angle}° after a recent easy angle`;
+            continue;
+        }
+
+        const round: IRoundData = {
+            angle,
+            f1_str: f1_final.node.toTex({parenthesis: 'auto'}),
+            f2_str: f2_final.node.toTex({parenthesis: 'auto'}),
+            isEasy: angleIsEasy,
+            seed,
+            f1_expr: f1_final.node.toString(),
+            f2_expr: f2_final.node.toString(),
+            interval,
+            level: level.id,
+            breakdown: breakdown && { ...breakdown, ...(scaled && { rescale: { factor: k, target: scaled } }) },
+        };
+        return { round, plot: samplePlot(f1_final, f2_final, interval) };
+    }
+    throw new RoundGenerationError(MAX_GENERATION_ATTEMPTS, lastRejection);
+}
+
+function generateVectorRound(rules: RoundRules, history: Pick<RoundData, 'isEasy'>[], seed: number): RoundPayload {
+    const rng = createRng(seed);
+    const n = clampDimension(rules.vectorDimension);
+
+    let lastRejection = '';
+    for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+        const [u, v] = generateVectorPair(n, rng);
+        const { angle, f1_final, f2_final, breakdown, rejection } = calculateVectorAngle(u, v, rules.isUnitaryMode, rules.acuteAnglesOnly);
+
+        if (angle === null) {
+            lastRejection = rejection ?? 'no angle';
+            continue;
+        }
+
+        const angleIsEasy = isEasyAngle(angle);
+        if (shouldRejectEasyAngle(angleIsEasy, history)) {
+            lastRejection = `easy angle ${angle}° after a recent easy angle`;
+            continue;
+        }
+
+        const round: IRoundData = {
+            angle,
+            f1_str: vectorToTex('u', f1_final),
+            f2_str: vectorToTex('v', f2_final),
+            isEasy: angleIsEasy,
+            seed,
+            f1_expr: formatVector(f1_final),
+            f2_expr: formatVector(f2_final),
+            interval: [1, n],
+            breakdown,
+        };
+        return { round, plot: vectorPlot(f1_final, f2_final) };
+    }
+    throw new RoundGenerationError(MAX_GENERATION_ATTEMPTS, lastRejection);
+}
+
+export function vectorPlot(u: number[], v: number[]): PlotData {
+    return {
+        x_values: u.map((_, i) => i + 1),
+        y1_values: u,
+        y2_values: v,
+        isDiscrete: true,
+    };
+}
+
+export function samplePlot(f1: CompiledFunction, f2: CompiledFunction, interval: [number, number]): PlotData {
+    const x_samples = linspace(interval[0], interval[1], PLOT_SAMPLES);
+    const toPlotValues = (ys: Float64Array) => Array.from(ys, y => isFinite(y) ? y : null);
+
+    return {
+        x_values: Array.from(x_samples),
+        y1_values: toPlotValues(sampleFunction(f1, x_samples)),
+        y2_values: toPlotValues(sampleFunction(f2, x_samples)),
+    };
+}
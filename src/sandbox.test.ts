@@ -0,0 +1,19 @@
+import { parseUserFunction, validateInterval } from './sandbox';
+
+test('accepts expressions in x with named constants', () => {
+  expect(parseUserFunction('sin(pi * x) + e^x').error).toBeNull();
+});
+
+test('rejects other variables, unknown functions and syntax errors', () => {
+  expect(parseUserFunction('x + y').error).toMatch(/Unknown variable y/);
+  expect(parseUserFunction('foo(x)').error).toMatch(/Unknown function foo/);
+  expect(parseUserFunction('sin(x').error).not.toBeNull();
+  expect(parseUserFunction('  ').error).not.toBeNull();
+});
+
+test('validates the interval', () => {
+  expect(validateInterval(-1, 1)).toBeNull();
+  expect(validateInterval(1, 1)).toMatch(/a < b/);
+  expect(validateInterval(NaN, 1)).not.toBeNull();
+  expect(validateInterval(-100, 100)).toMatch(/at most/);
+});
@@ -0,0 +1,48 @@
+import { MathNode } from 'mathjs';
+import { math } from './gameLogic';
+
+// --- Sandbox Input Validation ---
+// User-entered expressions are parsed with the shared mathjs instance and must be functions of x
+// alone; named constants such as pi and e are allowed.
+
+export const MAX_SANDBOX_INTERVAL = 100;
+
+export type ParsedFunction = { node: MathNode; error: null } | { node: null; error: string };
+
+export function parseUserFunction(expression: string): ParsedFunction {
+    if (expression.trim() === '') return { node: null, error: 'Enter an expression in x' };
+
+    let node: MathNode;
+    try {
+        node = math.parse(expression);
+    } catch (error) {
+        return { node: null, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const unknownSymbols = node
+        .filter((n, path, parent) => math.isSymbolNode(n) && !(math.isFunctionNode(parent) && path === 'fn'))
+        .map(n => (n as unknown as { name: string }).name)
+        .filter(name => name !== 'x' && typeof (math as unknown as Record<string, unknown>)[name] !== 'number');
+    if (unknownSymbols.length > 0) {
+        return { node: null, error: `Unknown variable ${Array.from(new Set(unknownSymbols)).join(', ')}; use x only` };
+    }
+
+    const unknownFunctions = node
+        .filter(n => math.isFunctionNode(n))
+        .map(n => (n as unknown as { fn: { name: string } }).fn.name)
+        .filter(name => typeof (math as unknown as Record<string, unknown>)[name] !== 'function');
+    if (unknownFunctions.length > 0) {
+        return { node: null, error: `Unknown function ${Array.from(new Set(unknownFunctions)).join(', ')}` };
+    }
+
+    return { node, error: null };
+}
+
+// `domain` is where the inner product's weight is defined, if it is not defined everywhere.
+export function validateInterval(a: number, b: number, domain?: [number, number]): string | null {
+    if (!isFinite(a) || !isFinite(b)) return 'Both ends of the interval must be numbers';
+    if (a >= b) return 'The interval must satisfy a < b';
+    if (domain && (a < domain[0] || b > domain[1])) return `This inner product is only defined on [${domain[0]}, ${domain[1]}]`;
+    if (b - a > MAX_SANDBOX_INTERVAL) return `The interval may be at most ${MAX_SANDBOX_INTERVAL} long`;
+    return null;
+}
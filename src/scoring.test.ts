@@ -0,0 +1,44 @@
+import { getModeKey } from './modes';
+import { describeRoundScoring, getScoringStrategy, GAUSSIAN_SIGMA, SCORING_STRATEGIES, ScoringStrategyId } from './scoring';
+
+const ids = Object.keys(SCORING_STRATEGIES) as ScoringStrategyId[];
+
+describe('scoring strategies', () => {
+  test.each(ids)('%s gives 100 for a perfect guess and falls off with the error', id => {
+    const { score } = getScoringStrategy(id);
+    expect(score(42, 42)).toBeCloseTo(100);
+    const scores = [0, 5, 20, 45, 90].map(error => score(90 + error, 90));
+    scores.slice(1).forEach((value, i) => expect(value).toBeLessThan(scores[i]));
+    expect(score(0, 180)).toBeGreaterThanOrEqual(0);
+  });
+
+  test('linear and Gaussian strategies', () => {
+    expect(getScoringStrategy('linear').score(30, 120)).toBeCloseTo(50);
+    expect(getScoringStrategy('gaussian').score(60 + GAUSSIAN_SIGMA, 60)).toBeCloseTo(100 * Math.exp(-0.5));
+  });
+
+  test('cosine error costs more near 90° than near 0°', () => {
+    const { score } = getScoringStrategy('cosine');
+    expect(score(100, 90)).toBeLessThan(score(10, 0));
+    expect(score(0, 180)).toBe(0);
+  });
+
+  test('falls back to cubic for unknown or missing strategies', () => {
+    expect(getScoringStrategy(undefined).id).toBe('cubic');
+    expect(getScoringStrategy('quartic' as ScoringStrategyId).id).toBe('cubic');
+  });
+});
+
+test('rounds are described by how they were scored', () => {
+  expect(describeRoundScoring({ scoring: 'gaussian' })).toBe('Gaussian Tolerance');
+  expect(describeRoundScoring({})).toBe('Cubic');
+  expect(describeRoundScoring({ guessRange: [10, 20] })).toBe('Interval');
+});
+
+test('totals under different strategies are kept apart', () => {
+  const rules = { isUnitaryMode: false, acuteAnglesOnly: false, isEasyInterval: true, innerProduct: 'l2' as const, isVectorMode: false, vectorDimension: 3 };
+  const keys = ids.map(scoring => getModeKey({ ...rules, scoring }));
+  expect(new Set(keys).size).toBe(ids.length);
+  // Sessions from before strategies existed keep their records.
+  expect(getModeKey({ ...rules, scoring: 'cubic' })).toBe(getModeKey(rules));
+});
@@ -0,0 +1,61 @@
+import { RoundData } from './components/Stats';
+
+// --- Scoring Strategies ---
+// How a point guess turns into 0-100 points. Each round records the strategy it was scored with,
+// and modes (hence totals, records and leaderboards) are kept apart per strategy, since 80 points
+// under one strategy mean something different under another.
+
+export type ScoringStrategyId = 'cubic' | 'linear' | 'gaussian' | 'cosine';
+
+export interface ScoringStrategy {
+    id: ScoringStrategyId;
+    label: string;
+    // Points for the guess, from 0 to 100.
+    score: (guess: number, actual: number) => number;
+    // TeX for the settings explainer, in terms of the error Δθ (or the angles themselves).
+    tex: string;
+}
+
+export const DEFAULT_SCORING: ScoringStrategyId = 'cubic';
+// Width of the Gaussian tolerance: a guess this far off still earns ~61 points.
+export const GAUSSIAN_SIGMA = 15;
+
+const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+
+export const SCORING_STRATEGIES: Record<ScoringStrategyId, ScoringStrategy> = {
+    cubic: {
+        id: 'cubic',
+        label: 'Cubic',
+        score: (guess, actual) => 100 * Math.pow(Math.max(0, 1 - Math.abs(actual - guess) / 180), 3),
+        tex: '100 \\left(1 - \\frac{\\Delta\\theta}{180^\\circ}\\right)^3',
+    },
+    linear: {
+        id: 'linear',
+        label: 'Linear',
+        score: (guess, actual) => 100 * Math.max(0, 1 - Math.abs(actual - guess) / 180),
+        tex: '100 \\left(1 - \\frac{\\Delta\\theta}{180^\\circ}\\right)',
+    },
+    gaussian: {
+        id: 'gaussian',
+        label: 'Gaussian Tolerance',
+        score: (guess, actual) => 100 * Math.exp(-Math.pow(actual - guess, 2) / (2 * GAUSSIAN_SIGMA * GAUSSIAN_SIGMA)),
+        tex: `100 \\, e^{-\\Delta\\theta^2 / (2 \\cdot ${GAUSSIAN_SIGMA}^{\\circ 2})}`,
+    },
+    // The error in what the angle actually measures, cos θ = ⟨f, g⟩ / (‖f‖‖g‖), rather than in
+    // degrees: being off near 90° costs more than near 0° or 180°, where cos θ barely moves.
+    cosine: {
+        id: 'cosine',
+        label: 'Cosine Error',
+        score: (guess, actual) => 100 * Math.pow(1 - Math.abs(Math.cos(toRadians(actual)) - Math.cos(toRadians(guess))) / 2, 3),
+        tex: '100 \\left(1 - \\frac{|\\cos\\theta_{\\text{guess}} - \\cos\\theta|}{2}\\right)^3',
+    },
+};
+
+export function getScoringStrategy(id: ScoringStrategyId | undefined): ScoringStrategy {
+    return SCORING_STRATEGIES[id ?? DEFAULT_SCORING] ?? SCORING_STRATEGIES[DEFAULT_SCORING];
+}
+
+// Interval guesses have their own scoring rule; rounds from before strategies existed were cubic.
+export function describeRoundScoring(round: Pick<RoundData, 'scoring' | 'guessRange'>): string {
+    return round.guessRange ? 'Interval' : getScoringStrategy(round.scoring).label;
+}
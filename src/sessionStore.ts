@@ -0,0 +1,90 @@
+import { AppSettings } from './App';
+import { RoundData } from './components/Stats';
+
+// --- Session Persistence ---
+// Finished and in-progress sessions are kept in IndexedDB. Where IndexedDB is unavailable
+// (old browsers, private windows, tests) they fall back to localStorage.
+
+export interface GameSession {
+    id: string;
+    startedAt: number;
+    // The rules that were active for the whole session (the daily challenge overrides the player's own).
+    settings: AppSettings;
+    dailyKey: string | null;
+    // Set for one player's part of a hot-seat game.
+    player?: string;
+    rounds: RoundData[];
+    totalScore: number;
+}
+
+const DB_NAME = 'angulario';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const LOCAL_STORAGE_KEY = 'angulario-sessions';
+
+export function createSessionId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!databasePromise) {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        };
+        databasePromise = promisify(request);
+    }
+    return databasePromise;
+}
+
+function readLocalSessions(): GameSession[] {
+    try {
+        const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+        console.error("Failed to parse sessions from localStorage", error);
+        return [];
+    }
+}
+
+const byStartDate = (a: GameSession, b: GameSession) => a.startedAt - b.startedAt;
+
+export async function loadSessions(): Promise<GameSession[]> {
+    if (typeof indexedDB === 'undefined') return readLocalSessions().sort(byStartDate);
+
+    const db = await openDatabase();
+    const sessions = await promisify(db.transaction(SESSION_STORE, 'readonly').objectStore(SESSION_STORE).getAll());
+    return (sessions as GameSession[]).sort(byStartDate);
+}
+
+// Inserts the sessions, replacing any stored session with the same id.
+export async function saveSessions(sessions: GameSession[]): Promise<void> {
+    if (typeof indexedDB === 'undefined') {
+        const ids = new Set(sessions.map(s => s.id));
+        const merged = [...readLocalSessions().filter(s => !ids.has(s.id)), ...sessions];
+        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(merged));
+        return;
+    }
+
+    const db = await openDatabase();
+    const transaction = db.transaction(SESSION_STORE, 'readwrite');
+    const store = transaction.objectStore(SESSION_STORE);
+    sessions.forEach(session => store.put(session));
+    await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+}
+
+export function saveSession(session: GameSession): Promise<void> {
+    return saveSessions([session]);
+}
@@ -0,0 +1,23 @@
+import { MAX_FREQUENCY, MIN_FREQUENCY, toFrequencies, valueRange } from './sonification';
+
+describe('valueRange', () => {
+  test('spans every defined value of all curves', () => {
+    expect(valueRange([1, null, -3], [2, Infinity])).toEqual([-3, 2]);
+    expect(valueRange([null])).toBeNull();
+  });
+});
+
+describe('toFrequencies', () => {
+  test('maps the range onto two octaves, equal steps in value to equal intervals', () => {
+    const [low, mid, high] = toFrequencies([-1, 0, 1], [-1, 1]) as number[];
+    expect(low).toBeCloseTo(MIN_FREQUENCY);
+    expect(high).toBeCloseTo(MAX_FREQUENCY);
+    expect(mid / low).toBeCloseTo(high / mid);
+  });
+
+  test('keeps gaps silent and centres a flat curve', () => {
+    const [gap, flat] = toFrequencies([null, 2], [2, 2]);
+    expect(gap).toBeNull();
+    expect(flat).toBeCloseTo(Math.sqrt(MIN_FREQUENCY * MAX_FREQUENCY));
+  });
+});
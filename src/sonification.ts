@@ -0,0 +1,81 @@
+import { PlotData } from './roundEngine';
+
+// --- Sonification ---
+// Plays each curve as a tone whose pitch follows its value as x sweeps across the interval, so
+// the two can be compared by ear: f on the left in a sine tone, g on the right in a triangle tone.
+// Both share one value-to-pitch scale, so equal values sound at equal pitch.
+
+export const MIN_FREQUENCY = 220; // A3
+export const MAX_FREQUENCY = 880; // A5
+export const SONIFY_DURATION_MS = 3000;
+
+export type Voice = 'f' | 'g';
+
+const VOLUME = 0.2;
+const PAN = 0.8;
+const START_DELAY_S = 0.05;
+// Vector entries are played as separate notes, with this share of each note's slot left silent.
+const NOTE_GAP = 0.25;
+
+export function valueRange(...curves: (number | null)[][]): [number, number] | null {
+    const defined = curves.flat().filter((y): y is number => y !== null && isFinite(y));
+    return defined.length === 0 ? null : [Math.min(...defined), Math.max(...defined)];
+}
+
+// Exponential in the value, so equal steps in y sound like equal musical intervals.
+export function toFrequencies(ys: (number | null)[], [lo, hi]: [number, number]): (number | null)[] {
+    return ys.map(y => {
+        if (y === null || !isFinite(y)) return null;
+        const t = hi === lo ? 0.5 : (y - lo) / (hi - lo);
+        return MIN_FREQUENCY * Math.pow(MAX_FREQUENCY / MIN_FREQUENCY, t);
+    });
+}
+
+export const isSonificationSupported = (): boolean => typeof window !== 'undefined' && 'AudioContext' in window;
+
+// Starts playing the chosen curves and returns a function that stops them early.
+export function playCurves(plot: PlotData, voices: Voice[], durationMs = SONIFY_DURATION_MS): () => void {
+    const context = new AudioContext();
+    const range = valueRange(plot.y1_values, plot.y2_values);
+    const n = plot.x_values.length;
+    if (!range || n === 0) {
+        context.close();
+        return () => undefined;
+    }
+
+    const step = durationMs / 1000 / n;
+    const start = context.currentTime + START_DELAY_S;
+    for (const voice of voices) {
+        const frequencies = toFrequencies(voice === 'f' ? plot.y1_values : plot.y2_values, range);
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        const panner = context.createStereoPanner();
+        oscillator.type = voice === 'f' ? 'sine' : 'triangle';
+        panner.pan.value = voices.length > 1 ? (voice === 'f' ? -PAN : PAN) : 0;
+        gain.gain.setValueAtTime(0, context.currentTime);
+
+        frequencies.forEach((hz, i) => {
+            const t = start + i * step;
+            gain.gain.setValueAtTime(hz === null ? 0 : VOLUME, t);
+            if (hz === null) return;
+            if (plot.isDiscrete) {
+                oscillator.frequency.setValueAtTime(hz, t);
+                gain.gain.setValueAtTime(0, t + step * (1 - NOTE_GAP));
+            } else if (i === 0) {
+                oscillator.frequency.setValueAtTime(hz, t);
+            } else {
+                oscillator.frequency.linearRampToValueAtTime(hz, t);
+            }
+        });
+
+        oscillator.connect(gain).connect(panner).connect(context.destination);
+        oscillator.start(start);
+        oscillator.stop(start + n * step);
+    }
+
+    const timer = setTimeout(() => context.close(), durationMs + 500);
+    return () => {
+        clearTimeout(timer);
+        context.close();
+    };
+}
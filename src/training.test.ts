@@ -0,0 +1,92 @@
+import { getDifficultyLevel } from './difficulty';
+import { createRng } from './random';
+import { availableFamilies, buildTrainingModel, chooseFocus, classifyExpressions, focusLevel, FUNCTION_FAMILIES, RECALL_ERROR, TrainingRound } from './training';
+
+const round = (actual: number, diff: number, f1_expr = 'x ^ 2', f2_expr = 'x + 0.5 * x ^ 3'): TrainingRound => ({ actual, diff, f1_expr, f2_expr });
+
+describe('classifyExpressions', () => {
+  test('names the family all functions belong to', () => {
+    expect(classifyExpressions('x ^ 2', 'cbrt(x) + 1 / (x ^ 2 + 1)')).toBe('polynomial');
+    expect(classifyExpressions('sin(x)', 'x * cos(2 * x) + 0.5 * asin(x / 5)')).toBe('trig');
+    expect(classifyExpressions('exp(-x ^ 2)', 'tanh(x) + sinh(x)')).toBe('exp');
+  });
+
+  test('calls mixed families composed', () => {
+    expect(classifyExpressions('sin(exp(x))', 'x')).toBe('composed');
+    expect(classifyExpressions('sin(x)', 'exp(x)')).toBe('composed');
+  });
+});
+
+describe('focusLevel', () => {
+  test('keeps only the base functions of the family', () => {
+    const level = focusLevel(getDifficultyLevel('standard'), 'exp');
+    expect(level.baseFunctions).toEqual(['exp(x)', 'tanh(x)', 'sinh(x)']);
+    expect(focusLevel(getDifficultyLevel('standard'), 'composed')).toEqual(getDifficultyLevel('standard'));
+  });
+
+  test('offers only families with a pair of base functions', () => {
+    // Novice has a single exponential.
+    expect(availableFamilies(getDifficultyLevel('novice'))).toEqual(['polynomial', 'trig', 'composed']);
+    expect(availableFamilies(getDifficultyLevel('standard'))).toEqual(['polynomial', 'trig', 'exp', 'composed']);
+  });
+});
+
+describe('buildTrainingModel', () => {
+  test('smooths the error per angle bucket and family', () => {
+    const model = buildTrainingModel([round(40, 20), round(45, 10), round(50, 30, 'sin(x)', 'cos(x)'), round(180, 5)]);
+    const cell = (angle: number, family: string) => model.cells.find(c => c.family === family && angle >= c.from && angle <= c.to)!;
+
+    expect(model.step).toBe(4);
+    expect(cell(40, 'polynomial')).toMatchObject({ rounds: 2, error: 17, baselineError: 15 });
+    expect(cell(50, 'trig')).toMatchObject({ rounds: 1, error: 30 });
+    expect(cell(180, 'polynomial').rounds).toBe(1);
+    expect(cell(100, 'exp')).toMatchObject({ rounds: 0, error: null });
+  });
+
+  test('spaces out recalled cells and brings missed ones back', () => {
+    const close = buildTrainingModel([round(40, 2), round(40, 2), round(40, 2)]).cells.find(c => c.rounds > 0)!;
+    expect(close).toMatchObject({ interval: 8, dueAt: 11 });
+
+    const missed = buildTrainingModel([round(40, 2), round(40, 2), round(40, RECALL_ERROR + 1)]).cells.find(c => c.rounds > 0)!;
+    expect(missed).toMatchObject({ interval: 1, dueAt: 4 });
+  });
+
+  test('skips rounds without expressions and, in acute play, obtuse angles', () => {
+    const model = buildTrainingModel([{ actual: 40, diff: 5 }, round(120, 5)], 90);
+    expect(model.step).toBe(1);
+    expect(model.cells.every(cell => cell.rounds === 0 && cell.to <= 90)).toBe(true);
+  });
+
+  test('lists the angle buckets, each with a cell per family', () => {
+    const model = buildTrainingModel([], 90);
+    expect(model.buckets).toEqual([{ from: 0, to: 30 }, { from: 30, to: 60 }, { from: 60, to: 90 }]);
+    expect(model.cells).toHaveLength(model.buckets.length * Object.keys(FUNCTION_FAMILIES).length);
+  });
+});
+
+describe('chooseFocus', () => {
+  test('favours the weakest due cells', () => {
+    // Every polynomial bucket played well except 60-90°; the other families were never played.
+    const rounds = [15, 45, 75, 105, 135, 165].map(angle => round(angle, angle === 75 ? 40 : 2));
+    const model = buildTrainingModel(rounds);
+    const rng = createRng(1);
+    const picks = Array.from({ length: 200 }, () => chooseFocus(model, ['polynomial'], rng)!);
+
+    expect(picks.every(focus => focus.family === 'polynomial')).toBe(true);
+    expect(picks.filter(focus => focus.from === 60).length).toBeGreaterThan(picks.length / 2);
+    // Just played well, so not due for another round.
+    expect(picks.some(focus => focus.from === 150)).toBe(false);
+  });
+
+  test('skips the cell of the round still being played', () => {
+    const model = buildTrainingModel([]);
+    const rng = createRng(2);
+    const picks = Array.from({ length: 200 }, () => chooseFocus(model, ['trig'], rng, { angle: 10, family: 'trig' })!);
+    expect(picks.some(focus => focus.from === 0)).toBe(false);
+    expect(picks.some(focus => focus.from === 150)).toBe(true);
+  });
+
+  test('has nothing to offer without families', () => {
+    expect(chooseFocus(buildTrainingModel([]), [], createRng(3))).toBeNull();
+  });
+});
@@ -0,0 +1,164 @@
+import { RoundData } from './components/Stats';
+import { GameSession } from './sessionStore';
+import { DifficultyLevel } from './difficulty';
+import { ANGLE_BUCKET_SIZE } from './historyAnalysis';
+import { Rng } from './random';
+
+// --- Training ---
+// Training mode keeps a model of the player's error per cell, a cell being an angle bucket and a
+// function family, replayed from every function round played so far. Each round goes to a weak cell
+// that is due: a close guess doubles how many rounds a cell waits before it comes up again, a poor
+// one brings it back straight away (Leitner-style spacing, counted in rounds played).
+
+export type FunctionFamily = 'polynomial' | 'trig' | 'exp' | 'composed';
+
+export interface FunctionFamilyDefinition {
+    id: FunctionFamily;
+    label: string;
+    // Named functions that put an expression in the family; roots and rational functions of x
+    // have none and count as polynomial.
+    pattern?: RegExp;
+}
+
+export const FUNCTION_FAMILIES: Record<FunctionFamily, FunctionFamilyDefinition> = {
+    polynomial: { id: 'polynomial', label: 'Polynomial' },
+    trig: { id: 'trig', label: 'Trigonometric', pattern: /\b(sin|cos|tan|asin|acos|atan)\(/ },
+    exp: { id: 'exp', label: 'Exponential', pattern: /\b(exp|sinh|cosh|tanh)\(/ },
+    // Pairs mixing families, e.g. sin(exp(x)) or x^2 + exp(x).
+    composed: { id: 'composed', label: 'Composed' },
+};
+
+// Weight of the latest round in a cell's smoothed error.
+export const ERROR_SMOOTHING = 0.3;
+// A guess this close (in degrees) counts as recalled and spaces the cell out.
+export const RECALL_ERROR = 10;
+// Assumed error of a cell that was never played, so every cell gets tried early on.
+export const UNSEEN_ERROR = 30;
+// The progress view compares the current error with the mean of a cell's first rounds.
+export const BASELINE_ROUNDS = 3;
+
+export type TrainingRound = Pick<RoundData, 'actual' | 'diff' | 'f1_expr' | 'f2_expr'>;
+
+// What the next round should aim at.
+export interface RoundFocus {
+    from: number;
+    to: number;
+    family: FunctionFamily;
+}
+
+export interface TrainingCell {
+    from: number;
+    to: number;
+    family: FunctionFamily;
+    rounds: number;
+    // Smoothed error in degrees, null until the cell was played.
+    error: number | null;
+    baselineError: number | null;
+    // Rounds from one play of the cell to the next, and the round number from which it is due again.
+    interval: number;
+    dueAt: number;
+}
+
+export interface AngleRange {
+    from: number;
+    to: number;
+}
+
+export interface TrainingModel {
+    // Every angle bucket, in order; each has one cell per family.
+    buckets: AngleRange[];
+    cells: TrainingCell[];
+    // Rounds replayed so far.
+    step: number;
+}
+
+// --- Families ---
+const expressionFamilies = (expr: string): FunctionFamily[] =>
+    Object.values(FUNCTION_FAMILIES).filter(family => family.pattern?.test(expr)).map(family => family.id);
+
+// The family of a function, or a pair of them: the one all named functions belong to, or composed.
+export function classifyExpressions(...exprs: string[]): FunctionFamily {
+    const families = new Set(exprs.flatMap(expressionFamilies));
+    if (families.size === 0) return 'polynomial';
+    return families.size === 1 ? Array.from(families)[0] : 'composed';
+}
+
+// The level with only the base functions of the family, so both functions of a round belong to it.
+export function focusLevel(level: DifficultyLevel, family: FunctionFamily): DifficultyLevel {
+    if (family === 'composed') return level;
+    return { ...level, baseFunctions: level.baseFunctions.filter(func => classifyExpressions(func) === family) };
+}
+
+// A family needs two base functions at the level to make a pair; mixing needs nothing extra.
+export function availableFamilies(level: DifficultyLevel): FunctionFamily[] {
+    return Object.values(FUNCTION_FAMILIES)
+        .map(family => family.id)
+        .filter(family => focusLevel(level, family).baseFunctions.length >= 2);
+}
+
+// --- Model ---
+// Function rounds of every session, oldest first. Vector rounds have no family and are left out.
+export function trainingRounds(sessions: GameSession[]): TrainingRound[] {
+    return [...sessions]
+        .filter(session => !session.settings.isVectorMode)
+        .sort((a, b) => a.startedAt - b.startedAt)
+        .flatMap(session => session.rounds);
+}
+
+// The largest angle falls in the last bucket.
+function findCell(cells: TrainingCell[], angle: number, family: FunctionFamily): TrainingCell | undefined {
+    const row = cells.filter(cell => cell.family === family);
+    const last = row[row.length - 1];
+    return angle === last.to ? last : row.find(cell => angle >= cell.from && angle < cell.to);
+}
+
+export function buildTrainingModel(rounds: TrainingRound[], maxAngle: number = 180, bucketSize: number = ANGLE_BUCKET_SIZE): TrainingModel {
+    const buckets: AngleRange[] = [];
+    for (let from = 0; from < maxAngle; from += bucketSize) {
+        buckets.push({ from, to: Math.min(maxAngle, from + bucketSize) });
+    }
+    const cells = Object.values(FUNCTION_FAMILIES).flatMap(family => buckets.map(({ from, to }): TrainingCell => ({
+        from, to, family: family.id, rounds: 0, error: null, baselineError: null, interval: 1, dueAt: 0,
+    })));
+
+    let step = 0;
+    for (const round of rounds) {
+        // Rounds from before expressions were recorded cannot be classified.
+        if (round.f1_expr === undefined || round.f2_expr === undefined) continue;
+        step++;
+        const cell = findCell(cells, round.actual, classifyExpressions(round.f1_expr, round.f2_expr));
+        if (!cell) continue; // An obtuse angle while modelling acute play.
+
+        cell.rounds++;
+        cell.error = cell.error === null ? round.diff : cell.error + ERROR_SMOOTHING * (round.diff - cell.error);
+        if (cell.rounds <= BASELINE_ROUNDS) {
+            cell.baselineError = ((cell.baselineError ?? 0) * (cell.rounds - 1) + round.diff) / cell.rounds;
+        }
+        cell.interval = round.diff <= RECALL_ERROR ? cell.interval * 2 : 1;
+        cell.dueAt = step + cell.interval;
+    }
+    return { buckets, cells, step };
+}
+
+// --- Scheduling ---
+// Picks a due cell among the families on offer, weighted by its error; if none is due, any cell.
+// The round still being played is already scheduled, so its cell is skipped.
+export function chooseFocus(
+    model: TrainingModel,
+    families: FunctionFamily[],
+    rng: Rng,
+    inFlight?: { angle: number, family: FunctionFamily }
+): RoundFocus | null {
+    const skipped = inFlight && findCell(model.cells, inFlight.angle, inFlight.family);
+    const candidates = model.cells.filter(cell => families.includes(cell.family) && cell !== skipped);
+    const nextRound = model.step + (inFlight ? 2 : 1);
+    const due = candidates.filter(cell => cell.dueAt <= nextRound);
+    const pool = due.length > 0 ? due : candidates;
+    if (pool.length === 0) return null;
+
+    const weights = pool.map(cell => Math.max(1, cell.error ?? UNSEEN_ERROR));
+    let r = rng() * weights.reduce((acc, w) => acc + w, 0);
+    const index = weights.findIndex(w => (r -= w) < 0);
+    const { from, to, family } = pool[index === -1 ? pool.length - 1 : index];
+    return { from, to, family };
+}
@@ -0,0 +1,58 @@
+import { calculateVectorAngle, clampDimension, formatVector, generateVectorPair, parseVector, vectorToTex } from './vectors';
+import { generateRound } from './roundEngine';
+import { createRng } from './random';
+
+const rules = { isUnitaryMode: false, acuteAnglesOnly: false, isEasyInterval: false, innerProduct: 'l2' as const, isVectorMode: true, vectorDimension: 3, difficulty: 'standard' as const };
+
+describe('calculateVectorAngle', () => {
+  test('matches familiar Euclidean angles', () => {
+    expect(calculateVectorAngle([1, 0], [1, 1], false, false).angle).toBeCloseTo(45, 10);
+    expect(calculateVectorAngle([1, 0, 0], [0, 0, 2], false, false).angle).toBeCloseTo(90, 10);
+    expect(calculateVectorAngle([1, 2, 3], [-1, -2, -3], false, false).angle).toBeCloseTo(180, 6);
+  });
+
+  test('flips v in acute mode', () => {
+    const { angle, f2_final } = calculateVectorAngle([1, 0], [-1, 1], false, true);
+    expect(angle).toBeCloseTo(45, 10);
+    expect(f2_final).toEqual([1, -1]);
+  });
+
+  test('normalises both vectors in unitary mode', () => {
+    const { angle, f1_final, breakdown } = calculateVectorAngle([3, 4], [0, 2], true, false);
+    const { normF1, normF2 } = breakdown!;
+    expect(f1_final).toEqual([0.6, 0.8]);
+    expect(normF1).toBeCloseTo(1);
+    expect(normF2).toBeCloseTo(1);
+    expect(angle).toBeCloseTo(Math.acos(0.8) * (180 / Math.PI), 10);
+  });
+
+  test('rejects zero vectors', () => {
+    expect(calculateVectorAngle([0, 0], [1, 2], false, false).rejection).toBe('zero norm');
+  });
+});
+
+test('generates vectors of the requested dimension', () => {
+  const rng = createRng(5);
+  for (const n of [2, 3, 17, 50]) {
+    const [u, v] = generateVectorPair(n, rng);
+    expect(u).toHaveLength(n);
+    expect(v).toHaveLength(n);
+  }
+  expect(clampDimension(1)).toBe(2);
+  expect(clampDimension(80)).toBe(50);
+  expect(clampDimension(NaN)).toBe(2);
+});
+
+test('vectors survive the round trip through the stored expressions', () => {
+  expect(parseVector(formatVector([1, -2.5, 1 / 3]))).toEqual([1, -2.5, 0.3333]);
+  expect(parseVector('sin(x)')).toBeNull();
+  expect(vectorToTex('u', Array.from({ length: 20 }, (_, i) => i))).toBe('u = \\left(0, 1, 2, \\ldots, 18, 19\\right)');
+});
+
+test('vector rounds are stem plots on [1, n]', () => {
+  const { round, plot } = generateRound({ ...rules, vectorDimension: 8 }, [], 11);
+  expect(round.interval).toEqual([1, 8]);
+  expect(plot.isDiscrete).toBe(true);
+  expect(plot.x_values).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  expect(calculateVectorAngle(parseVector(round.f1_expr)!, parseVector(round.f2_expr)!, false, false).angle).toBeCloseTo(round.angle, 3);
+});
@@ -0,0 +1,106 @@
+import { AngleResult, getNewFunctions } from './gameLogic';
+import { compileFunction, linspace, sampleFunction } from './compiledFunction';
+import { Rng, randomInt } from './random';
+
+// --- Vector Mode ---
+// Instead of functions, the player compares two vectors in ℝⁿ under the standard dot product.
+// Small vectors have integer entries; longer ones are either integer sequences or a random
+// function sampled at n points, so they look like the discrete cousins of the usual rounds.
+
+export const MIN_DIMENSION = 2;
+export const MAX_DIMENSION = 50;
+// Up to this dimension the vectors are also drawn as arrows.
+export const MAX_ARROW_DIMENSION = 3;
+
+export const DOT_PRODUCT_TEX = '\\langle u, v \\rangle = \\sum_{i=1}^n u_i v_i';
+
+const MAX_INTEGER_ENTRY = 9;
+// Longer vectors are abbreviated in TeX; the plot shows every entry.
+const MAX_TEX_ENTRIES = 10;
+
+export function clampDimension(n: number): number {
+    if (!isFinite(n)) return MIN_DIMENSION;
+    return Math.min(MAX_DIMENSION, Math.max(MIN_DIMENSION, Math.round(n)));
+}
+
+export const dot = (u: number[], v: number[]): number => u.reduce((acc, ui, i) => acc + ui * v[i], 0);
+export const norm = (u: number[]): number => Math.sqrt(dot(u, u));
+
+// --- Generation ---
+function integerVector(n: number, rng: Rng): number[] {
+    return Array.from({ length: n }, () => randomInt(rng, 2 * MAX_INTEGER_ENTRY + 1) - MAX_INTEGER_ENTRY);
+}
+
+function sampledPair(n: number, rng: Rng): [number[], number[]] {
+    const interval: [number, number] = [-2, 2];
+    const { f1, f2 } = getNewFunctions(interval, rng);
+    const xs = linspace(interval[0], interval[1], n);
+    const round2 = (ys: Float64Array) => Array.from(ys, y => Math.round(y * 100) / 100);
+    return [round2(sampleFunction(compileFunction(f1), xs)), round2(sampleFunction(compileFunction(f2), xs))];
+}
+
+// May return zero or non-finite vectors; calculateVectorAngle rejects those.
+export function generateVectorPair(n: number, rng: Rng): [number[], number[]] {
+    if (n <= MAX_ARROW_DIMENSION || rng() < 0.5) return [integerVector(n, rng), integerVector(n, rng)];
+    return sampledPair(n, rng);
+}
+
+// --- Angle ---
+// Mirrors calculateAngle: unitary mode normalises both vectors, acute mode flips v.
+export function calculateVectorAngle(u_orig: number[], v_orig: number[], isUnitary: boolean, ensureAcute: boolean): AngleResult<number[]> {
+    let u = u_orig;
+    let v = v_orig;
+    if (![...u, ...v].every(isFinite)) return { angle: null, f1_final: u, f2_final: v, rejection: 'undefined entries' };
+
+    const normU = norm(u);
+    const normV = norm(v);
+    if (normU === 0 || normV === 0) return { angle: null, f1_final: u, f2_final: v, rejection: 'zero norm' };
+
+    if (isUnitary) {
+        u = u.map(ui => ui / normU);
+        v = v.map(vi => vi / normV);
+    }
+    let innerProduct = dot(u, v);
+    const flipped = ensureAcute && innerProduct < 0;
+    if (flipped) {
+        v = v.map(vi => -vi);
+        innerProduct = -innerProduct;
+    }
+
+    const normF1 = norm(u);
+    const normF2 = norm(v);
+    const cosTheta = Math.max(-1, Math.min(1, innerProduct / (normF1 * normF2)));
+    const angle = Math.acos(cosTheta) * (180 / Math.PI);
+    return {
+        angle,
+        f1_final: u,
+        f2_final: v,
+        angleError: 0,
+        breakdown: { normalisedFrom: isUnitary ? [normU, normV] : undefined, flipped, innerProduct, normF1, normF2, cosTheta },
+    };
+}
+
+// --- Serialisation ---
+// Vectors are stored in the round's f1_expr/f2_expr as JSON arrays (which mathjs reads as matrices).
+const formatEntry = (x: number): string => String(Math.round(x * 1e4) / 1e4);
+
+export function formatVector(u: number[]): string {
+    return `[${u.map(formatEntry).join(', ')}]`;
+}
+
+export function parseVector(expression: string): number[] | null {
+    if (!expression.trim().startsWith('[')) return null;
+    try {
+        const parsed: unknown = JSON.parse(expression);
+        return Array.isArray(parsed) && parsed.length >= MIN_DIMENSION && parsed.every(x => typeof x === 'number') ? parsed : null;
+    } catch {
+        return null;
+    }
+}
+
+export function vectorToTex(name: string, u: number[]): string {
+    const entries = u.length > MAX_TEX_ENTRIES
+        ? [...u.slice(0, 3).map(formatEntry), '\\ldots', ...u.slice(-2).map(formatEntry)]
+        : u.map(formatEntry);
+    return `${name} = \\left(${entries.join(', ')}\\right)`;
+}
@@ -0,0 +1,4 @@
+// Kept in its own module (and loaded lazily) because `import.meta` only exists in the browser bundle.
+export function createRoundWorker(): Worker {
+    return new Worker(new URL('./round.worker.ts', import.meta.url));
+}
@@ -0,0 +1,33 @@
+import * as roundEngine from '../roundEngine';
+import { GenerateRoundRequest, RoundWorkerResponse } from './roundProtocol';
+import './round.worker';
+
+const rules = { isUnitaryMode: false, acuteAnglesOnly: false, isEasyInterval: false, innerProduct: 'l2' as const, isVectorMode: true, vectorDimension: 3, difficulty: 'standard' as const };
+
+// Under Jest the worker script runs in the test's own global scope, so its replies go to window.postMessage.
+function send(request: GenerateRoundRequest): RoundWorkerResponse {
+  const postMessage = jest.spyOn(window, 'postMessage').mockImplementation(() => undefined);
+  try {
+    window.onmessage!({ data: request } as MessageEvent);
+    expect(postMessage).toHaveBeenCalledTimes(1);
+    return postMessage.mock.calls[0][0] as RoundWorkerResponse;
+  } finally {
+    postMessage.mockRestore();
+  }
+}
+
+test('replies with the round for the request, under the same id', () => {
+  const response = send({ type: 'generate', requestId: 7, rules, history: [], seed: 42 });
+  expect(response).toEqual({ type: 'round', requestId: 7, ...roundEngine.generateRound(rules, [], 42) });
+});
+
+test('replies with an error when the round cannot be generated', () => {
+  const generateRound = jest.spyOn(roundEngine, 'generateRound').mockImplementation(() => {
+    throw new Error('no luck');
+  });
+  try {
+    expect(send({ type: 'generate', requestId: 8, rules, history: [], seed: 42 })).toEqual({ type: 'error', requestId: 8, message: 'no luck' });
+  } finally {
+    generateRound.mockRestore();
+  }
+});
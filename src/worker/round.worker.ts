@@ -0,0 +1,19 @@
+import { generateRound } from '../roundEngine';
+import { RoundWorkerRequest, RoundWorkerResponse } from './roundProtocol';
+
+// eslint-disable-next-line no-restricted-globals
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<RoundWorkerRequest>) => {
+    const request = e.data;
+    let response: RoundWorkerResponse;
+    try {
+        const { round, plot } = generateRound(request.rules, request.history, request.seed, request.focus);
+        response = { type: 'round', requestId: request.requestId, round, plot };
+    } catch (error) {
+        response = { type: 'error', requestId: request.requestId, message: error instanceof Error ? error.message : String(error) };
+    }
+    ctx.postMessage(response);
+};
+
+export {};
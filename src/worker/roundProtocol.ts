@@ -0,0 +1,33 @@
+import { RoundData } from '../components/Stats';
+import { RoundRules, IRoundData, PlotData } from '../roundEngine';
+import { RoundFocus } from '../training';
+
+// --- Round Worker Protocol ---
+// Messages exchanged between the app and the round worker. Every request carries an id that is
+// echoed back in its response, so several requests (e.g. a pre-generated next round) can be in flight.
+
+export interface GenerateRoundRequest {
+    type: 'generate';
+    requestId: number;
+    rules: RoundRules;
+    history: Pick<RoundData, 'isEasy'>[];
+    seed: number;
+    // Training mode's pick for the round.
+    focus?: RoundFocus;
+}
+
+export interface RoundGeneratedResponse {
+    type: 'round';
+    requestId: number;
+    round: IRoundData;
+    plot: PlotData;
+}
+
+export interface RoundErrorResponse {
+    type: 'error';
+    requestId: number;
+    message: string;
+}
+
+export type RoundWorkerRequest = GenerateRoundRequest;
+export type RoundWorkerResponse = RoundGeneratedResponse | RoundErrorResponse;